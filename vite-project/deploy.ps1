@@ -24,7 +24,7 @@ if (Test-Path ".env") {
         }
     }
 } else {
-    Write-Host "Warning: .env file not found. Copy .env.example to .env and set VITE_OPENAI_API_KEY so it is available in the S3 build." -ForegroundColor Yellow
+    Write-Host "Warning: .env file not found. Copy .env.example to .env and set VITE_CLASSIFIER_PROXY_URL so the S3 build can reach the classifier proxy." -ForegroundColor Yellow
 }
 
 Write-Host "Building project (dist will be S3-ready with relative paths)..." -ForegroundColor Green
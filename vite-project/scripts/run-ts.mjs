@@ -0,0 +1,32 @@
+// Runs a TypeScript module from src/ under Node. The module is loaded through Vite,
+// so `.ts` imports and import.meta.env (from .env) work the same as in the app.
+//
+// Usage: node scripts/run-ts.mjs <module> [args...]
+// The module must export `main(args: string[]): Promise<number | void>`; its result is the exit code.
+import { createServer } from 'vite'
+
+const [modulePath, ...args] = process.argv.slice(2)
+if (!modulePath) {
+  console.error('Usage: node scripts/run-ts.mjs <module> [args...]')
+  process.exit(1)
+}
+
+const server = await createServer({
+  appType: 'custom',
+  logLevel: 'error',
+  server: { middlewareMode: true, hmr: false, watch: null },
+  optimizeDeps: { noDiscovery: true }
+})
+
+try {
+  const module = await server.ssrLoadModule(modulePath.startsWith('/') ? modulePath : `/${modulePath}`)
+  if (typeof module.main !== 'function') {
+    throw new Error(`${modulePath} does not export a main() function`)
+  }
+  process.exitCode = (await module.main(args)) ?? 0
+} catch (error) {
+  console.error(error)
+  process.exitCode = 1
+} finally {
+  await server.close()
+}
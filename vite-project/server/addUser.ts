@@ -0,0 +1,49 @@
+import { existsSync, writeFileSync } from 'node:fs'
+import { createInterface } from 'node:readline/promises'
+import { isRole, ROLES } from '../src/auth/roles.ts'
+import { hashPassword } from '../src/auth/tokens.ts'
+import { DEFAULT_USERS_FILE, readUsersFile } from './auth.ts'
+
+/**
+ * Adds a user to the auth server's users file (or replaces one with the same
+ * username). The password is read from stdin unless --password is given.
+ *
+ *   npm run auth:add-user -- --username alice --role script_editor
+ *   npm run auth:add-user -- --username bob --role viewer --file config/users.json
+ */
+
+function getArg(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name)
+  return index >= 0 ? args[index + 1] : undefined
+}
+
+async function readPassword(): Promise<string> {
+  const prompt = createInterface({ input: process.stdin, output: process.stdout })
+  try {
+    return await prompt.question('Password: ')
+  } finally {
+    prompt.close()
+  }
+}
+
+export async function main(args: string[]): Promise<number> {
+  const username = getArg(args, '--username')?.trim()
+  const role = getArg(args, '--role')
+  const file = getArg(args, '--file') ?? process.env.AUTH_USERS_FILE ?? DEFAULT_USERS_FILE
+  if (!username || !isRole(role)) {
+    console.error(`Usage: npm run auth:add-user -- --username <name> --role <${ROLES.join('|')}> [--password <password>] [--file <users.json>]`)
+    return 1
+  }
+
+  const password = getArg(args, '--password') ?? await readPassword()
+  if (password.length < 12) {
+    console.error('❌ Passwords must be at least 12 characters')
+    return 1
+  }
+
+  const users = existsSync(file) ? readUsersFile(file).filter(user => user.username !== username) : []
+  users.push({ username, role, passwordHash: await hashPassword(password) })
+  writeFileSync(file, `${JSON.stringify(users, null, 2)}\n`)
+  console.log(`✅ Saved ${username} (${role}) to ${file}`)
+  return 0
+}
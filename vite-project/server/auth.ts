@@ -0,0 +1,110 @@
+import { readFileSync } from 'node:fs'
+import { isRole } from '../src/auth/roles.ts'
+import type { Role } from '../src/auth/roles.ts'
+import { hashPassword, randomId, signSessionToken, verifyPassword, verifySessionToken } from '../src/auth/tokens.ts'
+import type { SessionClaims } from '../src/auth/tokens.ts'
+
+/**
+ * Users and session tokens for the proxy's /auth endpoints.
+ *
+ * Users live in a JSON file (AUTH_USERS_FILE, default users.json) written by
+ * `npm run auth:add-user`; tokens are signed with AUTH_TOKEN_SECRET and expire
+ * after AUTH_SESSION_TTL_MINUTES (480).
+ */
+
+export type StoredUser = {
+  username: string
+  role: Role
+  passwordHash: string
+}
+
+export type AuthConfig = {
+  users: StoredUser[]
+  tokenSecret: string
+  sessionTtlMs: number
+}
+
+// What /auth/login and /auth/session answer with
+export type SessionResponse = {
+  token: string
+  username: string
+  role: Role
+  expiresAt: number
+}
+
+export type AuthService = {
+  login: (username: string, password: string) => Promise<SessionResponse | null>
+  verify: (token: string) => Promise<SessionClaims | null>
+  logout: (token: string) => Promise<void>
+}
+
+export const DEFAULT_USERS_FILE = 'users.json'
+
+export function readUsersFile(path: string): StoredUser[] {
+  const users: unknown = JSON.parse(readFileSync(path, 'utf8'))
+  if (!Array.isArray(users)) throw new Error(`${path} must contain a JSON array of users`)
+  users.forEach((user, index) => {
+    if (typeof user?.username !== 'string' || typeof user?.passwordHash !== 'string' || !isRole(user?.role)) {
+      throw new Error(`${path}: user ${index} needs a username, passwordHash and role`)
+    }
+  })
+  return users as StoredUser[]
+}
+
+/**
+ * Reads the auth settings, or returns null (auth disabled) when
+ * AUTH_TOKEN_SECRET is not set.
+ */
+export function loadAuthConfig(env: NodeJS.ProcessEnv): AuthConfig | null {
+  if (!env.AUTH_TOKEN_SECRET) return null
+  if (env.AUTH_TOKEN_SECRET.length < 32) {
+    throw new Error('AUTH_TOKEN_SECRET must be at least 32 characters')
+  }
+  const ttlMinutes = parseInt(env.AUTH_SESSION_TTL_MINUTES ?? '', 10)
+  return {
+    users: readUsersFile(env.AUTH_USERS_FILE ?? DEFAULT_USERS_FILE),
+    tokenSecret: env.AUTH_TOKEN_SECRET,
+    sessionTtlMs: (Number.isFinite(ttlMinutes) && ttlMinutes > 0 ? ttlMinutes : 480) * 60_000
+  }
+}
+
+export function createAuthService(config: AuthConfig): AuthService {
+  // Logged-out token ids until they would have expired anyway
+  const revoked = new Map<string, number>()
+  // Compared against for unknown usernames so they take as long as wrong passwords
+  const dummyHash = hashPassword(randomId())
+
+  function pruneRevoked(now: number) {
+    revoked.forEach((expiresAt, jti) => {
+      if (expiresAt <= now) revoked.delete(jti)
+    })
+  }
+
+  async function verify(token: string): Promise<SessionClaims | null> {
+    const claims = await verifySessionToken(token, config.tokenSecret)
+    return claims && !revoked.has(claims.jti) ? claims : null
+  }
+
+  return {
+    async login(username, password) {
+      const user = config.users.find(candidate => candidate.username === username)
+      const valid = await verifyPassword(password, user?.passwordHash ?? await dummyHash)
+      if (!user || !valid) return null
+
+      const claims: SessionClaims = { sub: user.username, role: user.role, exp: Date.now() + config.sessionTtlMs, jti: randomId() }
+      return { token: await signSessionToken(claims, config.tokenSecret), username: claims.sub, role: claims.role, expiresAt: claims.exp }
+    },
+    verify,
+    async logout(token) {
+      const claims = await verify(token)
+      if (!claims) return
+      pruneRevoked(Date.now())
+      revoked.set(claims.jti, claims.exp)
+    }
+  }
+}
+
+export function getBearerToken(authorization: string | undefined): string | null {
+  const match = authorization?.match(/^Bearer\s+(\S+)$/i)
+  return match ? match[1] : null
+}
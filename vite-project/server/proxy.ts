@@ -0,0 +1,282 @@
+import { createHash } from 'node:crypto'
+import { createServer } from 'node:http'
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import { categorizeUserResponse } from '../src/classifier.ts'
+import { createLlmProvider, getLlmConfig } from '../src/llmProviders.ts'
+import { createAuthService, getBearerToken, loadAuthConfig } from './auth.ts'
+import type { AuthService } from './auth.ts'
+import { createRateLimiter } from './rateLimiter.ts'
+
+/**
+ * Classifier proxy: holds the LLM API key server-side so it is never embedded
+ * in the static build. The front end POSTs the customer's reply to /classify
+ * (VITE_CLASSIFIER_PROXY_URL) and gets the classification back.
+ *
+ *   npm run proxy                 # reads .env, listens on CLASSIFIER_PROXY_PORT (8787)
+ *   npm run proxy -- --port 9000
+ *
+ * The provider is configured with the same names as the browser settings minus
+ * the VITE_ prefix: LLM_PROVIDER, OPENAI_API_KEY, LLM_BASE_URL, LLM_MODEL,
+ * AZURE_OPENAI_*.
+ *
+ * It is also the auth server (see auth.ts): POST /auth/login, GET /auth/session
+ * and POST /auth/logout. With AUTH_TOKEN_SECRET set, /classify needs a session
+ * token too.
+ */
+
+type ProxyConfig = {
+  port: number
+  // Origins allowed to call the proxy from a browser ('*' allows any)
+  allowedOrigins: string[]
+  // Requests per client per minute
+  rateLimit: number
+  maxBodyBytes: number
+  // Use X-Forwarded-For as the client address (only behind a trusted load balancer)
+  trustForwardedFor: boolean
+}
+
+// Longest reply accepted: a 10-part concatenated SMS
+const MAX_TEXT_LENGTH = 1600
+const RATE_LIMIT_WINDOW_MS = 60_000
+// Sign-in attempts per client per minute
+const LOGIN_RATE_LIMIT = 10
+
+function readNumber(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value ?? '', 10)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback
+}
+
+function getProxyConfig(env: NodeJS.ProcessEnv): ProxyConfig {
+  return {
+    port: readNumber(env.CLASSIFIER_PROXY_PORT, 8787),
+    allowedOrigins: (env.CLASSIFIER_PROXY_ALLOWED_ORIGINS ?? 'http://localhost:3000').split(',').map(origin => origin.trim()).filter(Boolean),
+    rateLimit: readNumber(env.CLASSIFIER_PROXY_RATE_LIMIT, 30),
+    maxBodyBytes: readNumber(env.CLASSIFIER_PROXY_MAX_BODY_BYTES, 4096),
+    trustForwardedFor: env.CLASSIFIER_PROXY_TRUST_FORWARDED_FOR === 'true'
+  }
+}
+
+class HttpError extends Error {
+  status: number
+  constructor(status: number, message: string) {
+    super(message)
+    this.status = status
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers })
+  res.end(JSON.stringify(body))
+}
+
+// Reads the request body, rejecting it as soon as it grows past `maxBytes`
+async function readBody(req: IncomingMessage, maxBytes: number): Promise<string> {
+  if (parseInt(req.headers['content-length'] ?? '0', 10) > maxBytes) {
+    throw new HttpError(413, `Request body is larger than ${maxBytes} bytes`)
+  }
+  const chunks: Buffer[] = []
+  let size = 0
+  for await (const chunk of req as AsyncIterable<Buffer>) {
+    size += chunk.length
+    if (size > maxBytes) {
+      throw new HttpError(413, `Request body is larger than ${maxBytes} bytes`)
+    }
+    chunks.push(chunk)
+  }
+  return Buffer.concat(chunks).toString('utf8')
+}
+
+function parseJson(body: string): Record<string, unknown> {
+  try {
+    const data: unknown = JSON.parse(body)
+    if (data && typeof data === 'object') return data as Record<string, unknown>
+  } catch {
+    // Reported below
+  }
+  throw new HttpError(400, 'Body must be a JSON object')
+}
+
+function parseClassifyRequest(body: string): string {
+  const text = parseJson(body).text
+  if (typeof text !== 'string') {
+    throw new HttpError(400, 'Body must be {"text": string}')
+  }
+  if (text.length > MAX_TEXT_LENGTH) {
+    throw new HttpError(413, `text is longer than ${MAX_TEXT_LENGTH} characters`)
+  }
+  return text
+}
+
+// Short fingerprint that tells repeated attempts with the same input apart without revealing it
+function hashForLog(value: string): string {
+  return createHash('sha256').update(value).digest('hex').slice(0, 12)
+}
+
+function getClientAddress(req: IncomingMessage, config: ProxyConfig): string {
+  const forwardedFor = req.headers['x-forwarded-for']
+  if (config.trustForwardedFor && typeof forwardedFor === 'string') {
+    return forwardedFor.split(',')[0].trim()
+  }
+  return req.socket.remoteAddress ?? 'unknown'
+}
+
+function corsHeaders(req: IncomingMessage, config: ProxyConfig): Record<string, string> {
+  const origin = req.headers.origin
+  if (!origin) return {}
+  if (!config.allowedOrigins.includes('*') && !config.allowedOrigins.includes(origin)) return {}
+  return {
+    'Access-Control-Allow-Origin': origin,
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Vary': 'Origin'
+  }
+}
+
+async function handleAuthRequest(auth: AuthService | null, path: string, req: IncomingMessage, config: ProxyConfig): Promise<{ status: number, body?: unknown }> {
+  if (!auth) {
+    return { status: 503, body: { error: 'Sign-in is not configured (AUTH_TOKEN_SECRET)' } }
+  }
+  const token = getBearerToken(req.headers.authorization)
+
+  if (path === '/auth/login' && req.method === 'POST') {
+    const { username, password } = parseJson(await readBody(req, config.maxBodyBytes))
+    if (typeof username !== 'string' || typeof password !== 'string') {
+      throw new HttpError(400, 'Body must be {"username": string, "password": string}')
+    }
+    const session = await auth.login(username, password)
+    // The username is logged as a hash: it may be a mistyped password and may hold line breaks
+    if (!session) console.warn(`⚠️ Failed sign-in from ${getClientAddress(req, config)} for username ${hashForLog(username)}`)
+    return session ? { status: 200, body: session } : { status: 401, body: { error: 'Incorrect username or password' } }
+  }
+  if (path === '/auth/session' && req.method === 'GET') {
+    const claims = token ? await auth.verify(token) : null
+    return claims
+      ? { status: 200, body: { token, username: claims.sub, role: claims.role, expiresAt: claims.exp } }
+      : { status: 401, body: { error: 'Session expired or invalid' } }
+  }
+  if (path === '/auth/logout' && req.method === 'POST') {
+    if (token) await auth.logout(token)
+    return { status: 204 }
+  }
+  return { status: 404, body: { error: 'Not found' } }
+}
+
+export function createProxyServer(config: ProxyConfig, env: NodeJS.ProcessEnv) {
+  const provider = createLlmProvider(getLlmConfig(env, ''))
+  const authConfig = loadAuthConfig(env)
+  const auth = authConfig ? createAuthService(authConfig) : null
+  const rateLimiter = createRateLimiter(config.rateLimit, RATE_LIMIT_WINDOW_MS)
+  const loginRateLimiter = createRateLimiter(LOGIN_RATE_LIMIT, RATE_LIMIT_WINDOW_MS)
+  console.log(provider
+    ? `🤖 Classifier proxy using the ${provider.name} LLM provider`
+    : '⚠️ No LLM provider configured - the proxy will answer with pattern matching')
+  console.log(authConfig
+    ? `🔐 Sign-in enabled for ${authConfig.users.length} user(s); /classify needs a session`
+    : '⚠️ AUTH_TOKEN_SECRET not set - sign-in is disabled and /classify is open')
+
+  async function handleRequest(req: IncomingMessage, res: ServerResponse) {
+    const cors = corsHeaders(req, config)
+    const path = (req.url ?? '/').split('?')[0]
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, cors)
+      res.end()
+      return
+    }
+    if (req.method === 'GET' && path === '/health') {
+      sendJson(res, 200, { ok: true, provider: provider?.name ?? null }, cors)
+      return
+    }
+    if (path.startsWith('/auth/')) {
+      const limit = path === '/auth/login' ? loginRateLimiter.check(getClientAddress(req, config)) : null
+      if (limit && !limit.allowed) {
+        sendJson(res, 429, { error: 'Too many sign-in attempts' }, { ...cors, 'Retry-After': String(limit.retryAfterSeconds) })
+        return
+      }
+      try {
+        const { status, body } = await handleAuthRequest(auth, path, req, config)
+        if (body === undefined) {
+          res.writeHead(status, cors)
+          res.end()
+        } else {
+          sendJson(res, status, body, { ...cors, 'Cache-Control': 'no-store' })
+        }
+      } catch (error) {
+        if (!(error instanceof HttpError)) throw error
+        sendJson(res, error.status, { error: error.message }, { ...cors, 'Connection': 'close' })
+      }
+      return
+    }
+    if (path !== '/classify') {
+      sendJson(res, 404, { error: 'Not found' }, cors)
+      return
+    }
+    if (req.method !== 'POST') {
+      sendJson(res, 405, { error: 'Use POST' }, { ...cors, 'Allow': 'POST, OPTIONS' })
+      return
+    }
+
+    if (auth) {
+      const token = getBearerToken(req.headers.authorization)
+      if (!token || !await auth.verify(token)) {
+        sendJson(res, 401, { error: 'Sign in to classify replies' }, cors)
+        return
+      }
+    }
+
+    const limit = rateLimiter.check(getClientAddress(req, config))
+    const limitHeaders = { 'X-RateLimit-Limit': String(config.rateLimit), 'X-RateLimit-Remaining': String(limit.remaining) }
+    if (!limit.allowed) {
+      sendJson(res, 429, { error: 'Too many requests' }, { ...cors, ...limitHeaders, 'Retry-After': String(limit.retryAfterSeconds) })
+      return
+    }
+
+    try {
+      const text = parseClassifyRequest(await readBody(req, config.maxBodyBytes))
+      // The browser applies its own confidence threshold, so report the raw classification
+      const result = await categorizeUserResponse(text, { useLlm: true, provider, proxyUrl: null, confidenceThreshold: 0 })
+      sendJson(res, 200, result, { ...cors, ...limitHeaders })
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendJson(res, error.status, { error: error.message }, { ...cors, ...limitHeaders, 'Connection': 'close' })
+        return
+      }
+      console.error('❌ Classifier proxy error:', error)
+      sendJson(res, 500, { error: 'Classification failed' }, { ...cors, ...limitHeaders })
+    }
+  }
+
+  return createServer((req, res) => {
+    handleRequest(req, res).catch(error => {
+      console.error('❌ Classifier proxy error:', error)
+      if (!res.headersSent) sendJson(res, 500, { error: 'Classification failed' })
+    })
+  })
+}
+
+export async function main(args: string[]): Promise<number> {
+  try {
+    process.loadEnvFile('.env')
+  } catch {
+    // No .env file; use the process environment as is
+  }
+
+  const config = getProxyConfig(process.env)
+  const portIndex = args.indexOf('--port')
+  if (portIndex >= 0) {
+    config.port = readNumber(args[portIndex + 1], config.port)
+  }
+
+  const server = createProxyServer(config, process.env)
+  await new Promise<void>(resolve => server.listen(config.port, resolve))
+  console.log(`✅ Classifier proxy listening on http://localhost:${config.port} (POST /classify, ${config.rateLimit} requests/min per client)`)
+
+  // Serve until interrupted
+  await new Promise<void>(resolve => {
+    process.once('SIGINT', resolve)
+    process.once('SIGTERM', resolve)
+  })
+  server.closeAllConnections()
+  await new Promise<void>(resolve => server.close(() => resolve()))
+  return 0
+}
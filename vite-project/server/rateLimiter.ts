@@ -0,0 +1,46 @@
+/**
+ * Fixed-window rate limiter keyed by client (IP address). Each client may make
+ * `limit` requests per `windowMs`; counts reset when the window ends.
+ */
+
+export type RateLimitDecision = {
+  allowed: boolean
+  remaining: number
+  // Seconds until the client's window resets
+  retryAfterSeconds: number
+}
+
+export type RateLimiter = {
+  check: (key: string, now?: number) => RateLimitDecision
+}
+
+type Window = { startedAt: number, count: number }
+
+export function createRateLimiter(limit: number, windowMs: number): RateLimiter {
+  const windows = new Map<string, Window>()
+
+  // Forget clients whose window has ended so the map doesn't grow forever
+  function prune(now: number) {
+    windows.forEach((window, key) => {
+      if (now - window.startedAt >= windowMs) windows.delete(key)
+    })
+  }
+
+  return {
+    check(key, now = Date.now()) {
+      let window = windows.get(key)
+      if (!window || now - window.startedAt >= windowMs) {
+        if (windows.size > 10_000) prune(now)
+        window = { startedAt: now, count: 0 }
+        windows.set(key, window)
+      }
+
+      window.count++
+      return {
+        allowed: window.count <= limit,
+        remaining: Math.max(0, limit - window.count),
+        retryAfterSeconds: Math.ceil((window.startedAt + windowMs - now) / 1000)
+      }
+    }
+  }
+}
@@ -1,44 +1,51 @@
-type Message = {
-  id: string
-  text: string
-  sender: 'bot' | 'user'
-  timestamp: Date
-  options?: string[]
-}
-
-type ConversationState = 
-  | 'initial'
-  | 'calling'
-  | 'call_accepted'
-  | 'call_declined'
-  | 'asking_if_wants_call'
-  | 'waiting_for_response'
-  | 'scheduling_time'
-  | 'time_scheduled'
-  | 'asking_better_time'
-  | 'asking_after_cancel'
-  | 'followup_next_day'
-  | 'unknown'
-  | 'ended'
-  // Confirm visit workflow states
-  | 'confirm_visit_initial'
-  | 'confirm_visit_waiting'
-  | 'confirm_visit_confirmed'
-  | 'confirm_visit_reschedule_question'
-  | 'confirm_visit_reschedule_waiting'
-  | 'confirm_visit_reschedule_selecting_time'
-  | 'confirm_visit_cancelled'
-  | 'confirm_visit_dnc'
-
-let currentState: ConversationState = 'initial'
-let scheduledDateTime: Date | null = null
-const messages: Message[] = []
+import { auditLogToJsonLines, createAuditLog, createLocalAuditStorage, getAuditLogFileName, summarizeAuditEntry } from './auditLog.ts'
+import type { AuditRecord } from './auditLog.ts'
+import { ROLE_LABELS } from './auth/roles.ts'
+import { can, getSession, logout } from './auth/session.ts'
+import { categorizeUserResponse } from './classifier.ts'
+import type { ClassificationResult } from './classifier.ts'
+import { complianceReportToHtml, createComplianceChecklist, createLocalChecklistStorage, getComplianceReportFileName, RESULT_LABELS, runAutomatedChecks, STATUS_LABELS } from './complianceChecklist.ts'
+import type { AutomatedCheckResult, ChecklistItem, RequirementStatus } from './complianceChecklist.ts'
+import { CHANNEL_LABELS, createDncRegistry, createLocalDncStorage, createMockEnterpriseDncList, SOURCE_LABELS } from './dncRegistry.ts'
+import type { ContactChannel, DncEntry } from './dncRegistry.ts'
+import { checkConsent, getConsentedChannels } from './consent.ts'
+import { createConversationEngine } from './engine/conversationEngine.ts'
+import type { ConversationEvent } from './engine/conversationEngine.ts'
+import { simulatedLeads } from './leads.ts'
+import { getKeywordSettings, matchKeyword } from './messagingKeywords.ts'
+import { createConversationId, deleteConversation, listConversations, loadConversation, loadLastConversation, saveConversation } from './sessionStore.ts'
+import type { ConversationSnapshot } from './sessionStore.ts'
+import { isWithinBusinessHours } from './timeExtraction.ts'
+import type { RequestedTime } from './timeExtraction.ts'
+import { getTimeZoneAbbreviation, toWallClock, zonedTimeToDate } from './timeZones.ts'
+import { buildTranscript, escapeHtml, formatTranscript } from './transcriptExport.ts'
+import type { TranscriptFormat } from './transcriptExport.ts'
+import { lintTranscript, lintWorkflow } from './scriptLinter.ts'
+import type { LintIssue } from './scriptLinter.ts'
+import { parseReplayScript } from './transcriptImport.ts'
+import type { ReplayScript } from './transcriptImport.ts'
+import { getWorkflow, linkTarget, renderWorkflowDiagram } from './workflows/index.ts'
+import type { WorkflowDefinition } from './workflows/index.ts'
+
+// The conversation itself; this module renders it and passes the customer's input on
+const keywordSettings = getKeywordSettings()
+const auditLog = createAuditLog(createLocalAuditStorage())
+const complianceChecklist = createComplianceChecklist(createLocalChecklistStorage())
+const dncRegistry = createDncRegistry({ storage: createLocalDncStorage(), enterprise: createMockEnterpriseDncList() })
+const conversation = createConversationEngine({
+  classify: (text, useLlm) => categorizeUserResponse(text, { useLlm, authToken: getSession()?.token }),
+  keywords: keywordSettings,
+  dnc: dncRegistry
+})
 let activeTab: 'chat' | 'dialogue' = 'chat'
-let isAfter24HourFollowup: boolean = false
-let userHasStopped: boolean = false
-let selectedWorkflow: string = 'webform'
-let selectedVersion: string = 'A'
-let aiEnabled: boolean = false
+// Saved session the conversation is stored under
+let conversationId: string = createConversationId()
+let conversationCreatedAt: Date = new Date()
+// Which of the simulated leads (consent variations) new conversations run with
+let selectedLeadId = simulatedLeads[0].id
+let persistTimer: number | null = null
+// Transcript replay in progress, if any
+let replay: ReplayRun | null = null
 
 // Call control states
 let isMuted: boolean = false
@@ -50,330 +57,19 @@ let keypadInput: string = ''
 
 let callStartTime: Date | null = null
 let callDurationInterval: number | null = null
-
-// First message shown when any conversation starts on any view
-const ADT_INTRO_MESSAGE = "Hi, I'm ADT's Digital Assistant powered by AI! This chat may be monitored or recorded. Msg&DataRatesApply. STOP2end"
-
-// AI Categorization Types
-type ResponseCategory = 'Yes' | 'Call at a different time' | 'No' | '24 hours later (No response)' | 'Do not contact' | 'Unknown message'
-
-/**
- * Categorizes user text input using OpenAI API
- * Falls back to pattern matching if API call fails
- */
-async function categorizeUserResponse(userText: string): Promise<ResponseCategory> {
-  const text = userText.toLowerCase().trim()
-  
-  // If empty or very short, treat as no response
-  if (!text || text.length < 2) {
-    return '24 hours later (No response)'
-  }
-  
-  // Check if AI is enabled - if not, skip API call and use pattern matching
-  if (!aiEnabled) {
-    console.log('⚠️ AI is disabled - using pattern matching')
-    const fallbackCategory = categorizeUserResponsePatternMatching(userText)
-    console.log('🔄 Using pattern matching category:', fallbackCategory)
-    return fallbackCategory
-  }
-  
-  // Try OpenAI API first
-  const apiKey = import.meta.env.VITE_OPENAI_API_KEY
-  console.log('API Key loaded:', apiKey ? 'Yes (length: ' + apiKey.length + ')' : 'No')
-  
-  if (apiKey && apiKey !== 'YOUR_API_KEY') {
-    try {
-      console.log('🤖 Calling OpenAI API')
-      console.log('📝 User input received:', JSON.stringify(userText))
-      console.log('📝 User input length:', userText.length)
-      console.log('📝 User input trimmed:', JSON.stringify(userText.trim()))
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${apiKey}`
-        },
-        body: JSON.stringify({
-          model: 'gpt-3.5-turbo',
-          messages: [
-            {
-              role: 'system',
-              content: `You are a text classifier for customer service SMS responses. Your task is to carefully read the user's message and categorize it into ONE of these EXACT categories (copy the category name exactly as shown):
-
-"Yes" - Use for: affirmative responses, agreement, willingness to be contacted, expressions of interest, "yes", "yeah", "sure", "okay", "call me", "I'm interested", "go ahead", "that works", "sounds good", "please do", "definitely", "absolutely"
-
-"Call at a different time" - Use for: requests to reschedule, time-specific requests, mentions of specific times/days, "call me at 3pm", "call tomorrow", "call next week", "call Monday", "call in the morning", "call later", "different time", "another time", "schedule", "appointment", any time-related scheduling
-
-"No" - Use for: negative responses, declining interest, "no", "nope", "not interested", "not now", "maybe later", "can't", "cannot", "busy", "not available", "not a good time", "decline", "pass", "not at this time"
-
-"24 hours later (No response)" - Use ONLY when there is effectively NO reply: empty message, blank message, or a single character/symbol with no meaning (e.g. ".", "x", "k", "?"). This means "they did not respond" or "their reply was empty". Do NOT use this when the user typed a real message that you don't understand.
-
-"Do not contact" - Use for: opt-out requests, DNC requests, "do not contact", "don't contact", "stop calling", "stop texting", "remove me", "unsubscribe", "opt out", "do not call", "don't call", "never call", "no more calls", "take me off", "remove from list", "DNC"
-
-"Unknown message" - Use when the user typed something but you cannot determine their intent. Use this for: unclear messages, ambiguous messages, questions you don't understand, gibberish that looks like words, messages that don't fit Yes/No/Time/DNC, or when you are unsure what they want. WHEN IN DOUBT, use "Unknown message". If they typed more than a few characters and you don't understand, use "Unknown message" NOT "24 hours later (No response)".
-
-EXAMPLES:
-User: "yes" → Yes
-User: "sure, call me" → Yes
-User: "call me at 3pm" → Call at a different time
-User: "call tomorrow morning" → Call at a different time
-User: "no" → No
-User: "not interested" → No
-User: "stop calling me" → Do not contact
-User: "unsubscribe" → Do not contact
-User: "" or " " or "." or "k" → 24 hours later (No response)
-User: "what?" → Unknown message
-User: "idk" → Unknown message
-User: "huh?" → Unknown message
-User: "what do you want" → Unknown message
-User: "asdfgh" → Unknown message
-User: "maybe" → Unknown message
-User: "call me maybe" → Call at a different time
-
-CRITICAL INSTRUCTIONS:
-1. Read the user's message CAREFULLY word-by-word and understand what they are actually saying
-2. If you do NOT understand what the user wants, respond with "Unknown message". Do NOT use "24 hours later (No response)" for messages you don't understand.
-3. "24 hours later (No response)" is ONLY for empty/no reply. "Unknown message" is for when they typed something but you can't classify it.
-4. When in doubt between "24 hours later (No response)" and "Unknown message", choose "Unknown message"
-5. Respond with ONLY the exact category name, nothing else - no explanations, no quotes, just the category name
-6. If someone says "call me at 3pm", that is "Call at a different time", not "Yes"
-7. If someone says "yes" or agrees, that is "Yes", not "Call at a different time"`
-            },
-            {
-              role: 'user',
-              content: userText
-            }
-          ],
-          temperature: 0.1,
-          max_tokens: 30
-        })
-      })
-      
-      if (!response.ok) {
-        const errorText = await response.text()
-        let errorData
-        try {
-          errorData = JSON.parse(errorText)
-        } catch {
-          errorData = { error: { message: errorText } }
-        }
-        
-        console.error('OpenAI API error response:', response.status, errorData)
-        
-        // Handle specific error cases
-        if (response.status === 429) {
-          if (errorData.error?.code === 'insufficient_quota') {
-            console.warn('⚠️ OpenAI API quota exceeded - using pattern matching fallback')
-          } else {
-            console.warn('⚠️ OpenAI API rate limit exceeded - using pattern matching fallback')
-          }
-        }
-        
-        throw new Error(`OpenAI API error: ${response.status}`)
-      }
-      
-      const data = await response.json()
-      let rawCategory = data.choices[0]?.message?.content?.trim() || ''
-      console.log('✅ OpenAI API raw response:', JSON.stringify(rawCategory))
-      
-      // Normalize the response - remove quotes, extra whitespace, and normalize
-      let normalizedCategory = rawCategory
-        .replace(/^["']|["']$/g, '') // Remove surrounding quotes
-        .trim()
-      
-      // Try to match variations of category names
-      const categoryMap: Record<string, ResponseCategory> = {
-        'yes': 'Yes',
-        'call at a different time': 'Call at a different time',
-        'no': 'No',
-        '24 hours later (no response)': '24 hours later (No response)',
-        '24 hours later': '24 hours later (No response)',
-        'no response': '24 hours later (No response)',
-        'do not contact': 'Do not contact',
-        'do not call': 'Do not contact',
-        'dnc': 'Do not contact',
-        'unknown message': 'Unknown message',
-        'unknown': 'Unknown message'
-      }
-      
-      // Try exact match first
-      const validCategories: ResponseCategory[] = ['Yes', 'Call at a different time', 'No', '24 hours later (No response)', 'Do not contact', 'Unknown message']
-      let category: ResponseCategory | null = null
-      
-      if (validCategories.includes(normalizedCategory as ResponseCategory)) {
-        category = normalizedCategory as ResponseCategory
-      } else {
-        // Try case-insensitive match
-        const lowerCategory = normalizedCategory.toLowerCase()
-        if (categoryMap[lowerCategory]) {
-          category = categoryMap[lowerCategory]
-        } else {
-          // Try partial matching for longer category names
-          for (const [key, value] of Object.entries(categoryMap)) {
-            if (lowerCategory.includes(key) || key.includes(lowerCategory)) {
-              category = value
-              break
-            }
-          }
-        }
-      }
-      
-      if (category && validCategories.includes(category)) {
-        console.log('✅ Using AI category:', category, '(normalized from:', rawCategory, ')')
-        return category
-      }
-      
-      // If invalid category, fall through to pattern matching
-      console.warn('⚠️ OpenAI returned invalid category:', rawCategory, '(normalized:', normalizedCategory, ') - falling back to pattern matching')
-    } catch (error) {
-      console.error('❌ OpenAI API error:', error)
-      console.log('🔄 Falling back to pattern matching')
-      // Fall through to pattern matching fallback
-    }
-  } else {
-    console.log('⚠️ No API key found or using placeholder - using pattern matching')
-  }
-  
-  // Fallback to pattern matching if API fails or no key
-  const fallbackCategory = categorizeUserResponsePatternMatching(userText)
-  console.log('🔄 Using pattern matching category:', fallbackCategory)
-  return fallbackCategory
-}
-
-/**
- * Fallback pattern matching categorization
- */
-function categorizeUserResponsePatternMatching(userText: string): ResponseCategory {
-  const text = userText.toLowerCase().trim()
-  
-  // DNC (Do Not Contact) patterns
-  const dncPatterns = [
-    'do not contact', 'don\'t contact', 'stop calling', 'stop texting', 'remove me',
-    'unsubscribe', 'opt out', 'do not call', 'don\'t call', 'never call', 'no more calls',
-    'take me off', 'remove from list', 'dnc', 'do not call list'
-  ]
-  if (dncPatterns.some(pattern => text.includes(pattern))) {
-    return 'Do not contact'
-  }
-  
-  // "Call at a different time" patterns - look for time-related keywords
-  const timePatterns = [
-    'call at', 'call me at', 'call back at', 'different time', 'another time',
-    'later', 'tomorrow', 'next week', 'schedule', 'appointment', 'when can',
-    'what time', 'what day', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday',
-    'saturday', 'sunday', 'morning', 'afternoon', 'evening', 'am', 'pm',
-    /\d{1,2}:\d{2}/, // Time patterns like "3:30"
-    /\d{1,2}\s*(am|pm)/i, // "3 pm" or "3pm"
-    'between', 'after', 'before'
-  ]
-  if (timePatterns.some(pattern => {
-    if (pattern instanceof RegExp) {
-      return pattern.test(text)
-    }
-    return text.includes(pattern)
-  })) {
-    return 'Call at a different time'
-  }
-  
-  // "Yes" patterns - affirmative responses
-  const yesPatterns = [
-    'yes', 'yeah', 'yep', 'sure', 'ok', 'okay', 'sounds good', 'that works',
-    'go ahead', 'please do', 'call me', 'call back', 'reach out', 'contact me',
-    'i\'m interested', 'interested', 'definitely', 'absolutely', 'of course'
-  ]
-  if (yesPatterns.some(pattern => text.includes(pattern))) {
-    return 'Yes'
-  }
-  
-  // "No" patterns - negative responses
-  const noPatterns = [
-    'no', 'nope', 'not interested', 'not now', 'maybe later', 'not right now',
-    'can\'t', 'cannot', 'busy', 'not available', 'not a good time', 'decline',
-    'pass', 'not at this time'
-  ]
-  if (noPatterns.some(pattern => text.includes(pattern))) {
-    return 'No'
-  }
-  
-  // If no clear pattern matches, return Unknown
-  return 'Unknown message'
-}
-
-/**
- * Detects if the user is asking to switch to the Confirm Visit workflow
- * (e.g. "I actually want to confirm a visit", "confirm my appointment")
- */
-function isConfirmVisitIntent(userText: string): boolean {
-  const text = userText.toLowerCase().trim()
-  const confirmVisitPatterns = [
-    'confirm a visit',
-    'confirm the visit',
-    'confirm my visit',
-    'confirm visit',
-    'confirm a appointment',
-    'confirm the appointment',
-    'confirm my appointment',
-    'confirm appointment',
-    'confirm my consultation',
-    'confirm the consultation',
-    'confirm consultation',
-    'want to confirm a visit',
-    'want to confirm visit',
-    'actually want to confirm',
-    'actually want to confirm a visit',
-    'actually want to confirm my visit',
-    'i want to confirm',
-    'id like to confirm',
-    'i\'d like to confirm',
-    'appointment confirmation',
-    'confirm my scheduled'
-  ]
-  return confirmVisitPatterns.some(pattern => text.includes(pattern))
-}
-
-/**
- * Swaps to Confirm Visit workflow on the fly without clearing conversation.
- * Updates workflow UI and sends the confirm-visit initial message.
- */
-function switchToConfirmVisitWorkflow() {
-  selectedWorkflow = 'confirm visit'
-  document.querySelectorAll('.workflow-btn').forEach(btn => {
-    const btnWorkflow = (btn as HTMLElement).dataset.workflow
-    if (btnWorkflow === selectedWorkflow) {
-      btn.classList.add('active')
-      btn.classList.remove('red-active')
-    } else {
-      btn.classList.remove('active', 'red-active')
-    }
-  })
-  selectedVersion = 'A'
-  updateVersionButtons()
-  updateDataflow()
-
-  currentState = 'confirm_visit_initial'
-  const fName = 'John'
-  const appointmentDate = new Date()
-  appointmentDate.setDate(appointmentDate.getDate() + 1)
-  const dateTime = appointmentDate.toLocaleString('en-US', {
-    weekday: 'long',
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric',
-    hour: 'numeric',
-    minute: '2-digit',
-    hour12: true
-  })
-  const address = '123 Main Street, Anytown, ST 12345'
-  const initialMessage = `Hey ${fName}, you have a consultation scheduled for ${dateTime} at ${address}. A certified technician will be arriving. Will you be available for this appointment?`
-
-  setTimeout(() => {
-    const options = ['Yes', 'No', 'Cancel Appointment', 'DNC', 'Unknown message']
-    addMessage('bot', initialMessage, options)
-    currentState = 'confirm_visit_waiting'
-    updateDataflow()
-  }, 500)
-}
-
+// Progress bar of the "24 hours later" overlay
+let timePassingInterval: number | null = null
+
+const HOUR_MS = 60 * 60 * 1000
+// How far "Skip ahead" can move the conversation's clock
+const PASS_TIME_OPTIONS = [
+  { label: '1 hour', ms: HOUR_MS },
+  { label: '4 hours', ms: 4 * HOUR_MS },
+  { label: '1 day', ms: 24 * HOUR_MS },
+  { label: '3 days', ms: 3 * 24 * HOUR_MS },
+  { label: '1 week', ms: 7 * 24 * HOUR_MS },
+  { label: '2 weeks', ms: 14 * 24 * HOUR_MS }
+]
 
 export function initApp() {
   const app = document.querySelector<HTMLDivElement>('#app')!
@@ -393,19 +89,37 @@ export function initApp() {
   // Set initial visibility of phone and dataflow (hidden for Legal Requirements)
   updatePhoneAndDataflowVisibility()
   
-  // Start the conversation
-  setTimeout(() => {
-    startConversation()
-  }, 500)
-  
   // Set up event listeners
   setupEventListeners()
+  
+  // Render the conversation as it changes
+  conversation.subscribe(handleConversationEvent)
+  
+  // Resume the last saved conversation, or start a new one
+  resumeLastConversation()
+}
+
+async function resumeLastConversation() {
+  let snapshot: ConversationSnapshot | undefined
+  try {
+    snapshot = await loadLastConversation(getConversationOwner())
+  } catch (error) {
+    console.error('❌ Could not load the last conversation:', error)
+  }
+  if (snapshot) {
+    restoreConversation(snapshot)
+  } else {
+    setTimeout(() => {
+      resetConversation()
+    }, 500)
+  }
 }
 
 function updatePhoneTime() {
   const timeElement = document.getElementById('phoneTime')
   if (timeElement) {
-    const now = new Date()
+    // The customer's phone: the conversation's simulated time in the lead's time zone
+    const now = toWallClock(conversation.now(), getLeadTimeZone())
     const hours = now.getHours()
     const minutes = now.getMinutes()
     const hours12 = hours === 0 ? 12 : (hours > 12 ? hours - 12 : hours)
@@ -415,7 +129,31 @@ function updatePhoneTime() {
   }
 }
 
+function getLeadTimeZone(): string {
+  return conversation.getContext().lead.timeZone
+}
+
+// Time of day on the customer's phone
+function formatPhoneTime(date: Date): string {
+  return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', timeZone: getLeadTimeZone() })
+}
+
+function getAccountHTML(): string {
+  const session = getSession()
+  if (!session) return ''
+  return `
+      <div class="account-section">
+        <h3 class="section-title">Signed in</h3>
+        <div class="account-info">
+          <span class="account-name">${escapeHtml(session.username)}</span>
+          <span class="account-role">${ROLE_LABELS[session.role]}</span>
+          <button class="account-logout-btn" id="logoutBtn">Log out</button>
+        </div>
+      </div>`
+}
+
 function getAppHTML(): string {
+  const { workflow: selectedWorkflow, version: selectedVersion, aiEnabled } = conversation.getState()
   return `
     <div class="workflow-versions-container">
       <div class="workflows-section">
@@ -430,13 +168,13 @@ function getAppHTML(): string {
           <button class="workflow-btn ${selectedWorkflow === 'product question' ? 'active' : ''}" data-workflow="product question">
             Product Question
           </button>
-          <button class="workflow-btn ${selectedWorkflow === 'offer' ? 'active red-active' : ''}" data-workflow="offer">
+          <button class="workflow-btn ${selectedWorkflow === 'offer' ? 'active' : ''}" data-workflow="offer">
             Send Offer
           </button>
-          <button class="workflow-btn ${selectedWorkflow === 'schedule consultation' ? 'active red-active' : ''}" data-workflow="schedule consultation">
+          <button class="workflow-btn ${selectedWorkflow === 'schedule consultation' ? 'active' : ''}" data-workflow="schedule consultation">
             Schedule Consultation
           </button>
-          <button class="workflow-btn ${selectedWorkflow === 'customer satisfaction check-in' ? 'active red-active' : ''}" data-workflow="customer satisfaction check-in">
+          <button class="workflow-btn ${selectedWorkflow === 'customer satisfaction check-in' ? 'active' : ''}" data-workflow="customer satisfaction check-in">
             Customer Satisfaction Check-in
           </button>
           <button class="workflow-btn ${selectedWorkflow === 'legal requirements' ? 'active' : ''}" data-workflow="legal requirements">
@@ -464,6 +202,7 @@ function getAppHTML(): string {
           ${aiEnabled ? '✓' : '✕'}
         </button>
       </div>
+      ${getAccountHTML()}
     </div>
     <div class="legal-requirements-box" id="legalRequirementsBox" style="display: none;">
       <div class="legal-requirements-header">
@@ -474,22 +213,11 @@ function getAppHTML(): string {
         </div>
       </div>
       <div class="legal-requirements-tab-content active" id="legalRequirementsListContent">
-      <ul class="legal-requirements-list">
-        <li><strong>TCPA consent on webforms:</strong> Ensure each lead/webform includes explicit consent to be called and texted (covers prerecorded calls, autodialers, and SMS). Verify wording and that consent is captured.</li>
-        <li><strong>Verify provenance of consent before sending SMS:</strong> Only send texts when the originating webform/lead contains the required consent; check consent status before each outbound texting campaign if not a one-time interaction.</li>
-        <li><strong>AI disclosure:</strong> Clearly disclose that the customer is interacting with an AI/virtual agent in both voice and SMS channels (use the same language as ADT's digital assistant disclosure).</li>
-        <li><strong>Message &amp; data rates notice:</strong> Include "message and data rates may apply" in the initial SMS message that starts a two-way conversation.</li>
-        <li><strong>STOP/opt-out instructions:</strong> Include clear opt-out instructions (e.g., "Reply STOP to stop") in the initial SMS and ensure STOP requests are honored immediately.</li>
-        <li><strong>DNC / DNT scrubbing and integration:</strong> Scrub all outbound calls and texts against the enterprise Do-Not-Call and Do-Not-Text lists; integrate Sierra with ADT's central DNC/DNT systems so updates (including ADNT/ADNC requests) are honored in real time.</li>
-        <li><strong>Handle non-standard responses:</strong> Implement and sync a list of non-standard/trigger responses (e.g., "do not call/text") so those inputs on inbound messages are recognized and applied to DNC/DNT lists.</li>
-        <li><strong>Recording retention &amp; legal compliance:</strong> Ensure recorded voice retention aligns with legal/retention schedules and that retention settings are configured per policy.</li>
-        <li><strong>Script and disclosure review:</strong> Obtain legal review/sign-off (Maria/Jamie) on outbound SMS and voice scripts, including required disclosures and AI wording, before production.</li>
-        <li><strong>Short code vs long code compliance:</strong> Determine messaging channel (short code/long code); if using short code, allow time for carrier application/approval (often 3–4 months) and ensure compliance with carrier rules.</li>
-        <li><strong>Frequency/recurrence rules for disclosures:</strong> Include required disclosures on the initial SMS that begins a conversation; re-send disclosures (message/data rates and STOP) when a new conversation is initiated after a period or when re-initiating contact (e.g., schedule-based follow-ups).</li>
-        <li><strong>Diligence for nurture campaigns:</strong> For ongoing or nurture SMS campaigns, ensure full integration with consent tracking and DNC/DNT systems to avoid re-contacting numbers that later opt out or were added to DNC.</li>
-        <li><strong>Real-time checks on reactive sends:</strong> When Sierra/reactive systems initiate SMS in response to customer prompts (e.g., "text me"), perform a real-time DNC/DNT and consent check before sending.</li>
-        <li><strong>Logging and audit trails:</strong> Maintain logs of consent, opt-outs, message content, timestamps, and system checks to support compliance audits and defend against TCPA claims.</li>
-      </ul>
+      <div class="compliance-toolbar">
+        <span class="compliance-summary" id="complianceSummary"></span>
+        <button type="button" class="legal-requirements-tab-btn" id="exportComplianceBtn">Export report</button>
+      </div>
+      <ul class="legal-requirements-list" id="complianceChecklist"></ul>
       </div>
       <div class="legal-requirements-tab-content" id="legalRequirementsWebformContent">
         <div class="legal-requirements-webform-image-wrap">
@@ -520,6 +248,12 @@ function getAppHTML(): string {
             <div class="contact-name">Customer Service</div>
             <div class="contact-status">Online</div>
           </div>
+          <button class="sessions-btn" id="auditBtn" title="Audit log">📋</button>
+          <button class="sessions-btn" id="dncBtn" title="Do-Not-Contact list">⛔</button>
+          <button class="sessions-btn" id="passTimeBtn" title="Skip ahead in time">⏩</button>
+          <button class="sessions-btn" id="replayBtn" title="Replay a transcript">▶</button>
+          <button class="sessions-btn" id="exportBtn" title="Export transcript">⤓</button>
+          <button class="sessions-btn" id="sessionsBtn" title="Saved sessions">🗂</button>
         </div>
       </div>
       
@@ -529,6 +263,9 @@ function getAppHTML(): string {
           <!-- Messages will be inserted here -->
         </div>
         
+        <div class="replay-bar" id="replayBar" style="display: none;"></div>
+        <div class="suppression-bar" id="suppressionBar" style="display: none;"></div>
+        
         <div class="input-area" id="inputArea">
           <!-- Input area will be dynamically updated -->
         </div>
@@ -718,22 +455,111 @@ function getAppHTML(): string {
       <!-- Time Passing Animation Overlay -->
       <div class="time-passing-overlay" id="timePassingOverlay" style="display: none;">
         <div class="time-passing-content">
-          <div class="time-passing-icon">⏰</div>
-          <div class="time-passing-title">24 Hours Later...</div>
+          <div class="time-passing-icon" id="timePassingIcon">⏰</div>
+          <div class="time-passing-title" id="timePassingTitle">24 Hours Later...</div>
           <div class="time-passing-progress">
             <div class="time-passing-bar" id="timePassingBar"></div>
           </div>
         </div>
       </div>
       
+      <!-- Saved Sessions Modal -->
+      <div class="modal-overlay" id="sessionsModal" style="display: none;">
+        <div class="modal-content sessions-modal-content">
+          <h3>Saved Sessions</h3>
+          <div class="sessions-list" id="sessionsList"></div>
+          <div class="modal-buttons">
+            <button class="btn-secondary" id="closeSessionsBtn">Close</button>
+            <button class="btn-primary" id="newSessionBtn">New Session</button>
+          </div>
+        </div>
+      </div>
+      
+      <!-- Do-Not-Contact Registry Modal -->
+      <div class="modal-overlay" id="dncModal" style="display: none;">
+        <div class="modal-content sessions-modal-content">
+          <h3>Do-Not-Contact List</h3>
+          <div class="dnc-lead-status" id="dncLeadStatus"></div>
+          <div class="sessions-list" id="dncList"></div>
+          <div class="modal-buttons">
+            <button class="btn-secondary" id="closeDncBtn">Close</button>
+          </div>
+        </div>
+      </div>
+      
+      <!-- Compliance Audit Log Modal -->
+      <div class="modal-overlay" id="auditModal" style="display: none;">
+        <div class="modal-content sessions-modal-content audit-modal-content">
+          <h3>Audit Log</h3>
+          <select class="consent-lead-select" id="auditScopeSelect">
+            <option value="conversation">This conversation</option>
+            <option value="all">All conversations</option>
+          </select>
+          <div class="audit-unsaved-notice" id="auditUnsavedNotice" style="display: none;"></div>
+          <div class="sessions-list audit-list" id="auditList"></div>
+          <div class="modal-buttons">
+            <button class="btn-secondary" id="closeAuditBtn">Close</button>
+            <button class="btn-primary" id="exportAuditBtn">Export JSON Lines</button>
+          </div>
+        </div>
+      </div>
+      
+      <!-- Transcript Export Modal -->
+      <div class="modal-overlay" id="exportModal" style="display: none;">
+        <div class="modal-content">
+          <h3>Export Transcript</h3>
+          <div class="export-options">
+            <button class="export-option-btn" data-export-format="json">JSON</button>
+            <button class="export-option-btn" data-export-format="csv">CSV</button>
+            <button class="export-option-btn" data-export-format="html">HTML</button>
+            <button class="export-option-btn" id="printTranscriptBtn">Print</button>
+          </div>
+          <div class="modal-buttons">
+            <button class="btn-secondary" id="closeExportBtn">Close</button>
+          </div>
+        </div>
+      </div>
+      
+      <!-- Skip Ahead Modal -->
+      <div class="modal-overlay" id="passTimeModal" style="display: none;">
+        <div class="modal-content">
+          <h3>Skip Ahead</h3>
+          <div class="export-options">
+            ${PASS_TIME_OPTIONS.map(({ label, ms }) => `<button class="export-option-btn" data-pass-time="${ms}">${label}</button>`).join('')}
+          </div>
+          <div class="modal-buttons">
+            <button class="btn-secondary" id="closePassTimeBtn">Close</button>
+          </div>
+        </div>
+      </div>
+      
+      <!-- Transcript Replay Modal -->
+      <div class="modal-overlay" id="replayModal" style="display: none;">
+        <div class="modal-content replay-modal-content">
+          <h3>Replay a Transcript</h3>
+          <input type="file" id="replayFileInput" class="replay-file-input" accept=".json,.txt,application/json,text/plain">
+          <textarea id="replayScriptInput" class="replay-script-input" rows="8" placeholder="Paste an exported JSON transcript, or type one customer reply per line"></textarea>
+          <label class="replay-speed-label">
+            Speed
+            <select id="replaySpeedSelect" class="replay-speed-select">${getReplaySpeedOptions(1)}</select>
+          </label>
+          <p class="replay-error" id="replayError" aria-live="polite"></p>
+          <div class="modal-buttons">
+            <button class="btn-secondary" id="cancelReplayBtn">Cancel</button>
+            <button class="btn-primary" id="startReplayBtn">Start Replay</button>
+          </div>
+        </div>
+      </div>
+      
       <!-- Date/Time Picker Modal -->
       <div class="modal-overlay" id="dateTimeModal" style="display: none;">
         <div class="modal-content">
           <h3>Select Date & Time</h3>
+          <p class="picker-time-zone" id="pickerTimeZone"></p>
           <div class="date-time-picker">
             <div class="picker-group">
               <label>Date:</label>
-              <input type="date" id="datePicker" min="${new Date().toISOString().split('T')[0]}">
+              <input type="date" id="datePicker" min="${formatDateInputValue(toWallClock(conversation.now(), getLeadTimeZone()))}">
             </div>
             <div class="picker-group">
               <label>Time:</label>
@@ -801,9 +627,58 @@ function setupEventListeners() {
     })
   })
   
+  document.getElementById('exportComplianceBtn')?.addEventListener('click', exportComplianceReport)
+  
+  document.getElementById('logoutBtn')?.addEventListener('click', async () => {
+    await logout()
+    window.location.reload()
+  })
+
   // Back button - reset and restart conversation
   document.querySelector('.back-btn')?.addEventListener('click', resetConversation)
   
+  // Transcript export
+  document.getElementById('exportBtn')?.addEventListener('click', showExportModal)
+  document.getElementById('closeExportBtn')?.addEventListener('click', hideExportModal)
+  document.querySelectorAll<HTMLElement>('.export-option-btn[data-export-format]').forEach(btn => {
+    btn.addEventListener('click', () => exportTranscript(btn.dataset.exportFormat as TranscriptFormat))
+  })
+  document.getElementById('printTranscriptBtn')?.addEventListener('click', printTranscript)
+  
+  // Compliance audit log
+  document.getElementById('auditBtn')?.addEventListener('click', showAuditModal)
+  document.getElementById('closeAuditBtn')?.addEventListener('click', hideAuditModal)
+  document.getElementById('auditScopeSelect')?.addEventListener('change', renderAuditList)
+  document.getElementById('exportAuditBtn')?.addEventListener('click', exportAuditLog)
+  
+  // Do-Not-Contact registry
+  document.getElementById('dncBtn')?.addEventListener('click', showDncModal)
+  document.getElementById('closeDncBtn')?.addEventListener('click', hideDncModal)
+  
+  // Skipping ahead in the conversation's simulated time
+  document.getElementById('passTimeBtn')?.addEventListener('click', showPassTimeModal)
+  document.getElementById('closePassTimeBtn')?.addEventListener('click', hidePassTimeModal)
+  document.querySelectorAll<HTMLElement>('.export-option-btn[data-pass-time]').forEach(btn => {
+    btn.addEventListener('click', () => {
+      hidePassTimeModal()
+      conversation.passTime(Number(btn.dataset.passTime))
+    })
+  })
+  
+  // Transcript replay
+  document.getElementById('replayBtn')?.addEventListener('click', showReplayModal)
+  document.getElementById('cancelReplayBtn')?.addEventListener('click', hideReplayModal)
+  document.getElementById('startReplayBtn')?.addEventListener('click', handleReplayStart)
+  document.getElementById('replayFileInput')?.addEventListener('change', handleReplayFileSelect)
+  
+  // Saved sessions
+  document.getElementById('sessionsBtn')?.addEventListener('click', showSessionsModal)
+  document.getElementById('closeSessionsBtn')?.addEventListener('click', hideSessionsModal)
+  document.getElementById('newSessionBtn')?.addEventListener('click', () => {
+    hideSessionsModal()
+    resetConversation()
+  })
+  
   // Workflow buttons
   document.querySelectorAll('.workflow-btn').forEach(btn => {
     btn.addEventListener('click', (e) => {
@@ -869,101 +744,239 @@ function handleHourChange() {
   }
 }
 
+// Start a new conversation with the selected workflow, version and AI setting
 function resetConversation() {
-  // Clear all messages
-  messages.length = 0
-  
-  // Reset state
-  currentState = 'initial'
-  userHasStopped = false
-  updateDataflow()
-  scheduledDateTime = null
-  isAfter24HourFollowup = false
-  
-  // Hide all overlays and modals
-  hideCallingNotification()
-  hideCallScreen()
-  const modal = document.getElementById('dateTimeModal')
-  if (modal) {
-    modal.style.display = 'none'
+  // Every new run is saved as a new session
+  conversationId = createConversationId()
+  conversationCreatedAt = new Date()
+  conversation.start()
+}
+
+// Keep the phone, the dataflow diagram and the saved session in step with the conversation
+function handleConversationEvent(event: ConversationEvent) {
+  switch (event.type) {
+    case 'reset':
+      // Hide all overlays and modals of the previous conversation
+      hideCallingNotification()
+      hideCallScreen()
+      hideTimePassingAnimation()
+      hideKeypad()
+      hideContacts()
+      hideDateTimeModal()
+      clearInputArea()
+      hideSuppressionNotice()
+      if (replay) {
+        stopReplay()
+      }
+      // A restored conversation brings its own workflow, version and AI setting
+      initializeWorkflowButtons()
+      updateVersionButtons()
+      updateAIToggleButton()
+      updatePhoneAndDataflowVisibility()
+      updateDataflow()
+      break
+    case 'messages':
+      renderMessages()
+      if (activeTab === 'dialogue') {
+        renderDialogueEditor()
+      }
+      scrollMessagesToBottom()
+      persistConversation()
+      break
+    case 'step':
+      updateDataflow()
+      persistConversation()
+      break
+    case 'action':
+      if (event.action === 'call') {
+        showCallingNotification()
+      } else if (event.action === 'call_screen') {
+        showCallScreen()
+      } else {
+        openDateTimeModalAndSetup(event.requested)
+      }
+      break
+    case 'waiting':
+      showTimePassingAnimation(event.durationMs, event.skippedMs, event.reason)
+      break
+    case 'classifying':
+      setCategoryHint('🤖 AI is categorizing your message...')
+      break
+    case 'classified':
+      showClassificationHint(event.result, event.recorded)
+      persistConversation()
+      break
+    case 'workflow':
+      initializeWorkflowButtons()
+      updateVersionButtons()
+      updateDataflow()
+      break
+    case 'suppressed':
+      showSuppressionNotice(event.channel, event.entry, event.reason)
+      break
+    case 'audit':
+      recordAudit(event.record)
+      break
   }
-  
-  // Clear input area
-  clearInputArea()
-  
-  // Clear messages container
-  const container = document.getElementById('messagesContainer')
-  if (container) {
-    container.innerHTML = ''
+}
+
+function recordAudit(record: AuditRecord) {
+  const entry = auditLog.append(record, { conversationId, workflow: conversation.getState().workflow, actor: getConversationOwner() })
+  if (!entry.saved) {
+    updateAuditButton()
+  }
+  if (document.getElementById('auditModal')?.style.display === 'flex') {
+    renderAuditList()
   }
-  
-  // Restart conversation
-  startConversation()
 }
 
-function startConversation() {
-  // Clear previous messages
-  messages.length = 0
-  const container = document.getElementById('messagesContainer')
-  if (container) {
-    container.innerHTML = ''
+// Flags entries the browser refused to store, so they are exported before a reload loses them
+function updateAuditButton() {
+  const button = document.getElementById('auditBtn')
+  if (!button) return
+  const unsaved = auditLog.list().filter(entry => !entry.saved).length
+  button.classList.toggle('unsaved', unsaved > 0)
+  button.title = unsaved ? `Audit log: ${unsaved} ${unsaved === 1 ? 'entry' : 'entries'} not saved` : 'Audit log'
+}
+
+function getAuditEntries() {
+  const scope = (document.getElementById('auditScopeSelect') as HTMLSelectElement | null)?.value
+  return auditLog.list(scope === 'all' ? undefined : conversationId)
+}
+
+function showAuditModal() {
+  const modal = document.getElementById('auditModal')
+  const exportBtn = document.getElementById('exportAuditBtn') as HTMLButtonElement | null
+  if (!modal) return
+  modal.style.display = 'flex'
+  if (exportBtn) {
+    const allowed = can('review_compliance')
+    exportBtn.disabled = !allowed
+    exportBtn.title = allowed ? 'Download the entries shown as JSON Lines' : 'Only compliance reviewers can export the audit log'
   }
-  
-  // Reset state
-  currentState = 'initial'
-  userHasStopped = false
-  scheduledDateTime = null
-  isAfter24HourFollowup = false
-  
-  // Start conversation based on selected workflow
-  if (selectedWorkflow === 'product question') {
-    startProductQuestionConversation()
-  } else if (selectedWorkflow === 'confirm visit') {
-    startConfirmVisitConversation()
-  } else {
-    // Default webform workflow (version B omits the "We received your interest form!" message)
-    if (selectedVersion === 'A') {
-      addMessage('bot', 'We received your interest form! We are calling now.')
-    }
-    setTimeout(() => {
-      showCallingNotification()
-    }, 1500)
+  renderAuditList()
+}
+
+function hideAuditModal() {
+  const modal = document.getElementById('auditModal')
+  if (modal) {
+    modal.style.display = 'none'
   }
 }
 
-function addMessage(sender: 'bot' | 'user', text: string, options?: string[]) {
-  // If user typed STOP, do not send another message no matter what
-  if (sender === 'bot' && userHasStopped) return
-
-  // When the first message is sent on any view, show the ADT intro first
-  if (sender === 'bot' && messages.length === 0) {
-    const introMessage: Message = {
-      id: (Date.now() - 1).toString(),
-      text: ADT_INTRO_MESSAGE,
-      sender: 'bot',
-      timestamp: new Date(),
-      options: undefined
-    }
-    messages.push(introMessage)
+// Newest first; texts are set as text content since they include what customers typed
+function renderAuditList() {
+  const list = document.getElementById('auditList')
+  if (!list) return
+  const entries = getAuditEntries()
+  const unsaved = auditLog.list().filter(entry => !entry.saved).length
+  const notice = document.getElementById('auditUnsavedNotice')
+  if (notice) {
+    notice.style.display = unsaved ? 'block' : 'none'
+    notice.textContent = `⚠️ The browser's storage is full: ${unsaved} ${unsaved === 1 ? 'entry was' : 'entries were'} not saved and will be lost on reload. Export the log to keep them.`
+  }
+  list.innerHTML = entries.length ? '' : '<div class="sessions-empty">Nothing has been recorded yet.</div>'
+  entries.slice().reverse().forEach(entry => {
+    const item = document.createElement('div')
+    item.className = entry.saved ? 'audit-item' : 'audit-item unsaved'
+    const meta = document.createElement('div')
+    meta.className = 'sessions-item-meta'
+    meta.textContent = `#${entry.seq} · ${entry.at.toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', second: '2-digit' })} · ${entry.type} · ${entry.actor}${entry.saved ? '' : ' · not saved'}`
+    const summary = document.createElement('div')
+    summary.className = 'audit-item-summary'
+    summary.textContent = summarizeAuditEntry(entry)
+    item.append(meta, summary)
+    list.appendChild(item)
+  })
+}
+
+function exportAuditLog() {
+  if (!can('review_compliance')) return
+  downloadFile(getAuditLogFileName(), 'application/x-ndjson', auditLogToJsonLines(getAuditEntries()))
+}
+
+function describeDncEntry(entry: DncEntry): string {
+  const added = entry.addedAt.toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+  return `${entry.channels.map(channel => CHANNEL_LABELS[channel]).join(' + ')} · ${SOURCE_LABELS[entry.source]} · ${added}`
+}
+
+// Blocked sends stay listed under the messages until the conversation is replaced
+function showSuppressionNotice(channel: ContactChannel, entry: DncEntry | null, reason: string) {
+  const bar = document.getElementById('suppressionBar')
+  if (!bar) return
+  const notice = document.createElement('div')
+  notice.className = 'suppression-notice'
+  notice.textContent = entry
+    ? `⛔ ${channel === 'sms' ? 'Text' : 'Call'} suppressed: ${entry.phone} is on the ${CHANNEL_LABELS[channel]} list (${SOURCE_LABELS[entry.source]})`
+    : `⛔ ${channel === 'sms' ? 'Text' : 'Call'} suppressed: no consent to ${channel === 'sms' ? 'texts' : 'calls'}`
+  notice.title = reason
+  bar.appendChild(notice)
+  bar.style.display = 'block'
+  bar.scrollTop = bar.scrollHeight
+}
+
+function hideSuppressionNotice() {
+  const bar = document.getElementById('suppressionBar')
+  if (bar) {
+    bar.style.display = 'none'
+    bar.innerHTML = ''
   }
+}
 
-  const message: Message = {
-    id: Date.now().toString(),
-    text,
-    sender,
-    timestamp: new Date(),
-    options
+function showDncModal() {
+  const modal = document.getElementById('dncModal')
+  const list = document.getElementById('dncList')
+  const status = document.getElementById('dncLeadStatus')
+  if (!modal || !list || !status) return
+  modal.style.display = 'flex'
+
+  const { phone } = conversation.getContext().lead
+  const blocked = (['sms', 'voice'] as const)
+    .map(channel => dncRegistry.check(phone, channel) && CHANNEL_LABELS[channel])
+    .filter(Boolean)
+  status.textContent = blocked.length
+    ? `This lead (${phone}) is on the ${blocked.join(' and ')} list.`
+    : `This lead (${phone}) can be texted and called.`
+
+  const entries = dncRegistry.list()
+  if (entries.length === 0) {
+    list.innerHTML = '<div class="sessions-empty">No numbers have been added here. Numbers on the enterprise list are checked too.</div>'
+    return
   }
-  
-  messages.push(message)
-  renderMessages()
-  
-  // Update dialogue editor if it's active
-  if (activeTab === 'dialogue') {
-    renderDialogueEditor()
+  // Only compliance reviewers can take a number off the list
+  const canRemove = can('review_compliance')
+  list.innerHTML = entries.map((entry, index) => `
+    <div class="sessions-item">
+      <div class="sessions-item-info">
+        <div class="sessions-item-title">${escapeHtml(entry.phone)}</div>
+        <div class="sessions-item-meta" title="${escapeHtml(entry.reason)}">${escapeHtml(describeDncEntry(entry))}</div>
+      </div>
+      ${canRemove ? `<button class="sessions-delete-btn" data-dnc-entry="${index}" title="Take off the list">×</button>` : ''}
+    </div>
+  `).join('')
+  list.querySelectorAll<HTMLElement>('.sessions-delete-btn').forEach(btn => {
+    btn.addEventListener('click', () => {
+      removeDncEntry(entries[Number(btn.dataset.dncEntry)])
+      showDncModal()
+    })
+  })
+}
+
+// Taken off the list by hand; recorded in the audit log under the reviewer's name
+function removeDncEntry(entry: DncEntry) {
+  if (!can('review_compliance')) return
+  dncRegistry.remove(entry.phone, entry.source)
+  recordAudit({ type: 'dnc_updated', at: conversation.getContext().now, details: { change: 'unlisted', phone: entry.phone, channels: entry.channels, source: entry.source, manual: true } })
+}
+
+function hideDncModal() {
+  const modal = document.getElementById('dncModal')
+  if (modal) {
+    modal.style.display = 'none'
   }
-  
-  // Auto-scroll to bottom
+}
+
+function scrollMessagesToBottom() {
   setTimeout(() => {
     const container = document.getElementById('messagesContainer')
     if (container) {
@@ -972,44 +985,458 @@ function addMessage(sender: 'bot' | 'user', text: string, options?: string[]) {
   }, 100)
 }
 
-function renderMessages() {
-  const container = document.getElementById('messagesContainer')
-  if (!container) return
+function getConversationOwner(): string {
+  return getSession()?.username ?? 'anonymous'
+}
+
+function getConversationSnapshot(): ConversationSnapshot {
+  return {
+    id: conversationId,
+    owner: getConversationOwner(),
+    createdAt: conversationCreatedAt,
+    updatedAt: new Date(),
+    leadId: selectedLeadId,
+    ...conversation.getData()
+  }
+}
+
+// Saves the conversation shortly after it changes (several changes in a row are saved once)
+function persistConversation() {
+  if (persistTimer !== null) clearTimeout(persistTimer)
+  persistTimer = window.setTimeout(() => {
+    persistTimer = null
+    if (conversation.getState().messages.length === 0) return
+    saveConversation(getConversationSnapshot()).catch(error => {
+      console.error('❌ Could not save the conversation:', error)
+    })
+  }, 300)
+}
+
+// Rebuild the phone UI and the dataflow diagram from a saved session
+function restoreConversation(snapshot: ConversationSnapshot) {
+  conversationId = snapshot.id
+  conversationCreatedAt = snapshot.createdAt
+  // The resumed step checks consent and quiet hours against the lead the conversation ran with
+  const restored = simulatedLeads.find(({ id }) => id === snapshot.leadId) ?? simulatedLeads[0]
+  selectedLeadId = restored.id
+  conversation.configure({ lead: restored.lead })
+  conversation.restore(snapshot)
+}
+
+function formatWorkflowName(workflow: string): string {
+  return workflow.charAt(0).toUpperCase() + workflow.slice(1)
+}
+
+async function showSessionsModal() {
+  const modal = document.getElementById('sessionsModal')
+  const list = document.getElementById('sessionsList')
+  if (!modal || !list) return
+  modal.style.display = 'flex'
+  list.innerHTML = '<div class="sessions-empty">Loading…</div>'
   
-  container.innerHTML = messages.map(msg => {
-    // Skip rendering empty messages (only show if there's text or it's a user message)
-    if (!msg.text && msg.sender === 'bot' && msg.options) {
-      return ''
-    }
-    
-    const time = msg.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
-    const isBot = msg.sender === 'bot'
-    
+  let snapshots: ConversationSnapshot[]
+  try {
+    snapshots = await listConversations(getConversationOwner())
+  } catch (error) {
+    console.error('❌ Could not list saved conversations:', error)
+    list.innerHTML = '<div class="sessions-empty">Saved sessions are not available in this browser.</div>'
+    return
+  }
+  
+  if (snapshots.length === 0) {
+    list.innerHTML = '<div class="sessions-empty">No saved sessions yet.</div>'
+    return
+  }
+  
+  list.innerHTML = snapshots.map(snapshot => {
+    const isCurrent = snapshot.id === conversationId
+    const started = snapshot.createdAt.toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
     return `
-      <div class="message ${isBot ? 'message-received' : 'message-sent'}">
-        <div class="message-bubble">
-          <div class="message-text">${msg.text}</div>
-          <div class="message-time">${time}</div>
+      <div class="sessions-item ${isCurrent ? 'current' : ''}">
+        <div class="sessions-item-info">
+          <div class="sessions-item-title">${escapeHtml(formatWorkflowName(snapshot.workflow))} · ${escapeHtml(snapshot.version)}${snapshot.aiEnabled ? ' · AI' : ''}</div>
+          <div class="sessions-item-meta">${started} · ${snapshot.messages.length} messages · ${escapeHtml(snapshot.currentState)}</div>
         </div>
+        ${isCurrent
+          ? '<span class="sessions-item-current">Open</span>'
+          : `<button class="sessions-open-btn" data-session-id="${escapeHtml(snapshot.id)}">Open</button>
+             <button class="sessions-delete-btn" data-session-id="${escapeHtml(snapshot.id)}" title="Delete session">×</button>`}
       </div>
     `
   }).join('')
   
-  // Render options if available
-  const lastMessage = messages[messages.length - 1]
-  if (lastMessage?.options && lastMessage.sender === 'bot') {
-    renderOptions(lastMessage.options)
-  } else {
-    clearInputArea()
-  }
-}
+  list.querySelectorAll<HTMLElement>('.sessions-open-btn').forEach(btn => {
+    btn.addEventListener('click', () => openSavedConversation(btn.dataset.sessionId!))
+  })
+  list.querySelectorAll<HTMLElement>('.sessions-delete-btn').forEach(btn => {
+    btn.addEventListener('click', async () => {
+      await deleteConversation(btn.dataset.sessionId!)
+      showSessionsModal()
+    })
+  })
+}
+
+function hideSessionsModal() {
+  const modal = document.getElementById('sessionsModal')
+  if (modal) {
+    modal.style.display = 'none'
+  }
+}
+
+async function openSavedConversation(id: string) {
+  const snapshot = await loadConversation(id)
+  hideSessionsModal()
+  if (snapshot) {
+    restoreConversation(snapshot)
+    // Make it the one to resume after a reload
+    persistConversation()
+  }
+}
+
+function showExportModal() {
+  const modal = document.getElementById('exportModal')
+  if (modal) {
+    modal.style.display = 'flex'
+  }
+}
+
+function hideExportModal() {
+  const modal = document.getElementById('exportModal')
+  if (modal) {
+    modal.style.display = 'none'
+  }
+}
+
+function showPassTimeModal() {
+  const modal = document.getElementById('passTimeModal')
+  if (modal) {
+    modal.style.display = 'flex'
+  }
+}
+
+function hidePassTimeModal() {
+  const modal = document.getElementById('passTimeModal')
+  if (modal) {
+    modal.style.display = 'none'
+  }
+}
+
+function getCurrentTranscript() {
+  return buildTranscript(conversation.getState())
+}
+
+function exportTranscript(format: TranscriptFormat) {
+  const { fileName, mimeType, content } = formatTranscript(getCurrentTranscript(), format)
+  downloadFile(fileName, mimeType, content)
+  hideExportModal()
+}
+
+function downloadFile(fileName: string, mimeType: string, content: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+// Opens the HTML transcript in a new window and prints it
+function printTranscript() {
+  const { content } = formatTranscript(getCurrentTranscript(), 'html')
+  const printWindow = window.open('', '_blank')
+  if (!printWindow) {
+    alert('Allow pop-ups to print the transcript')
+    return
+  }
+  printWindow.document.write(content)
+  printWindow.document.close()
+  printWindow.focus()
+  printWindow.print()
+  hideExportModal()
+}
+
+type ReplayRun = {
+  script: ReplayScript
+  // Index of the next reply to send
+  nextReply: number
+  // Where the conversation is in the recorded step path
+  pathIndex: number
+  // A reply is being categorized
+  busy: boolean
+  // Step entry (stateTransitions length) the replay is waiting on, and since when
+  waitingOn: number
+  waitingSince: number
+  timer: number
+}
+
+const REPLAY_SPEEDS = [0.5, 1, 2, 4, 8]
+const REPLAY_TICK_MS = 100
+// Pause before each replayed reply or call/date picker choice at 1x, as if the customer were reading
+const REPLAY_PAUSE_MS = 1500
+
+function getReplaySpeedOptions(selected: number): string {
+  return REPLAY_SPEEDS.map(speed => `<option value="${speed}" ${speed === selected ? 'selected' : ''}>${speed}×</option>`).join('')
+}
+
+function showReplayModal() {
+  const modal = document.getElementById('replayModal')
+  const error = document.getElementById('replayError')
+  if (error) {
+    error.textContent = ''
+  }
+  if (modal) {
+    modal.style.display = 'flex'
+  }
+}
+
+function hideReplayModal() {
+  const modal = document.getElementById('replayModal')
+  if (modal) {
+    modal.style.display = 'none'
+  }
+}
+
+// Load the chosen file into the script box so it can be checked or edited before replaying
+async function handleReplayFileSelect() {
+  const fileInput = document.getElementById('replayFileInput') as HTMLInputElement
+  const scriptInput = document.getElementById('replayScriptInput') as HTMLTextAreaElement
+  const file = fileInput?.files?.[0]
+  if (!file || !scriptInput) return
+  scriptInput.value = await file.text()
+  fileInput.value = ''
+}
+
+function handleReplayStart() {
+  const scriptInput = document.getElementById('replayScriptInput') as HTMLTextAreaElement
+  const speedSelect = document.getElementById('replaySpeedSelect') as HTMLSelectElement
+  const error = document.getElementById('replayError')
+  if (!scriptInput || !speedSelect) return
+  
+  let script: ReplayScript
+  try {
+    script = parseReplayScript(scriptInput.value)
+  } catch (parseError) {
+    if (error) {
+      error.textContent = parseError instanceof Error ? parseError.message : String(parseError)
+    }
+    return
+  }
+  hideReplayModal()
+  startReplay(script, parseFloat(speedSelect.value) || 1)
+}
+
+// Restart the conversation with the script's settings and feed it the recorded replies
+function startReplay(script: ReplayScript, speed: number) {
+  stopReplay()
+  conversation.configure({
+    workflow: script.workflow && getWorkflow(script.workflow) ? script.workflow : undefined,
+    version: script.version,
+    aiEnabled: script.aiEnabled
+  })
+  initializeWorkflowButtons()
+  updateVersionButtons()
+  updateAIToggleButton()
+  updatePhoneAndDataflowVisibility()
+  updateDataflow()
+  switchTab('chat')
+  
+  // Restarting or switching conversations stops the replay, so it starts after the reset
+  conversation.setSpeed(speed)
+  resetConversation()
+  replay = {
+    script,
+    nextReply: 0,
+    pathIndex: 0,
+    busy: false,
+    waitingOn: -1,
+    waitingSince: 0,
+    timer: window.setInterval(tickReplay, REPLAY_TICK_MS)
+  }
+  renderReplayBar()
+}
+
+function stopReplay(notice?: string) {
+  if (replay) {
+    clearInterval(replay.timer)
+  }
+  replay = null
+  conversation.setSpeed(1)
+  renderReplayBar(notice)
+}
+
+function renderReplayBar(notice?: string) {
+  const bar = document.getElementById('replayBar')
+  if (!bar) return
+  
+  if (!replay && !notice) {
+    bar.style.display = 'none'
+    bar.innerHTML = ''
+    return
+  }
+  
+  bar.style.display = 'flex'
+  if (replay) {
+    bar.innerHTML = `
+      <span class="replay-status" id="replayStatus"></span>
+      <select class="replay-speed-select" id="replayBarSpeed" title="Replay speed">${getReplaySpeedOptions(conversation.getSpeed())}</select>
+      <button class="replay-bar-btn" id="stopReplayBtn">Stop</button>
+    `
+    updateReplayStatus()
+    document.getElementById('replayBarSpeed')?.addEventListener('change', (e) => {
+      conversation.setSpeed(parseFloat((e.target as HTMLSelectElement).value) || 1)
+    })
+    document.getElementById('stopReplayBtn')?.addEventListener('click', () => stopReplay())
+  } else {
+    bar.innerHTML = `
+      <span class="replay-status">${notice}</span>
+      <button class="replay-bar-btn" id="closeReplayBarBtn">Close</button>
+    `
+    document.getElementById('closeReplayBarBtn')?.addEventListener('click', () => renderReplayBar())
+  }
+}
+
+function updateReplayStatus() {
+  const status = document.getElementById('replayStatus')
+  if (status && replay) {
+    status.textContent = `▶ Replaying · ${replay.nextReply}/${replay.script.replies.length} replies`
+  }
+}
+
+function finishReplay() {
+  if (!replay) return
+  const sent = replay.nextReply
+  const total = replay.script.replies.length
+  stopReplay(sent < total
+    ? `Replay finished early · ${sent}/${total} replies sent`
+    : `Replay finished · ${total}/${total} replies sent`)
+}
+
+// The step the original conversation went to after the current one, if the transcript recorded it
+function getRecordedNextStep(run: ReplayRun): string | undefined {
+  const { path } = run.script
+  const { currentStepId, workflow } = conversation.getState()
+  for (let index = run.pathIndex; index < path.length - 1; index++) {
+    if (path[index].stepId === currentStepId && path[index].workflow === workflow) {
+      run.pathIndex = index + 1
+      return path[index + 1].stepId
+    }
+  }
+  return undefined
+}
+
+// Waits until the conversation needs the customer (a reply, a call or a date pick), then acts as they did
+function tickReplay() {
+  if (!replay || replay.busy) return
+  
+  const { currentStepRan, stateTransitions } = conversation.getState()
+  const step = conversation.getCurrentStep()
+  if (!step || !currentStepRan) return
+  
+  const awaitsCall = step.action === 'call' && !!(step.answered || step.declined)
+  const awaitsDate = step.action === 'pick_datetime' && !!(step.picked || step.cancelled)
+  const awaitsReply = !!(step.transitions || step.otherwise)
+  if (!awaitsCall && !awaitsDate && !awaitsReply) {
+    // Steps with a `next` link move on by themselves; any other step ends the conversation
+    if (!step.next && !step.condition) {
+      finishReplay()
+    }
+    return
+  }
+  if (awaitsReply && !awaitsCall && !awaitsDate && replay.nextReply >= replay.script.replies.length) {
+    finishReplay()
+    return
+  }
+  
+  // Pause on each step before acting, so the diagram and messages can be followed
+  const now = Date.now()
+  if (replay.waitingOn !== stateTransitions.length) {
+    replay.waitingOn = stateTransitions.length
+    replay.waitingSince = now
+    return
+  }
+  if (now - replay.waitingSince < REPLAY_PAUSE_MS / conversation.getSpeed()) return
+  replay.waitingOn = -1
+  
+  if (awaitsCall) {
+    // Without a recorded path, the customer misses the call and the conversation continues by SMS
+    const next = getRecordedNextStep(replay)
+    if (next && step.answered && next === linkTarget(step.answered)) {
+      handleCallAccept()
+    } else {
+      handleCallDecline()
+    }
+    return
+  }
+  
+  if (awaitsDate) {
+    const next = getRecordedNextStep(replay)
+    if (next && step.cancelled && next === linkTarget(step.cancelled)) {
+      handleDateTimeCancel()
+    } else if (replay.script.scheduledDateTime) {
+      hideDateTimeModal()
+      conversation.pickDateTime(replay.script.scheduledDateTime)
+    } else {
+      // Confirm the time the picker was opened with
+      handleDateTimeConfirm()
+    }
+    return
+  }
+  
+  const current = replay
+  const reply = current.script.replies[current.nextReply++]
+  updateReplayStatus()
+  current.busy = true
+  conversation.submitText(reply.text, reply.classification).finally(() => {
+    current.busy = false
+    // Replies that didn't lead anywhere leave the step waiting for the next one
+    current.waitingOn = -1
+  })
+}
+
+function renderMessages() {
+  const container = document.getElementById('messagesContainer')
+  if (!container) return
+  
+  const { messages } = conversation.getState()
+  container.innerHTML = messages.map(msg => {
+    // Skip rendering empty messages (only show if there's text or it's a user message)
+    if (!msg.text && msg.sender === 'bot' && msg.options) {
+      return ''
+    }
+    
+    const time = formatPhoneTime(msg.timestamp)
+    const isBot = msg.sender === 'bot'
+    
+    return `
+      <div class="message ${isBot ? 'message-received' : 'message-sent'}">
+        <div class="message-bubble">
+          <div class="message-text">${escapeHtml(msg.text)}</div>
+          ${msg.heldSince ? `<div class="message-held">🌙 Held for quiet hours since ${formatPhoneTime(msg.heldSince)}</div>` : ''}
+          <div class="message-time">${time}</div>
+        </div>
+      </div>
+    `
+  }).join('')
+  
+  // Render options if available
+  const lastMessage = messages[messages.length - 1]
+  if (conversation.getState().userHasStopped) {
+    // An opted-out customer can still text START or HELP
+    renderKeywordInput()
+  } else if (lastMessage?.options && lastMessage.sender === 'bot') {
+    renderOptions(lastMessage.options)
+  } else {
+    clearInputArea()
+  }
+}
 
 function renderOptions(options: string[]) {
   const inputArea = document.getElementById('inputArea')
   if (!inputArea) return
   
-  // Check if AI is enabled to determine input method
-  if (aiEnabled) {
+  // Check if AI is enabled to determine input method (free-text steps always get the text box)
+  const isFreeText = conversation.getCurrentStep()?.input === 'free_text'
+  if (conversation.getState().aiEnabled || isFreeText) {
     // AI enabled: Show text input for AI categorization
     inputArea.innerHTML = `
       <div class="text-input-container">
@@ -1028,7 +1455,7 @@ function renderOptions(options: string[]) {
         </button>
       </div>
       <div class="ai-category-hint">
-        <small>AI will categorize your message automatically</small>
+        <small>${isFreeText ? 'Type your answer in your own words' : 'AI will categorize your message automatically'}</small>
       </div>
     `
     
@@ -1057,85 +1484,113 @@ function renderOptions(options: string[]) {
     inputArea.innerHTML = `
       <div class="options-container">
         ${options.map((option, index) => `
-          <button class="option-btn" data-option="${index}">${option}</button>
+          <button class="option-btn" data-option="${index}">${escapeHtml(option)}</button>
         `).join('')}
       </div>
+      ${keywordInputHtml('Or text STOP, START or HELP')}
     `
+    bindKeywordInput()
     
     // Add event listeners to option buttons
     inputArea.querySelectorAll('.option-btn').forEach(btn => {
       btn.addEventListener('click', (e) => {
         const optionIndex = parseInt((e.target as HTMLElement).dataset.option || '0')
-        handleOptionSelect(options[optionIndex])
+        conversation.selectOption(options[optionIndex])
       })
     })
   }
 }
 
-async function handleTextInput() {
+function handleTextInput() {
   const textInput = document.getElementById('userTextInput') as HTMLInputElement
   if (!textInput) return
 
   const userText = textInput.value.trim()
   if (!userText) return
 
-  // If user types STOP, opt out: show their message and never send another message
-  if (userText.toUpperCase() === 'STOP') {
-    userHasStopped = true
-    addMessage('user', userText)
-    textInput.value = ''
-    return
-  }
-
-  // In webform flow with AI: if user says they want to confirm a visit, swap workflow on the fly
-  if (selectedWorkflow === 'webform' && isConfirmVisitIntent(userText)) {
-    addMessage('user', userText)
-    textInput.value = ''
-    switchToConfirmVisitWorkflow()
-    return
-  }
+  textInput.value = ''
+  conversation.submitText(userText)
+}
 
-  // Show user's message
-  addMessage('user', userText)
+// With the buttons shown (AI off) or after an opt-out, only keywords can be typed
+function keywordInputHtml(placeholder: string): string {
+  return `
+    <div class="keyword-input-container">
+      <input type="text" id="keywordInput" class="user-text-input keyword-input" placeholder="${placeholder}" autocomplete="off" />
+    </div>
+    <div class="ai-category-hint keyword-hint" id="keywordHint"></div>
+  `
+}
 
-  // Clear input
-  textInput.value = ''
+function bindKeywordInput() {
+  const keywordInput = document.getElementById('keywordInput') as HTMLInputElement | null
+  keywordInput?.addEventListener('keypress', (e) => {
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      handleKeywordInput(keywordInput)
+    }
+  })
+}
 
-  // Show loading indicator
+function renderKeywordInput() {
   const inputArea = document.getElementById('inputArea')
-  if (inputArea) {
-    const hint = inputArea.querySelector('.ai-category-hint')
+  if (!inputArea) return
+  inputArea.innerHTML = keywordInputHtml('Reply START to resubscribe or HELP for help')
+  bindKeywordInput()
+}
+
+function handleKeywordInput(keywordInput: HTMLInputElement) {
+  const text = keywordInput.value.trim()
+  if (!text) return
+  if (!matchKeyword(text, keywordSettings)) {
+    const hint = document.getElementById('keywordHint')
     if (hint) {
-      hint.innerHTML = '<small>🤖 AI is categorizing your message...</small>'
+      hint.innerHTML = `<small>Only STOP, START and HELP can be typed here${conversation.getState().aiEnabled ? '' : '; turn AI on to type other replies'}</small>`
     }
+    return
   }
-  
-  // Categorize using AI (with fallback to pattern matching)
-  const category = await categorizeUserResponse(userText)
-  
-  // Check if we're using AI or pattern matching by checking console for recent API call
-  // We'll show a message indicating the method used
-  const isUsingAI = import.meta.env.VITE_OPENAI_API_KEY && import.meta.env.VITE_OPENAI_API_KEY !== 'YOUR_API_KEY'
-  
-  // Show the category that was detected (optional - for transparency)
+  keywordInput.value = ''
+  // The option path honors keywords too, so AI off sends them the way a button would
+  if (conversation.getState().aiEnabled) {
+    conversation.submitText(text)
+  } else {
+    conversation.selectOption(text)
+  }
+}
+
+function setCategoryHint(html: string) {
+  const hint = document.getElementById('inputArea')?.querySelector('.ai-category-hint')
+  if (hint) {
+    hint.innerHTML = `<small>${html}</small>`
+  }
+}
+
+// Show the category that was detected and how (for transparency)
+function showClassificationHint(result: ClassificationResult, recorded: boolean) {
   setTimeout(() => {
-    if (inputArea) {
-      const hint = inputArea.querySelector('.ai-category-hint')
-      if (hint) {
-        // Check if there was an API error in console (we can't directly check, but we can infer)
-        // For now, just show the category
-        hint.innerHTML = `<small>✓ Categorized as: <strong>${category}</strong></small>`
-        setTimeout(() => {
-          if (hint) {
-            hint.innerHTML = '<small>AI will categorize your message automatically</small>'
-          }
-        }, 2000)
-      }
-    }
+    setCategoryHint(`✓ Categorized as: <strong>${escapeHtml(result.category)}</strong> · ${recorded ? 'as recorded in the transcript' : escapeHtml(describeClassification(result))}`)
+    setTimeout(() => {
+      setCategoryHint('AI will categorize your message automatically')
+    }, 2000)
   }, 300)
-  
-  // Process the categorized response
-  handleOptionSelect(category)
+}
+
+const classifierSourceLabels: Record<ClassificationResult['source'], string> = {
+  llm: 'AI',
+  patterns: 'pattern matching',
+  rule: 'rule'
+}
+
+// e.g. "AI, 92% confident, 640 ms" or "pattern matching rule no-negated-yes ("okay"), 85% confident, 1 ms"
+function describeClassification(result: ClassificationResult): string {
+  let source = classifierSourceLabels[result.source]
+  if (result.source === 'patterns' && result.rule) {
+    source = `${source} rule ${result.rule} ("${result.matchedPattern}")`
+  } else if (result.source === 'llm' && result.provider) {
+    source = `${source} (${result.provider})`
+  }
+  const lowConfidence = result.lowConfidenceCategory ? ` (was ${result.lowConfidenceCategory})` : ''
+  return `${source}, ${Math.round(result.confidence * 100)}% confident${lowConfidence}, ${result.latencyMs} ms`
 }
 
 function clearInputArea() {
@@ -1146,8 +1601,6 @@ function clearInputArea() {
 }
 
 function showCallingNotification() {
-  currentState = 'calling'
-  updateDataflow()
   const overlay = document.getElementById('callingOverlay')
   if (overlay) {
     overlay.style.display = 'flex'
@@ -1163,9 +1616,7 @@ function hideCallingNotification() {
 
 function handleCallAccept() {
   hideCallingNotification()
-  currentState = 'call_accepted'
-  updateDataflow()
-  showCallScreen()
+  conversation.answerCall()
 }
 
 function showCallScreen() {
@@ -1239,275 +1690,36 @@ function startCallTimer() {
 
 function handleCallDecline() {
   hideCallingNotification()
-  currentState = 'call_declined'
-  updateDataflow()
-  
-  setTimeout(() => {
-    const options = ['Yes', 'Call at a different time', 'No', '24 hours later (No response)', 'Do not contact', 'Unknown message']
-    let message = 'Hello, we just called to reach out about our product! Would you like us to call you back?'
-    if (selectedWorkflow === 'product question') {
-      message = 'Hello, we received your product question. Would you like us to call you back to help?'
-    }
-    addMessage('bot', message, options)
-    currentState = 'waiting_for_response'
-    updateDataflow()
-  }, 500)
-}
-
-function handleOptionSelect(option: string) {
-  addMessage('user', option)
-  
-  // Handle confirm visit workflow
-  if (selectedWorkflow === 'confirm visit') {
-    handleConfirmVisitResponse(option)
-    return
-  }
-  
-  switch (currentState) {
-    case 'waiting_for_response':
-    case 'followup_next_day':
-      handleResponseToCallQuestion(option)
-      break
-    case 'asking_better_time':
-      handleBetterTimeResponse(option)
-      break
-    case 'asking_after_cancel':
-      handleAfterCancelResponse(option)
-      break
-    default:
-      break
-  }
+  conversation.declineCall()
 }
 
-function handleAfterCancelResponse(option: string) {
-  if (option === 'Yes') {
-    // Go back to the date/time picker
-    setTimeout(() => {
-      showDateTimePicker()
-    }, 500)
-  } else {
-    // When user says "No" after canceling date/time picker, loop back to 24 hour flow
-    showTimePassingAnimation()
-  }
+// Local yyyy-mm-dd value for a date input
+function formatDateInputValue(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
 }
 
-function handleResponseToCallQuestion(option: string) {
-  // Get the appropriate message based on workflow
-  const getFollowupMessage = () => {
-    if (selectedWorkflow === 'product question') {
-      return 'Hello, we called yesterday about your product question. Would you like to schedule a time for us to call you?'
-    }
-    return 'Hello, we called yesterday to reach out about our product! Would you like to schedule a time for us to call you?'
-  }
-  
-  switch (option) {
-    case 'Yes':
-      if (isAfter24HourFollowup) {
-        // After 24-hour follow-up: show date/time picker for scheduling
-        isAfter24HourFollowup = false // Reset flag
-        showDateTimePicker()
-      } else {
-        // Original behavior: show calling notification
-        setTimeout(() => {
-          showCallingNotification()
-        }, 500)
-      }
-      break
-      
-    case 'Call at a different time':
-      showDateTimePicker()
-      break
-      
-    case 'No':
-      if (isAfter24HourFollowup) {
-        // After 24-hour follow-up: loop back to followup next day after 24 more hours
-        showTimePassingAnimation()
-      } else {
-        // Original behavior: ask for better time
-        currentState = 'asking_better_time'
-        updateDataflow()
-        setTimeout(() => {
-          const options = ['Yes', 'No']
-          addMessage('bot', 'Is there a better time that we can call you?', options)
-        }, 500)
-      }
-      break
-      
-    case 'No/No response':
-      // This option should no longer appear in followup_next_day, but handle it if it somehow does
-      if (isAfter24HourFollowup) {
-        // Loop back to followup next day instead of going to DNC
-        showTimePassingAnimation()
-      }
-      break
-      
-    case 'No response':
-    case '24 hours later (No response)':
-      if (isAfter24HourFollowup) {
-        // After 24-hour follow-up: loop back to followup next day
-        showTimePassingAnimation()
-      } else {
-        // Original behavior: Show 24 hour time passing animation
-        showTimePassingAnimation()
-      }
-      break
-      
-    case 'Do not contact':
-      // Go directly to DNC
-      addMessage('bot', 'Have a nice day!')
-      currentState = 'ended'
-      updateDataflow()
-      break
-      
-    case 'Unknown message':
-      // Unknown message received
-      addMessage('bot', 'Unknown message received, transferring to messaging agent.')
-      currentState = 'unknown'
-      updateDataflow()
-      break
-  }
-}
-
-function handleBetterTimeResponse(option: string) {
-  if (option === 'Yes') {
-    showDateTimePicker()
-  } else {
-    // When user says "No" to better time, go to followup next day
-    showTimePassingAnimation()
-  }
-}
-
-// Confirm Visit Workflow Functions
-function startConfirmVisitConversation() {
-  currentState = 'confirm_visit_initial'
-  updateDataflow()
-  
-  // Sample data - in production, this would come from the appointment system
-  const fName = 'John'
-  const appointmentDate = new Date()
-  appointmentDate.setDate(appointmentDate.getDate() + 1) // Tomorrow
-  const dateTime = appointmentDate.toLocaleString('en-US', { 
-    weekday: 'long', 
-    year: 'numeric', 
-    month: 'long', 
-    day: 'numeric',
-    hour: 'numeric',
-    minute: '2-digit',
-    hour12: true
-  })
-  const address = '123 Main Street, Anytown, ST 12345'
-  
-  const initialMessage = `Hey ${fName}, you have a consultation scheduled for ${dateTime} at ${address}. A certified technician will be arriving. Will you be available for this appointment?`
-  
-  setTimeout(() => {
-    const options = ['Yes', 'No', 'Cancel Appointment', 'DNC', 'Unknown message']
-    addMessage('bot', initialMessage, options)
-    currentState = 'confirm_visit_waiting'
-    updateDataflow()
-  }, 500)
-}
-
-function handleConfirmVisitResponse(option: string) {
-  switch (currentState) {
-    case 'confirm_visit_waiting':
-      if (option === 'Yes') {
-        // Confirm Appointment
-        currentState = 'confirm_visit_confirmed'
-        updateDataflow()
-        setTimeout(() => {
-          addMessage('bot', 'Great! We will see you then.')
-        }, 500)
-      } else if (option === 'No') {
-        // Reschedule Appointment
-        currentState = 'confirm_visit_reschedule_question'
-        updateDataflow()
-        setTimeout(() => {
-          const options = ['Yes', 'No']
-          addMessage('bot', 'Is there a better time we could reschedule the appointment for?', options)
-          currentState = 'confirm_visit_reschedule_waiting'
-          updateDataflow()
-        }, 500)
-      } else if (option === 'Cancel Appointment') {
-        // Cancel Appointment - first ask to reschedule
-        currentState = 'confirm_visit_reschedule_question'
-        updateDataflow()
-        setTimeout(() => {
-          const options = ['Yes', 'No']
-          addMessage('bot', 'Is there a better time we could reschedule the appointment for?', options)
-          currentState = 'confirm_visit_reschedule_waiting'
-          updateDataflow()
-        }, 500)
-      } else if (option === 'Do not contact' || option === 'DNC') {
-        // Cancel Appointment + Add to DNC List
-        currentState = 'confirm_visit_dnc'
-        updateDataflow()
-        setTimeout(() => {
-          addMessage('bot', 'Your appointment has been canceled and you will no longer receive notifications from this number.')
-        }, 500)
-      } else if (option === 'Unknown message') {
-        // Unknown response
-        currentState = 'unknown'
-        updateDataflow()
-        setTimeout(() => {
-          addMessage('bot', 'Unknown message received, transferring to messaging agent.')
-        }, 500)
-      }
-      break
-      
-    case 'confirm_visit_reschedule_waiting':
-      if (option === 'Yes') {
-        // User wants to reschedule - show date/time picker
-        currentState = 'confirm_visit_reschedule_selecting_time'
-        updateDataflow()
-        setTimeout(() => {
-          showConfirmVisitRescheduleDateTimePicker()
-        }, 500)
-      } else if (option === 'No') {
-        // User doesn't want to reschedule - cancel appointment
-        currentState = 'confirm_visit_cancelled'
-        updateDataflow()
-        setTimeout(() => {
-          addMessage('bot', 'Your appointment has been canceled, please reach out if you would like to reschedule.')
-        }, 500)
-      } else if (option === 'Unknown message') {
-        // Unknown response
-        currentState = 'unknown'
-        updateDataflow()
-        setTimeout(() => {
-          addMessage('bot', 'Unknown message received, transferring to messaging agent.')
-        }, 500)
-      }
-      break
-      
-    default:
-      break
-  }
-}
-
-function showDateTimePicker() {
-  currentState = 'scheduling_time'
-  updateDataflow()
-  openDateTimeModalAndSetup()
-}
-
-/** Opens the date/time modal for confirm visit reschedule (state already set to confirm_visit_reschedule_selecting_time). */
-function showConfirmVisitRescheduleDateTimePicker() {
-  updateDataflow()
-  openDateTimeModalAndSetup()
-}
-
-function openDateTimeModalAndSetup() {
+// Opens the date/time picker, prefilled with the time the customer asked for (if any)
+function openDateTimeModalAndSetup(requested?: RequestedTime | null) {
   const modal = document.getElementById('dateTimeModal')
   if (modal) {
     modal.style.display = 'flex'
   }
   
-  // Set minimum date to today and default to today's date
+  // The picker works on the customer's wall clock, like the 9-5 window it enforces
+  const timeZone = getLeadTimeZone()
+  const zoneNote = document.getElementById('pickerTimeZone')
+  if (zoneNote) {
+    zoneNote.textContent = `Times are in the customer's time zone (${getTimeZoneAbbreviation(conversation.now(), timeZone)})`
+  }
+  
+  // Set minimum date to the customer's today and default to it (or the requested day)
   const datePicker = document.getElementById('datePicker') as HTMLInputElement
   if (datePicker) {
-    const today = new Date().toISOString().split('T')[0]
+    const today = formatDateInputValue(toWallClock(conversation.now(), timeZone))
     datePicker.min = today
-    datePicker.value = today
+    datePicker.value = requested ? formatDateInputValue(toWallClock(requested.date, timeZone)) : today
   }
   
   // Set up custom time picker with 5-minute intervals (12-hour format)
@@ -1517,8 +1729,8 @@ function openDateTimeModalAndSetup() {
   const ampmPicker = document.getElementById('ampmPicker') as HTMLSelectElement
   
   if (hourPicker && minutePicker && ampmPicker) {
-    // Set default time to next 5-minute interval, but ensure it's within 9 AM - 5 PM
-    const now = new Date()
+    // Set default time to the requested time or the next 5-minute interval, but ensure it's within 9 AM - 5 PM
+    const now = toWallClock(requested?.hasTime ? requested.date : conversation.now(), timeZone)
     const minutes = now.getMinutes()
     const roundedMinutes = Math.ceil(minutes / 5) * 5
     let hours = now.getHours()
@@ -1586,7 +1798,7 @@ function handleDateTimeConfirm() {
   
   // Validate time is within business hours (9:00 AM - 5:00 PM)
   // 5:00 PM is 17:00, so we allow up to but not including 17:00
-  if (hours24 < 9 || hours24 >= 17) {
+  if (!isWithinBusinessHours(hours24)) {
     alert('Please select a time between 9:00 AM and 5:00 PM')
     return
   }
@@ -1597,65 +1809,35 @@ function handleDateTimeConfirm() {
     return
   }
   
-  const timeString = `${String(hours24).padStart(2, '0')}:${minutes}`
-  const date = new Date(`${datePicker.value}T${timeString}`)
-  scheduledDateTime = date
-  
-  const modal = document.getElementById('dateTimeModal')
-  if (modal) {
-    modal.style.display = 'none'
+  // The picked wall-clock time is in the customer's time zone; it is checked against the
+  // conversation's clock, which may be days ahead of the real one
+  const [year, month, day] = datePicker.value.split('-').map(Number)
+  const date = zonedTimeToDate(year, month, day, hours24, parseInt(minutes), getLeadTimeZone())
+  if (date <= conversation.now()) {
+    alert('Please select a time in the future')
+    return
   }
   
-  const formattedDate = date.toLocaleDateString('en-US', { 
-    weekday: 'long', 
-    year: 'numeric', 
-    month: 'long', 
-    day: 'numeric' 
-  })
-  const formattedTime = date.toLocaleTimeString('en-US', { 
-    hour: 'numeric', 
-    minute: '2-digit',
-    hour12: true 
-  })
-  
-  if (currentState === 'confirm_visit_reschedule_selecting_time') {
-    addMessage('bot', `Your appointment has been rescheduled for ${formattedDate} at ${formattedTime}. We'll see you then!`)
-    currentState = 'confirm_visit_confirmed'
-  } else {
-    addMessage('bot', `We will call you again on ${formattedDate} at ${formattedTime}.`)
-    currentState = 'time_scheduled'
-  }
-  updateDataflow()
+  hideDateTimeModal()
+  conversation.pickDateTime(date)
 }
 
 function handleDateTimeCancel() {
+  hideDateTimeModal()
+  // e.g. ask if they want to select a date and time after all
+  conversation.cancelDatePick()
+}
+
+function hideDateTimeModal() {
   const modal = document.getElementById('dateTimeModal')
   if (modal) {
     modal.style.display = 'none'
   }
-  
-  if (currentState === 'confirm_visit_reschedule_selecting_time') {
-    currentState = 'confirm_visit_reschedule_waiting'
-    updateDataflow()
-    setTimeout(() => {
-      const options = ['Yes', 'No']
-      addMessage('bot', 'Is there a better time we could reschedule the appointment for?', options)
-    }, 500)
-    return
-  }
-  
-  // Ask if they want to select a date and time
-  currentState = 'asking_after_cancel'
-  updateDataflow()
-  setTimeout(() => {
-    const options = ['Yes', 'No']
-    addMessage('bot', 'No date and time selected. Would you like to select a date and time for us to call you back?', options)
-  }, 500)
 }
 
 function handleEndCall() {
   hideCallScreen()
-  addMessage('bot', 'Thank you for calling us! We will keep in contact using this number.')
+  conversation.endCall()
   // Keep state as 'call_accepted' so dataflow stays on 'does_answer' instead of going to DNC
   // currentState = 'ended' // Don't change state to ended
   // updateDataflow() // Don't update dataflow
@@ -1816,51 +1998,56 @@ function hideContacts() {
   }
 }
 
-function showTimePassingAnimation() {
+// "24 Hours Later...", "1 Hour Later...", "3 Days Later..."
+function formatTimePassed(ms: number): string {
+  const hours = Math.round(ms / HOUR_MS)
+  const [amount, unit] = hours % 24 === 0 ? [hours / 24, 'Day'] : [hours, 'Hour']
+  if (unit === 'Day' && amount === 1) return '24 Hours Later...'
+  return `${amount} ${unit}${amount === 1 ? '' : 's'} Later...`
+}
+
+// "Quiet Hours · Sending at 8:00 AM PST"
+function formatQuietHoursTitle(skippedMs: number): string {
+  const sendAt = new Date(conversation.now().getTime() + skippedMs)
+  return `Quiet Hours · Sending at ${formatPhoneTime(sendAt)} ${getTimeZoneAbbreviation(sendAt, getLeadTimeZone())}`
+}
+
+// Shows "24 hours later" (or the night passing during quiet hours) for as long as the conversation
+// engine waits; the phone clock jumps ahead at the end
+function showTimePassingAnimation(durationMs: number, skippedMs: number, reason: 'follow_up' | 'quiet_hours' | 'skip') {
   const overlay = document.getElementById('timePassingOverlay')
   const progressBar = document.getElementById('timePassingBar')
+  const title = document.getElementById('timePassingTitle')
+  const icon = document.getElementById('timePassingIcon')
   if (!overlay || !progressBar) return
   
+  hideTimePassingAnimation()
+  if (title) {
+    title.textContent = reason === 'quiet_hours' ? formatQuietHoursTitle(skippedMs) : formatTimePassed(skippedMs)
+  }
+  if (icon) {
+    icon.textContent = reason === 'quiet_hours' ? '🌙' : '⏰'
+  }
   overlay.style.display = 'flex'
   progressBar.style.width = '0%'
   
-  // Animate progress bar over 3 seconds (representing 24 hours)
-  let progress = 0
-  const duration = 3000 // 3 seconds
-  const interval = 16 // ~60fps
-  const increment = 100 / (duration / interval)
-  
-  const animationInterval = setInterval(() => {
-    progress += increment
-    if (progress >= 100) {
-      progress = 100
-      clearInterval(animationInterval)
-      
-      // Hide overlay and send follow-up message
-      setTimeout(() => {
-        overlay.style.display = 'none'
-        // Re-send ADT intro each time 24 hours pass
-        addMessage('bot', ADT_INTRO_MESSAGE)
-        let message = 'Hello, we called yesterday to reach out about our product! Would you like to schedule a time for us to call you?'
-        if (selectedWorkflow === 'product question') {
-          message = 'Hello, we called yesterday about your product question. Would you like to schedule a time for us to call you?'
-        }
-        addMessage('bot', message)
-        currentState = 'followup_next_day' // Set state to followup_next_day
-        isAfter24HourFollowup = true // Set flag to indicate we're in the follow-up flow
-        updateDataflow()
-        
-        setTimeout(() => {
-          const options = ['Yes', 'No'] // "No" will loop back after 24 hours
-          addMessage('bot', '', options)
-        }, 500)
-      }, 500)
+  // Fill the progress bar over the wait, then hide the overlay
+  const startedAt = Date.now()
+  timePassingInterval = window.setInterval(() => {
+    const elapsed = Date.now() - startedAt
+    progressBar.style.width = `${Math.min(elapsed / durationMs, 1) * 100}%`
+    if (elapsed >= durationMs) {
+      hideTimePassingAnimation()
+      updatePhoneTime()
     }
-    progressBar.style.width = `${progress}%`
-  }, interval)
+  }, 16) // ~60fps
 }
 
 function hideTimePassingAnimation() {
+  if (timePassingInterval !== null) {
+    clearInterval(timePassingInterval)
+    timePassingInterval = null
+  }
   const overlay = document.getElementById('timePassingOverlay')
   if (overlay) {
     overlay.style.display = 'none'
@@ -1871,481 +2058,17 @@ function renderDataflow() {
   const diagram = document.getElementById('dataflowDiagram')
   if (!diagram) return
   
-  // If "offer", "schedule consultation", "customer satisfaction check-in", or "legal requirements" workflow is selected, show blank diagram
-  if (selectedWorkflow === 'offer' || selectedWorkflow === 'schedule consultation' || selectedWorkflow === 'customer satisfaction check-in' || selectedWorkflow === 'legal requirements') {
+  // Workflows without a definition (e.g. "legal requirements") show a blank diagram
+  const workflow = getWorkflow(conversation.getState().workflow)
+  renderAnswersSummary(workflow)
+  renderConsentPanel(workflow)
+  if (!workflow) {
     diagram.innerHTML = ''
     return
   }
   
-  // Handle "confirm visit" workflow
-  if (selectedWorkflow === 'confirm visit') {
-    renderConfirmVisitDataflow(diagram)
-    return
-  }
-  
-  // Handle "product question" workflow
-  if (selectedWorkflow === 'product question') {
-    renderProductQuestionDataflow(diagram)
-    return
-  }
-  
-  // Match the image structure: Blue rectangles (process), Orange rectangles (SMS), Green ovals (success), Red oval (DNC)
-  const smsInitialLabel = selectedVersion === 'B'
-    ? 'No SMS is sent to customer'
-    : "SMS is sent to customer 'We received your interest form! We are calling now.'"
-  const states = [
-    { id: 'webform_received', label: 'Webform received', type: 'blue', x: 500, y: 50 },
-    { id: 'sms_initial', label: smsInitialLabel, type: 'orange', x: 500, y: 200, ...(selectedVersion === 'B' ? { width: 300, height: 80 } : {}) },
-    { id: 'outbound_call', label: 'Outbound call attempt is made to lead', type: 'blue', x: 500, y: 350 },
-    { id: 'does_answer', label: 'Does answer', type: 'green', x: 200, y: 500 },
-    { id: 'lead_no_answer', label: "Lead doesn't answer call", type: 'blue', x: 500, y: 500 },
-    { id: 'unknown', label: 'Unknown', type: 'red', x: 150, y: 660 },
-    { id: 'sms_followup', label: "SMS is sent to lead 'Hello Lead, do you want to be called?'", type: 'orange', x: 500, y: 650 },
-    { id: 'redial_lead', label: 'Redial lead', type: 'green', x: 50, y: 875 },
-    { id: 'schedule_call', label: 'Schedule Call', type: 'green', x: 200, y: 950 },
-    { id: 'better_time', label: 'Is there a better time we can call you?', type: 'blue', x: 350, y: 950 },
-    { id: 'followup_next_day', label: 'Followup next day', type: 'blue', x: 880, y: 950 },
-    { id: 'dnc', label: 'DNC', type: 'red', x: 1050, y: 660 }
-  ]
-  
-  const connections = [
-    { from: 'webform_received', to: 'sms_initial', label: '' },
-    { from: 'sms_initial', to: 'outbound_call', label: '' },
-    { from: 'outbound_call', to: 'does_answer', label: '' },
-    { from: 'outbound_call', to: 'lead_no_answer', label: '' },
-    { from: 'lead_no_answer', to: 'sms_followup', label: '' },
-    { from: 'sms_followup', to: 'unknown', label: 'Unknown message sent' },
-    { from: 'sms_followup', to: 'redial_lead', label: 'Yes' },
-    { from: 'sms_followup', to: 'schedule_call', label: 'Can you call at ???' },
-    { from: 'sms_followup', to: 'better_time', label: 'No' },
-    { from: 'sms_followup', to: 'followup_next_day', label: 'No response' },
-    { from: 'sms_followup', to: 'dnc', label: 'Do not contact' },
-    { from: 'better_time', to: 'schedule_call', label: 'Yes' },
-    { from: 'better_time', to: 'followup_next_day', label: 'No' },
-    { from: 'followup_next_day', to: 'better_time', label: 'Yes' },
-    { from: 'followup_next_day', to: 'followup_next_day', label: 'No/No response' }
-  ]
-  
-  // Map current state to diagram state
-  const stateMapping: Record<ConversationState, string> = {
-    'initial': 'webform_received',
-    'calling': 'outbound_call',
-    'call_accepted': 'does_answer',
-    'call_declined': 'lead_no_answer',
-    'asking_if_wants_call': 'sms_followup',
-    'waiting_for_response': 'sms_followup',
-    'scheduling_time': 'schedule_call',
-    'time_scheduled': 'schedule_call',
-    'asking_better_time': 'better_time',
-    'asking_after_cancel': 'better_time',
-    'followup_next_day': 'followup_next_day',
-    'unknown': 'unknown',
-    'ended': 'dnc',
-    // Confirm visit states (not used in webform workflow, but required for type completeness)
-    'confirm_visit_initial': 'webform_received',
-    'confirm_visit_waiting': 'webform_received',
-    'confirm_visit_confirmed': 'webform_received',
-    'confirm_visit_reschedule_question': 'webform_received',
-    'confirm_visit_reschedule_waiting': 'webform_received',
-    'confirm_visit_reschedule_selecting_time': 'webform_received',
-    'confirm_visit_cancelled': 'webform_received',
-    'confirm_visit_dnc': 'webform_received'
-  }
-  
-  const activeStateId = stateMapping[currentState] || ''
-  
-  const stateMap = new Map(states.map(s => [s.id, s]))
-  
-  // Helper function to wrap text
-  const wrapText = (text: string, maxWidth: number, fontSize: number): string[] => {
-    const words = text.split(' ')
-    const lines: string[] = []
-    let currentLine = ''
-    
-    words.forEach(word => {
-      const testLine = currentLine ? `${currentLine} ${word}` : word
-      // Approximate width: each character is about 0.6 * fontSize
-      const testWidth = testLine.length * fontSize * 0.6
-      
-      if (testWidth > maxWidth && currentLine) {
-        lines.push(currentLine)
-        currentLine = word
-      } else {
-        currentLine = testLine
-      }
-    })
-    
-    if (currentLine) {
-      lines.push(currentLine)
-    }
-    
-    return lines.length > 0 ? lines : [text]
-  }
-  
-  // Get colors and shapes based on type
-  const getNodeStyle = (state: typeof states[0], isActive: boolean) => {
-    const baseColors: Record<string, { fill: string, stroke: string, text: string }> = {
-      'blue': { fill: '#4A90E2', stroke: '#357ABD', text: 'white' },
-      'orange': { fill: '#F5A623', stroke: '#D68910', text: 'white' },
-      'green': { fill: '#7ED321', stroke: '#5BA617', text: 'white' },
-      'red': { fill: '#D0021B', stroke: '#A00115', text: 'white' }
-    }
-    
-    const colors = baseColors[state.type] || baseColors.blue
-    const isOval = state.type === 'green' || state.type === 'red'
-    
-    return { colors, isOval }
-  }
-  
-  let svg = `
-    <svg class="dataflow-svg" viewBox="0 0 1300 1400" xmlns="http://www.w3.org/2000/svg">
-      <!-- Draw connections -->
-      ${connections.map(conn => {
-        const from = stateMap.get(conn.from)!
-        const to = stateMap.get(conn.to)!
-        
-        // Special case: better_time to dnc - point to top midpoint of DNC circle
-        if (conn.from === 'better_time' && conn.to === 'dnc') {
-          // better_time is a blue rectangle (300x80)
-          const fromWidth = 300
-          const fromHeight = 80
-          
-          // dnc is a red oval (120x60)
-          const toWidth = 120
-          const toHeight = 60
-          
-          // Start from 2/3 across on the right side of better_time
-          const startX = from.x + (fromWidth * 2/3)
-          const startY = from.y + (fromHeight / 2)
-          
-          // End at top midpoint of DNC circle
-          const endX = to.x + (toWidth / 2)
-          const endY = to.y
-          
-          // Label position at the middle of the line
-          const midX = (startX + endX) / 2
-          const midY = (startY + endY) / 2
-          
-          const labelWidth = conn.label.length * 7 + 16 // Approximate width based on text length
-          const labelHtml = conn.label ? `
-            <rect x="${midX - labelWidth / 2}" y="${midY - 12}" width="${labelWidth}" height="20" fill="white" opacity="0.95" rx="4" stroke="#ddd" stroke-width="1"/>
-            <text x="${midX}" y="${midY + 2}" class="connection-label" fill="#333" font-size="12" font-weight="500" text-anchor="middle" dominant-baseline="middle">${conn.label}</text>
-          ` : ''
-          
-          return `
-            <line x1="${startX}" y1="${startY}" x2="${endX}" y2="${endY}" 
-                  class="dataflow-connection" stroke="#666" stroke-width="2" marker-end="url(#arrowhead)"/>
-            ${labelHtml}
-          `
-        }
-        
-        // Special case: sms_followup to unknown - draw from middle left side to right side of Unknown circle
-        if (conn.from === 'sms_followup' && conn.to === 'unknown') {
-          // sms_followup is an orange rectangle (300x80)
-          const fromWidth = 300
-          const fromHeight = 80
-          
-          // unknown is a red oval (120x60)
-          const toWidth = 120
-          const toHeight = 60
-          
-          // Start from middle left side of sms_followup
-          const startX = from.x
-          const startY = from.y + (fromHeight / 2)
-          
-          // End at right side of Unknown circle
-          const endX = to.x + toWidth
-          const endY = to.y + (toHeight / 2)
-          
-          // Label position at the middle of the line
-          const midX = (startX + endX) / 2
-          const midY = (startY + endY) / 2
-          
-          const labelWidth = conn.label.length * 7 + 16
-          const labelHtml = conn.label ? `
-            <rect x="${midX - labelWidth / 2}" y="${midY - 12}" width="${labelWidth}" height="20" fill="white" opacity="0.95" rx="4" stroke="#ddd" stroke-width="1"/>
-            <text x="${midX}" y="${midY + 2}" class="connection-label" fill="#333" font-size="12" font-weight="500" text-anchor="middle" dominant-baseline="middle">${conn.label}</text>
-          ` : ''
-          
-          return `
-            <line x1="${startX}" y1="${startY}" x2="${endX}" y2="${endY}" 
-                  class="dataflow-connection" stroke="#666" stroke-width="2" marker-end="url(#arrowhead)"/>
-            ${labelHtml}
-          `
-        }
-        
-        // Special case: sms_followup to dnc - draw from middle right side to left side of DNC circle
-        if (conn.from === 'sms_followup' && conn.to === 'dnc') {
-          // sms_followup is an orange rectangle (300x80)
-          const fromWidth = 300
-          const fromHeight = 80
-          
-          // dnc is a red oval (120x60)
-          const toWidth = 120
-          const toHeight = 60
-          
-          // Start from middle right side of sms_followup
-          const startX = from.x + fromWidth
-          const startY = from.y + (fromHeight / 2)
-          
-          // End at left side of DNC circle
-          const endX = to.x
-          const endY = to.y + (toHeight / 2)
-          
-          // Label position at the middle of the line
-          const midX = (startX + endX) / 2
-          const midY = (startY + endY) / 2
-          
-          const labelWidth = conn.label.length * 7 + 16
-          const labelHtml = conn.label ? `
-            <rect x="${midX - labelWidth / 2}" y="${midY - 12}" width="${labelWidth}" height="20" fill="white" opacity="0.95" rx="4" stroke="#ddd" stroke-width="1"/>
-            <text x="${midX}" y="${midY + 2}" class="connection-label" fill="#333" font-size="12" font-weight="500" text-anchor="middle" dominant-baseline="middle">${conn.label}</text>
-          ` : ''
-          
-          return `
-            <line x1="${startX}" y1="${startY}" x2="${endX}" y2="${endY}" 
-                  class="dataflow-connection" stroke="#666" stroke-width="2" marker-end="url(#arrowhead)"/>
-            ${labelHtml}
-          `
-        }
-        
-        // Special case: better_time to followup_next_day - draw from top 1/5 of right side to top 1/5 of left side
-        if (conn.from === 'better_time' && conn.to === 'followup_next_day') {
-          // better_time is a blue rectangle (300x80)
-          const fromWidth = 300
-          const fromHeight = 80
-          
-          // followup_next_day is a blue rectangle (300x80)
-          const toWidth = 300
-          const toHeight = 80
-          
-          // Start from top 1/5 of right side of better_time
-          const startX = from.x + fromWidth
-          const startY = from.y + (fromHeight / 5)
-          
-          // End at top 1/5 of left side of followup_next_day
-          const endX = to.x
-          const endY = to.y + (toHeight / 5)
-          
-          // Label position at the middle of the line
-          const midX = (startX + endX) / 2
-          const midY = (startY + endY) / 2
-          
-          const labelWidth = conn.label.length * 7 + 16
-          const labelHtml = conn.label ? `
-            <rect x="${midX - labelWidth / 2}" y="${midY - 12}" width="${labelWidth}" height="20" fill="white" opacity="0.95" rx="4" stroke="#ddd" stroke-width="1"/>
-            <text x="${midX}" y="${midY + 2}" class="connection-label" fill="#333" font-size="12" font-weight="500" text-anchor="middle" dominant-baseline="middle">${conn.label}</text>
-          ` : ''
-          
-          return `
-            <line x1="${startX}" y1="${startY}" x2="${endX}" y2="${endY}" 
-                  class="dataflow-connection" stroke="#666" stroke-width="2" marker-end="url(#arrowhead)"/>
-            ${labelHtml}
-          `
-        }
-        
-        // Special case: followup_next_day to better_time - draw from bottom 1/5 to bottom 1/5 of right side
-        if (conn.from === 'followup_next_day' && conn.to === 'better_time') {
-          // followup_next_day is a blue rectangle (300x80)
-          const fromWidth = 300
-          const fromHeight = 80
-          
-          // better_time is a blue rectangle (300x80)
-          const toWidth = 300
-          const toHeight = 80
-          
-          // Start from bottom 1/5 of followup_next_day
-          const startX = from.x + (fromWidth / 2)
-          const startY = from.y + fromHeight - (fromHeight / 5)
-          
-          // End at bottom 1/5 of right side of better_time
-          const endX = to.x + toWidth
-          const endY = to.y + toHeight - (toHeight / 5)
-          
-          // Label position at the middle of the line, offset 75px to the left
-          const midX = (startX + endX) / 2 - 75
-          const midY = (startY + endY) / 2
-          
-          const labelWidth = conn.label.length * 7 + 16
-          const labelHtml = conn.label ? `
-            <rect x="${midX - labelWidth / 2}" y="${midY - 12}" width="${labelWidth}" height="20" fill="white" opacity="0.95" rx="4" stroke="#ddd" stroke-width="1"/>
-            <text x="${midX}" y="${midY + 2}" class="connection-label" fill="#333" font-size="12" font-weight="500" text-anchor="middle" dominant-baseline="middle">${conn.label}</text>
-          ` : ''
-          
-          return `
-            <line x1="${startX}" y1="${startY}" x2="${endX}" y2="${endY}" 
-                  class="dataflow-connection" stroke="#666" stroke-width="2" marker-end="url(#arrowhead)"/>
-            ${labelHtml}
-          `
-        }
-        
-        // Special case: followup_next_day self-loop for "No/No response"
-        if (conn.from === 'followup_next_day' && conn.to === 'followup_next_day') {
-          // followup_next_day is a blue rectangle (300x80)
-          const fromWidth = 300
-          const fromHeight = 80
-          
-          // Draw a smooth circular clockwise loop: start from right side middle, loop down in a circle, end at bottom middle
-          const startX = from.x + fromWidth
-          const startY = from.y + (fromHeight / 2)
-          const endX = from.x + (fromWidth / 2)
-          const endY = from.y + fromHeight
-          
-          // Create a smooth circular arc using a single cubic bezier curve
-          // The arc should go from right side middle, curve down and around in a circle, to bottom middle
-          const radius = 80 // Radius of the circular motion
-          
-          // Control points for a smooth circular arc
-          // These create a nice quarter-circle or larger arc
-          const control1X = from.x + fromWidth + radius * 0.5
-          const control1Y = from.y + fromHeight / 2 + radius * 0.3
-          const control2X = from.x + fromWidth / 2 + radius * 0.3
-          const control2Y = from.y + fromHeight + radius * 0.5
-          
-          // Calculate a point along the bezier curve for label positioning (at t=0.5, midpoint)
-          // Bezier curve formula: B(t) = (1-t)³P₀ + 3(1-t)²tP₁ + 3(1-t)t²P₂ + t³P₃
-          const t = 0.5 // Midpoint of the curve
-          const mt = 1 - t
-          const labelX = mt * mt * mt * startX + 3 * mt * mt * t * control1X + 3 * mt * t * t * control2X + t * t * t * endX
-          const labelY = mt * mt * mt * startY + 3 * mt * mt * t * control1Y + 3 * mt * t * t * control2Y + t * t * t * endY + 15
-          
-          const labelWidth = conn.label.length * 7 + 16
-          const labelHtml = conn.label ? `
-            <rect x="${labelX - labelWidth / 2}" y="${labelY - 12}" width="${labelWidth}" height="20" fill="white" opacity="0.95" rx="4" stroke="#ddd" stroke-width="1"/>
-            <text x="${labelX}" y="${labelY + 2}" class="connection-label" fill="#333" font-size="12" font-weight="500" text-anchor="middle" dominant-baseline="middle">${conn.label}</text>
-          ` : ''
-          
-          return `
-            <path d="M ${startX} ${startY} 
-                     C ${control1X} ${control1Y}, ${control2X} ${control2Y}, ${endX} ${endY}" 
-                  class="dataflow-connection" stroke="#666" stroke-width="2" fill="none" marker-end="url(#arrowhead)"/>
-            ${labelHtml}
-          `
-        }
-        
-        // Special case: better_time to schedule_call - draw from bottom with 90 degree bend
-        if (conn.from === 'better_time' && conn.to === 'schedule_call') {
-          const fromIsOval = from.type === 'green' || from.type === 'red'
-          const toIsOval = to.type === 'green' || to.type === 'red'
-          
-          const fromWidth = fromIsOval ? 120 : 300
-          const fromHeight = fromIsOval ? 60 : 80
-          const toWidth = toIsOval ? 120 : 300
-          const toHeight = toIsOval ? 60 : 80
-          
-          // Start from bottom center of better_time
-          const startX = from.x + (fromWidth / 2)
-          const startY = from.y + fromHeight
-          
-          // Go down a bit, then bend left (since schedule_call is to the left)
-          const bendY = startY + 50 // Distance down before bend
-          const bendX = to.x + (toWidth / 2) // X position at center of schedule_call
-          
-          // End at bottom center of schedule_call circle
-          const endX = to.x + (toWidth / 2)
-          const endY = to.y + toHeight
-          
-          // Label position at the horizontal segment
-          const labelX = (startX + bendX) / 2
-          const labelY = bendY
-          
-          const labelWidth = conn.label.length * 7 + 16 // Approximate width based on text length
-          const labelHtml = conn.label ? `
-            <rect x="${labelX - labelWidth / 2}" y="${labelY - 12}" width="${labelWidth}" height="20" fill="white" opacity="0.95" rx="4" stroke="#ddd" stroke-width="1"/>
-            <text x="${labelX}" y="${labelY + 2}" class="connection-label" fill="#333" font-size="12" font-weight="500" text-anchor="middle" dominant-baseline="middle">${conn.label}</text>
-          ` : ''
-          
-          return `
-            <path d="M ${startX} ${startY} L ${startX} ${bendY} L ${bendX} ${bendY} L ${endX} ${endY}" 
-                  class="dataflow-connection" stroke="#666" stroke-width="2" fill="none" marker-end="url(#arrowhead)"/>
-            ${labelHtml}
-          `
-        }
-        
-        // Default connection drawing
-        const dx = to.x - from.x
-        const dy = to.y - from.y
-        const angle = Math.atan2(dy, dx)
-        
-        // Calculate connection points based on node type
-        const fromIsOval = from.type === 'green' || from.type === 'red'
-        const toIsOval = to.type === 'green' || to.type === 'red'
-        
-        const fromWidth = fromIsOval ? 120 : 300
-        const fromHeight = fromIsOval ? 60 : 80
-        const toWidth = toIsOval ? 120 : 300
-        const toHeight = toIsOval ? 60 : 80
-        
-        const startX = from.x + (fromWidth / 2) + Math.cos(angle) * (fromIsOval ? 60 : 150)
-        const startY = from.y + (fromHeight / 2) + Math.sin(angle) * (fromIsOval ? 30 : 40)
-        const endX = to.x + (toWidth / 2) - Math.cos(angle) * (toIsOval ? 60 : 150)
-        const endY = to.y + (toHeight / 2) - Math.sin(angle) * (toIsOval ? 30 : 40)
-        
-        const midX = (startX + endX) / 2
-        const midY = (startY + endY) / 2
-        
-        // Only show label if it's not empty
-        const labelWidth = conn.label ? conn.label.length * 7 + 16 : 0 // Approximate width based on text length
-        const labelHtml = conn.label ? `
-          <rect x="${midX - labelWidth / 2}" y="${midY - 12}" width="${labelWidth}" height="20" fill="white" opacity="0.95" rx="4" stroke="#ddd" stroke-width="1"/>
-          <text x="${midX}" y="${midY + 2}" class="connection-label" fill="#333" font-size="12" font-weight="500" text-anchor="middle" dominant-baseline="middle">${conn.label}</text>
-        ` : ''
-        
-        return `
-          <line x1="${startX}" y1="${startY}" x2="${endX}" y2="${endY}" 
-                class="dataflow-connection" stroke="#666" stroke-width="2" marker-end="url(#arrowhead)"/>
-          ${labelHtml}
-        `
-      }).join('')}
-      
-      <!-- Draw states -->
-      ${states.map(state => {
-        const isActive = activeStateId === state.id
-        const { colors, isOval } = getNodeStyle(state, isActive)
-        const width = (state as { width?: number }).width ?? (isOval ? 120 : 300)
-        const fontSize = isOval ? 18 : 16
-        
-        // Wrap text for rectangular nodes
-        const textLines = isOval ? [state.label] : wrapText(state.label, width - 20, fontSize)
-        const lineHeight = fontSize + 4
-        const minHeight = isOval ? 60 : 80
-        const textHeight = textLines.length * lineHeight
-        const height = (state as { height?: number }).height ?? Math.max(minHeight, textHeight + 20) // Add padding (use fixed height when set to keep box size)
-        const rx = isOval ? 60 : 10
-        
-        const textStartY = state.y + (height / 2) - (textHeight / 2) + fontSize - 6
-        
-        return `
-          <g class="state-group ${isActive ? 'active' : ''}" data-state-id="${state.id}" style="cursor: pointer;">
-            ${isOval ? `
-              <ellipse cx="${state.x + width/2}" cy="${state.y + height/2}" rx="${width/2}" ry="${height/2}" 
-                      class="state-box" fill="${isActive ? colors.fill : (state.type === 'green' ? '#E8F5E9' : state.type === 'red' ? '#FFEBEE' : colors.fill)}" 
-                      stroke="${isActive ? colors.stroke : '#ccc'}" stroke-width="${isActive ? '3' : '2'}"/>
-            ` : `
-              <rect x="${state.x}" y="${state.y}" width="${width}" height="${height}" 
-                    rx="${rx}" class="state-box" fill="${isActive ? colors.fill : (state.type === 'blue' ? '#E3F2FD' : '#FFF3E0')}" 
-                    stroke="${isActive ? colors.stroke : '#ccc'}" stroke-width="${isActive ? '3' : '2'}"/>
-            `}
-            ${textLines.map((line, index) => `
-              <text x="${state.x + width/2}" y="${textStartY + (index * lineHeight)}" 
-                    class="state-label" fill="${isActive ? colors.text : (state.type === 'blue' ? '#1976D2' : state.type === 'orange' ? '#E65100' : '#333')}" 
-                    font-size="${fontSize}" font-weight="${isActive ? '600' : '500'}" 
-                    text-anchor="middle" dominant-baseline="middle">${line}</text>
-            `).join('')}
-          </g>
-        `
-      }).join('')}
-      
-      <!-- Arrow marker definition -->
-      <defs>
-        <marker id="arrowhead" markerWidth="12" markerHeight="12" refX="11" refY="4" orient="auto">
-          <polygon points="0 0, 12 4, 0 8" fill="#666" />
-        </marker>
-      </defs>
-    </svg>
-  `
-  
-  diagram.innerHTML = svg
+  const activeNodeId = conversation.getCurrentStep()?.node ?? ''
+  diagram.innerHTML = renderWorkflowDiagram(workflow, conversation.getContext(), activeNodeId, lintWorkflow(workflow, conversation.getContext()))
   
   // Add zoom controls to the dataflow container (outside scrollable area)
   const dataflowContainer = document.querySelector('.dataflow-container')
@@ -2372,377 +2095,96 @@ function renderDataflow() {
   setupStateClickHandlers()
 }
 
-// Set up click handlers for confirm visit state boxes
-function setupConfirmVisitStateClickHandlers() {
-  const diagramToConversationState: Record<string, ConversationState> = {
-    'cv_initial_sms': 'confirm_visit_initial',
-    'cv_confirm_appointment': 'confirm_visit_confirmed',
-    'cv_reschedule_appointment': 'confirm_visit_reschedule_question',
-    'cv_reschedule_question': 'confirm_visit_reschedule_waiting',
-    'cv_cancel_appointment': 'confirm_visit_cancelled',
-    'cv_cancel_dnc': 'confirm_visit_dnc',
-    'cv_unknown': 'unknown'
-  }
-  
-  const stateGroups = document.querySelectorAll('.state-group')
-  stateGroups.forEach(group => {
-    group.addEventListener('click', (e) => {
-      e.stopPropagation()
-      const stateId = (group as HTMLElement).dataset.stateId
-      if (stateId && diagramToConversationState[stateId]) {
-        const newState = diagramToConversationState[stateId]
-        currentState = newState
-        updatePhoneUIForConfirmVisit(newState)
-        updateDataflow()
-      }
-    })
-  })
-}
-
-// Update phone UI for confirm visit workflow
-function updatePhoneUIForConfirmVisit(state: ConversationState) {
-  messages.length = 0
-  const container = document.getElementById('messagesContainer')
-  if (container) {
-    container.innerHTML = ''
-  }
-  
-  hideCallingNotification()
-  hideCallScreen()
-  hideKeypad()
-  hideContacts()
-  const modal = document.getElementById('dateTimeModal')
-  if (modal) {
-    modal.style.display = 'none'
-  }
-  clearInputArea()
-  
-  const fName = 'John'
-  const appointmentDate = new Date()
-  appointmentDate.setDate(appointmentDate.getDate() + 1)
-  const dateTime = appointmentDate.toLocaleString('en-US', { 
-    weekday: 'long', 
-    year: 'numeric', 
-    month: 'long', 
-    day: 'numeric',
-    hour: 'numeric',
-    minute: '2-digit',
-    hour12: true
-  })
-  const address = '123 Main Street, Anytown, ST 12345'
-  
-  switch (state) {
-    case 'confirm_visit_initial':
-    case 'confirm_visit_waiting':
-      const initialMessage = `Hey ${fName}, you have a consultation scheduled for ${dateTime} at ${address}. A certified technician will be arriving. Will you be available for this appointment?`
-      setTimeout(() => {
-        const options = ['Yes', 'No', 'Cancel Appointment', 'DNC', 'Unknown message']
-        addMessage('bot', initialMessage, options)
-      }, 500)
-      break
-      
-    case 'confirm_visit_confirmed':
-      const confirmMessage = `Hey ${fName}, you have a consultation scheduled for ${dateTime} at ${address}. A certified technician will be arriving. Will you be available for this appointment?`
-      setTimeout(() => {
-        addMessage('bot', confirmMessage)
-        setTimeout(() => {
-          addMessage('user', 'Yes')
-          setTimeout(() => {
-            addMessage('bot', 'Great! We will see you then.')
-          }, 500)
-        }, 500)
-      }, 500)
-      break
-      
-    case 'confirm_visit_reschedule_question':
-    case 'confirm_visit_reschedule_waiting':
-      const rescheduleMessage = `Hey ${fName}, you have a consultation scheduled for ${dateTime} at ${address}. A certified technician will be arriving. Will you be available for this appointment?`
-      setTimeout(() => {
-        addMessage('bot', rescheduleMessage)
-        setTimeout(() => {
-          addMessage('user', 'No')
-          setTimeout(() => {
-            const options = ['Yes', 'No']
-            addMessage('bot', 'Is there a better time we could reschedule the appointment for?', options)
-          }, 500)
-        }, 500)
-      }, 500)
-      break
-      
-    case 'confirm_visit_reschedule_selecting_time':
-      const rescheduleSelectingMessage = `Hey ${fName}, you have a consultation scheduled for ${dateTime} at ${address}. A certified technician will be arriving. Will you be available for this appointment?`
-      setTimeout(() => {
-        addMessage('bot', rescheduleSelectingMessage)
-        setTimeout(() => {
-          addMessage('user', 'No')
-          setTimeout(() => {
-            const options = ['Yes', 'No']
-            addMessage('bot', 'Is there a better time we could reschedule the appointment for?', options)
-            setTimeout(() => {
-              addMessage('user', 'Yes')
-              setTimeout(() => {
-                showConfirmVisitRescheduleDateTimePicker()
-              }, 500)
-            }, 500)
-          }, 500)
-        }, 500)
-      }, 500)
-      break
-      
-    case 'confirm_visit_cancelled':
-      const cancelMessage = `Hey ${fName}, you have a consultation scheduled for ${dateTime} at ${address}. A certified technician will be arriving. Will you be available for this appointment?`
-      setTimeout(() => {
-        addMessage('bot', cancelMessage)
-        setTimeout(() => {
-          addMessage('user', 'Cancel Appointment')
-          setTimeout(() => {
-            addMessage('bot', 'Is there a better time we could reschedule the appointment for?')
-            setTimeout(() => {
-              addMessage('user', 'No')
-              setTimeout(() => {
-                addMessage('bot', 'Your appointment has been canceled, please reach out if you would like to reschedule.')
-              }, 500)
-            }, 500)
-          }, 500)
-        }, 500)
-      }, 500)
-      break
-      
-    case 'confirm_visit_dnc':
-      const dncMessage = `Hey ${fName}, you have a consultation scheduled for ${dateTime} at ${address}. A certified technician will be arriving. Will you be available for this appointment?`
-      setTimeout(() => {
-        addMessage('bot', dncMessage)
-        setTimeout(() => {
-          addMessage('user', 'DNC')
-          setTimeout(() => {
-            addMessage('bot', 'Your appointment has been canceled and you will no longer receive notifications from this number.')
-          }, 500)
-        }, 500)
-      }, 500)
-      break
-      
-    case 'unknown':
-      const unknownMessage = `Hey ${fName}, you have a consultation scheduled for ${dateTime} at ${address}. A certified technician will be arriving. Will you be available for this appointment?`
-      setTimeout(() => {
-        addMessage('bot', unknownMessage)
-        setTimeout(() => {
-          addMessage('user', 'Unknown message')
-          setTimeout(() => {
-            addMessage('bot', 'Unknown message received, transferring to messaging agent.')
-          }, 500)
-        }, 500)
-      }, 500)
-      break
-  }
-}
-
-// Function to update phone UI based on conversation state
-function updatePhoneUIForState(state: ConversationState) {
-  // If confirm visit workflow, use the confirm visit UI handler
-  if (selectedWorkflow === 'confirm visit') {
-    updatePhoneUIForConfirmVisit(state)
-    return
-  }
+// Summary of the answers collected so far, for workflows that record answers (e.g. surveys)
+function renderAnswersSummary(workflow: WorkflowDefinition | undefined) {
+  const dataflowContainer = document.querySelector('.dataflow-container')
+  let summary = document.getElementById('answersSummary')
   
-  // If product question workflow, use the product question UI handler
-  if (selectedWorkflow === 'product question') {
-    updatePhoneUIForProductQuestion(state)
+  if (!workflow?.answers) {
+    summary?.remove()
     return
   }
   
-  // Clear messages
-  messages.length = 0
-  const container = document.getElementById('messagesContainer')
-  if (container) {
-    container.innerHTML = ''
-  }
-  
-  // Hide all overlays and modals
-  hideCallingNotification()
-  hideCallScreen()
-  hideKeypad()
-  hideContacts()
-  const modal = document.getElementById('dateTimeModal')
-  if (modal) {
-    modal.style.display = 'none'
+  if (!summary && dataflowContainer) {
+    summary = document.createElement('div')
+    summary.className = 'answers-summary'
+    summary.id = 'answersSummary'
+    dataflowContainer.appendChild(summary)
   }
-  clearInputArea()
+  if (!summary) return
   
-  // Update based on state (version B omits "We received your interest form!" message)
-  switch (state) {
-    case 'initial':
-      if (selectedVersion === 'A') {
-        addMessage('bot', 'We received your interest form! We are calling now.')
-      }
-      break
-      
-    case 'calling':
-      if (selectedVersion === 'A') {
-        addMessage('bot', 'We received your interest form! We are calling now.')
-      }
-      showCallingNotification()
-      break
-      
-    case 'call_accepted':
-      if (selectedVersion === 'A') {
-        addMessage('bot', 'We received your interest form! We are calling now.')
-      }
-      setTimeout(() => {
-        showCallScreen()
-      }, 500)
-      break
-      
-    case 'call_declined':
-      if (selectedVersion === 'A') {
-        addMessage('bot', 'We received your interest form! We are calling now.')
-      }
-      setTimeout(() => {
-        const options = ['Yes', 'Call at a different time', 'No', '24 hours later (No response)', 'Do not contact', 'Unknown message']
-        addMessage('bot', 'Hello, we just called to reach out about our product! Would you like us to call you back?', options)
-      }, 500)
-      break
-      
-    case 'asking_if_wants_call':
-      if (selectedVersion === 'A') {
-        addMessage('bot', 'We received your interest form! We are calling now.')
-      }
-      setTimeout(() => {
-        const options = ['Yes', 'Call at a different time', 'No', '24 hours later (No response)', 'Do not contact', 'Unknown message']
-        addMessage('bot', 'Hello, we just called to reach out about our product! Would you like us to call you back?', options)
-      }, 500)
-      break
-      
-    case 'waiting_for_response':
-      if (selectedVersion === 'A') {
-        addMessage('bot', 'We received your interest form! We are calling now.')
-      }
-      setTimeout(() => {
-        const options = ['Yes', 'Call at a different time', 'No', '24 hours later (No response)', 'Do not contact', 'Unknown message']
-        addMessage('bot', 'Hello, we just called to reach out about our product! Would you like us to call you back?', options)
-      }, 500)
-      break
-      
-    case 'followup_next_day':
-      // Show the 24-hour follow-up message
-      addMessage('bot', 'Hello, we called yesterday to reach out about our product! Would you like to schedule a time for us to call you?')
-      setTimeout(() => {
-        const options = ['Yes', 'No'] // "No" will loop back after 24 hours
-        addMessage('bot', '', options)
-      }, 500)
-      break
-      
-    case 'scheduling_time':
-    case 'time_scheduled':
-      if (selectedVersion === 'A') {
-        addMessage('bot', 'We received your interest form! We are calling now.')
-      }
-      setTimeout(() => {
-        addMessage('bot', 'Hello, we just called to reach out about our product! Would you like us to call you back?')
-        setTimeout(() => {
-          addMessage('user', 'Call at a different time')
-          setTimeout(() => {
-            if (scheduledDateTime) {
-              const formattedDate = scheduledDateTime.toLocaleDateString('en-US', { 
-                weekday: 'long', 
-                year: 'numeric', 
-                month: 'long', 
-                day: 'numeric' 
-              })
-              const formattedTime = scheduledDateTime.toLocaleTimeString('en-US', { 
-                hour: 'numeric', 
-                minute: '2-digit',
-                hour12: true 
-              })
-              addMessage('bot', `We will call you again on ${formattedDate} at ${formattedTime}.`)
-            } else {
-              showDateTimePicker()
-            }
-          }, 500)
-        }, 500)
-      }, 500)
-      break
-      
-    case 'asking_better_time':
-    case 'asking_after_cancel':
-      if (selectedVersion === 'A') {
-        addMessage('bot', 'We received your interest form! We are calling now.')
-      }
-      setTimeout(() => {
-        addMessage('bot', 'Hello, we just called to reach out about our product! Would you like us to call you back?')
-        setTimeout(() => {
-          addMessage('user', 'No')
-          setTimeout(() => {
-            const options = ['Yes', 'No']
-            addMessage('bot', 'Is there a better time that we can call you?', options)
-          }, 500)
-        }, 500)
-      }, 500)
-      break
-      
-    case 'unknown':
-      if (selectedVersion === 'A') {
-        addMessage('bot', 'We received your interest form! We are calling now.')
-      }
-      setTimeout(() => {
-        addMessage('bot', 'Hello, we just called to reach out about our product! Would you like us to call you back?')
-        setTimeout(() => {
-          addMessage('user', 'Unknown message')
-          setTimeout(() => {
-            addMessage('bot', 'Unknown message received, transferring to messaging agent.')
-          }, 500)
-        }, 500)
-      }, 500)
-      break
-      
-    case 'ended':
-      if (selectedVersion === 'A') {
-        addMessage('bot', 'We received your interest form! We are calling now.')
-      }
-      setTimeout(() => {
-        addMessage('bot', 'Have a nice day!')
-      }, 500)
-      break
+  summary.innerHTML = `
+    <div class="answers-summary-title">Collected answers</div>
+    ${workflow.answers.map(({ key, label }) => `
+      <div class="answers-summary-row">
+        <span class="answers-summary-label">${label}</span>
+        <span class="answers-summary-value">${escapeHtml(conversation.getState().answers[key] ?? '—')}</span>
+      </div>
+    `).join('')}
+  `
+}
+
+// The lead's consent checks and whether they let the conversation text and call, for workflows that require consent
+function renderConsentPanel(workflow: WorkflowDefinition | undefined) {
+  const dataflowContainer = document.querySelector('.dataflow-container')
+  let panel = document.getElementById('consentPanel')
+
+  if (!workflow?.requiresConsent) {
+    panel?.remove()
+    return
   }
+
+  if (!panel && dataflowContainer) {
+    panel = document.createElement('div')
+    panel.className = 'answers-summary consent-panel'
+    panel.id = 'consentPanel'
+    dataflowContainer.appendChild(panel)
+  }
+  if (!panel) return
+
+  const { lead } = conversation.getContext()
+  const verdict = checkConsent(lead.consent, conversation.now())
+  const channels = getConsentedChannels(lead.consent, conversation.now())
+  const allowedContact = channels.length === 2 ? 'texts and calls' : channels.includes('sms') ? 'texts only' : 'calls only'
+  const { currentState } = conversation.getState()
+  const outcome = currentState === 'consent_missing'
+    ? 'Conversation refused: nothing was sent'
+    : currentState === 'initial' ? '' : `Conversation allowed: ${allowedContact}`
+  panel.innerHTML = `
+    <div class="answers-summary-title">Consent</div>
+    <select class="consent-lead-select" id="consentLeadSelect" title="Simulated lead">
+      ${simulatedLeads.map(({ id, label }) => `<option value="${id}" ${id === selectedLeadId ? 'selected' : ''}>${label}</option>`).join('')}
+    </select>
+    ${verdict.checks.map(check => `
+      <div class="answers-summary-row">
+        <span class="answers-summary-label">${check.passed ? '✓' : '✕'} ${check.label}</span>
+        <span class="answers-summary-value ${check.passed ? '' : 'consent-failed'}">${check.detail}</span>
+      </div>
+    `).join('')}
+    <div class="consent-verdict ${channels.length ? 'allowed' : 'refused'}">
+      ${verdict.allowed ? 'Consent is valid for texts and calls' : channels.length ? `Consent is valid for ${allowedContact}` : 'Consent does not allow texts and calls'}
+      ${outcome ? `<div class="consent-outcome">${outcome}</div>` : ''}
+    </div>
+  `
+  document.getElementById('consentLeadSelect')?.addEventListener('change', (e) => {
+    selectedLeadId = (e.target as HTMLSelectElement).value
+    const selected = simulatedLeads.find(({ id }) => id === selectedLeadId)
+    if (selected) {
+      conversation.configure({ lead: selected.lead })
+      resetConversation()
+    }
+  })
 }
 
 // Set up click handlers for state boxes in the dataflow diagram
 function setupStateClickHandlers() {
-  // Reverse mapping from diagram state IDs to conversation states (for webform)
-  const diagramToConversationState: Record<string, ConversationState> = {
-    'webform_received': 'initial',
-    'sms_initial': 'calling', // Show the initial SMS and calling state
-    'outbound_call': 'calling',
-    'does_answer': 'call_accepted',
-    'lead_no_answer': 'call_declined',
-    'sms_followup': 'waiting_for_response',
-    'redial_lead': 'calling', // Show calling state
-    'schedule_call': 'scheduling_time',
-    'better_time': 'asking_better_time',
-    'followup_next_day': 'followup_next_day', // Show the 24-hour follow-up message with options
-    'unknown': 'unknown',
-    'dnc': 'ended'
-  }
-  
-  // Add click listeners to all state groups
   const stateGroups = document.querySelectorAll('.state-group')
   stateGroups.forEach(group => {
     group.addEventListener('click', (e) => {
       e.stopPropagation() // Prevent triggering pan
-      const stateId = (group as HTMLElement).dataset.stateId
-      if (stateId && diagramToConversationState[stateId]) {
-        const newState = diagramToConversationState[stateId]
-        currentState = newState
-        
-        // Set flag if clicking on followup_next_day
-        if (stateId === 'followup_next_day') {
-          isAfter24HourFollowup = true
-        } else {
-          // Reset flag for other states
-          isAfter24HourFollowup = false
-        }
-        
-        updatePhoneUIForState(newState)
-        updateDataflow() // Update diagram to show new active state
+      const nodeId = (group as HTMLElement).dataset.stateId
+      if (nodeId) {
+        conversation.jumpToNode(nodeId)
       }
     })
   })
@@ -2982,964 +2424,133 @@ function updateDataflow() {
   renderDataflow()
 }
 
-// Render product question dataflow (similar structure to webform)
-function renderConfirmVisitDataflow(diagram: HTMLElement) {
-  // Based on the flowchart: Orange rectangles (SMS), Green ovals (success/confirm), Red ovals (cancel/DNC)
-  const states = [
-    { id: 'cv_customer_visit', label: 'Customer visit within 24 hours', type: 'blue', x: 400, y: -130, width: 500 },
-    { id: 'cv_initial_sms', label: "Hey {fName}, you have a consultation scheduled for {date time} at {address}. A certified technician will be arriving. Will you be available for this appointment?", type: 'orange', x: 400, y: 50, width: 500 },
-    { id: 'cv_confirm_appointment', label: 'Confirm Appointment', type: 'green', x: 710, y: 250, width: 150 },
-    { id: 'cv_reschedule_appointment', label: 'Reschedule Appointment', type: 'green', x: 425, y: 250, width: 150 },
-    { id: 'cv_reschedule_question', label: 'Is there a better time we could reschedule the appointment for?', type: 'blue', x: 500, y: 600 },
-    { id: 'cv_cancel_appointment', label: 'Cancel Appointment', type: 'red', x: 900, y: 610, width: 150 },
-    { id: 'cv_cancel_dnc', label: 'Cancel Appointment\nAdd to DNC List', type: 'red', x: 1056, y: 54, width: 160 },
-    { id: 'cv_unknown', label: 'Unknown', type: 'red', x: 127, y: 73 }
-  ]
-  
-  const connections = [
-    { from: 'cv_customer_visit', to: 'cv_initial_sms', label: '' },
-    { from: 'cv_initial_sms', to: 'cv_confirm_appointment', label: 'Yes' },
-    { from: 'cv_initial_sms', to: 'cv_reschedule_appointment', label: 'No' },
-    { from: 'cv_initial_sms', to: 'cv_reschedule_question', label: 'Cancel Appointment' },
-    { from: 'cv_initial_sms', to: 'cv_cancel_dnc', label: 'DNC' },
-    { from: 'cv_initial_sms', to: 'cv_unknown', label: 'Unknown' },
-    { from: 'cv_reschedule_appointment', to: 'cv_reschedule_question', label: '' },
-    { from: 'cv_reschedule_question', to: 'cv_confirm_appointment', label: 'Yes' },
-    { from: 'cv_reschedule_question', to: 'cv_cancel_appointment', label: 'No' }
-  ]
-  
-  // Map current state to diagram state for confirm visit
-  const stateMapping: Record<ConversationState, string> = {
-    'confirm_visit_initial': 'cv_initial_sms',
-    'confirm_visit_waiting': 'cv_initial_sms',
-    'confirm_visit_confirmed': 'cv_confirm_appointment',
-    'confirm_visit_reschedule_question': 'cv_reschedule_question',
-    'confirm_visit_reschedule_waiting': 'cv_reschedule_question',
-    'confirm_visit_reschedule_selecting_time': 'cv_reschedule_question',
-    'confirm_visit_cancelled': 'cv_cancel_appointment',
-    'confirm_visit_dnc': 'cv_cancel_dnc',
-    'unknown': 'cv_unknown',
-    // Default mappings for other states (shouldn't occur in confirm visit workflow)
-    'initial': 'cv_initial_sms',
-    'calling': 'cv_initial_sms',
-    'call_accepted': 'cv_initial_sms',
-    'call_declined': 'cv_initial_sms',
-    'asking_if_wants_call': 'cv_initial_sms',
-    'waiting_for_response': 'cv_initial_sms',
-    'scheduling_time': 'cv_initial_sms',
-    'time_scheduled': 'cv_initial_sms',
-    'asking_better_time': 'cv_initial_sms',
-    'asking_after_cancel': 'cv_initial_sms',
-    'followup_next_day': 'cv_initial_sms',
-    'ended': 'cv_cancel_appointment'
-  }
-  
-  const activeStateId = stateMapping[currentState] || 'cv_initial_sms'
-  
-  const stateMap = new Map(states.map(s => [s.id, s]))
-  
-  // Helper function to wrap text
-  const wrapText = (text: string, maxWidth: number, fontSize: number): string[] => {
-    const words = text.split(' ')
-    const lines: string[] = []
-    let currentLine = ''
-    
-    words.forEach(word => {
-      const testLine = currentLine ? `${currentLine} ${word}` : word
-      const testWidth = testLine.length * fontSize * 0.6
-      
-      if (testWidth > maxWidth && currentLine) {
-        lines.push(currentLine)
-        currentLine = word
-      } else {
-        currentLine = testLine
-      }
-    })
-    
-    if (currentLine) {
-      lines.push(currentLine)
-    }
-    
-    return lines.length > 0 ? lines : [text]
-  }
-  
-  // Get colors and shapes based on type
-  const getNodeStyle = (state: typeof states[0], isActive: boolean) => {
-    const baseColors: Record<string, { fill: string, stroke: string, text: string }> = {
-      'blue': { fill: '#4A90E2', stroke: '#357ABD', text: 'white' },
-      'orange': { fill: '#F5A623', stroke: '#D68910', text: 'white' },
-      'green': { fill: '#7ED321', stroke: '#5BA617', text: 'white' },
-      'red': { fill: '#D0021B', stroke: '#A00115', text: 'white' }
-    }
-    
-    const colors = baseColors[state.type] || baseColors.blue
-    const isOval = state.type === 'green' || state.type === 'red'
-    
-    return { colors, isOval }
-  }
-  
-  // Render SVG
-  let svg = `
-    <svg class="dataflow-svg" viewBox="0 0 1300 800" xmlns="http://www.w3.org/2000/svg">
-      <!-- Draw connections -->
-      ${connections.map(conn => {
-        const from = stateMap.get(conn.from)!
-        const to = stateMap.get(conn.to)!
-        
-        const dx = to.x - from.x
-        const dy = to.y - from.y
-        const angle = Math.atan2(dy, dx)
-        
-        const fromIsOval = from.type === 'green' || from.type === 'red'
-        const toIsOval = to.type === 'green' || to.type === 'red'
-        
-        const fromWidth = (from as any).width || (fromIsOval ? 120 : 300)
-        const fromHeight = fromIsOval ? 60 : 80
-        const toWidth = toIsOval ? 120 : 300
-        const toHeight = toIsOval ? 60 : 80
-        
-        // Special handling for connection from customer visit to initial SMS
-        if (conn.from === 'cv_customer_visit' && conn.to === 'cv_initial_sms') {
-          // From bottom center of blue box to top of orange box, 100px to the right of center
-          const startX = from.x + (fromWidth / 2)
-          const startY = from.y + fromHeight
-          const endX = to.x + (toWidth / 2) + 100
-          const endY = to.y
-          
-          const midX = (startX + endX) / 2
-          const midY = (startY + endY) / 2
-          
-          const labelWidth = conn.label ? conn.label.length * 7 + 16 : 0
-          const labelHtml = conn.label ? `
-            <rect x="${midX - labelWidth / 2}" y="${midY - 12}" width="${labelWidth}" height="20" fill="white" opacity="0.95" rx="4" stroke="#ddd" stroke-width="1"/>
-            <text x="${midX}" y="${midY + 2}" class="connection-label" fill="#333" font-size="12" font-weight="500" text-anchor="middle" dominant-baseline="middle">${conn.label}</text>
-          ` : ''
-          
-          return `
-            <line x1="${startX}" y1="${startY}" x2="${endX}" y2="${endY}" 
-                  class="dataflow-connection" stroke="#666" stroke-width="2" marker-end="url(#arrowhead)"/>
-            ${labelHtml}
-          `
-        }
-        
-        // Special handling for connections from initial SMS
-        if (conn.from === 'cv_initial_sms') {
-          let startX, startY
-          if (conn.to === 'cv_confirm_appointment') {
-            // Yes - bottom at 4/5 from left, moved 5px left
-            startX = from.x + (fromWidth * 4 / 5) - 5
-            startY = from.y + fromHeight
-          } else if (conn.to === 'cv_reschedule_appointment') {
-            // No - bottom at 1/5 from left (mirror of Yes)
-            startX = from.x + (fromWidth / 5)
-            startY = from.y + fromHeight
-          } else if (conn.to === 'cv_reschedule_question') {
-            // Cancel Appointment - goes to reschedule question (middle bottom)
-            startX = from.x + (fromWidth / 2)
-            startY = from.y + fromHeight
-          } else if (conn.to === 'cv_cancel_dnc') {
-            // DNC - middle right, horizontally to the right, moved down 10px (mirror of Unknown)
-            startX = from.x + fromWidth
-            startY = from.y + (fromHeight / 2) + 10
-          } else if (conn.to === 'cv_unknown') {
-            // Unknown - middle left, horizontally to the left, moved down 10px
-            startX = from.x
-            startY = from.y + (fromHeight / 2) + 10
-          } else {
-            startX = from.x + (fromWidth / 2) + Math.cos(angle) * (fromIsOval ? 60 : 150)
-            startY = from.y + (fromHeight / 2) + Math.sin(angle) * (fromIsOval ? 30 : 40)
-          }
-          
-          // Special handling for end point of Unknown, DNC, Confirm Appointment, and Reschedule Question connections
-          let endX, endY
-          if (conn.to === 'cv_reschedule_question') {
-            // Cancel Appointment - end at top middle of blue box
-            endX = to.x + (toWidth / 2)  // Center X of box
-            endY = to.y  // Top of box
-          } else if (conn.to === 'cv_confirm_appointment') {
-            // Yes - end at top middle of ellipse, 22px to the right
-            endX = to.x + (toWidth / 2) + 22  // Center X of ellipse + 22px
-            endY = to.y  // Top of ellipse
-          } else if (conn.to === 'cv_reschedule_appointment') {
-            // No - end at top middle of ellipse, 12px to the right
-            endX = to.x + (toWidth / 2) + 12  // Center X of ellipse + 12px
-            endY = to.y  // Top of ellipse
-          } else if (conn.to === 'cv_unknown') {
-            // Unknown - end at right edge of ellipse
-            endX = to.x + toWidth  // Right edge of ellipse (to.x + toWidth/2 + toWidth/2)
-            endY = startY  // Keep same Y to ensure horizontal alignment
-          } else if (conn.to === 'cv_cancel_dnc') {
-            // DNC - end at left edge of ellipse (mirror of Unknown)
-            endX = to.x  // Left edge of ellipse
-            endY = startY  // Keep same Y to ensure horizontal alignment
-          } else {
-            const toRadiusX = toIsOval ? (toWidth / 2) : 150
-            const toRadiusY = toIsOval ? (toHeight / 2) : 40
-            endX = to.x + (toWidth / 2) - Math.cos(angle) * toRadiusX
-            endY = to.y + (toHeight / 2) - Math.sin(angle) * toRadiusY
-          }
-          
-          const midX = (startX + endX) / 2
-          const midY = (startY + endY) / 2
-          
-          const labelWidth = conn.label ? conn.label.length * 7 + 16 : 0
-          const labelHtml = conn.label ? `
-            <rect x="${midX - labelWidth / 2}" y="${midY - 12}" width="${labelWidth}" height="20" fill="white" opacity="0.95" rx="4" stroke="#ddd" stroke-width="1"/>
-            <text x="${midX}" y="${midY + 2}" class="connection-label" fill="#333" font-size="12" font-weight="500" text-anchor="middle" dominant-baseline="middle">${conn.label}</text>
-          ` : ''
-          
-          return `
-            <line x1="${startX}" y1="${startY}" x2="${endX}" y2="${endY}" 
-                  class="dataflow-connection" stroke="#666" stroke-width="2" marker-end="url(#arrowhead)"/>
-            ${labelHtml}
-          `
-        }
-        
-        // Special handling for connection from reschedule question to confirm appointment
-        if (conn.from === 'cv_reschedule_question' && conn.to === 'cv_confirm_appointment') {
-          // Start from bottom of reschedule question box
-          const fromWidthDefault = (from as any).width || (fromIsOval ? 120 : 300)
-          const startX = from.x + (fromWidthDefault / 2)
-          const startY = from.y + fromHeight
-          
-          // End at middle bottom of Confirm Appointment circle, 10px down
-          const endX = to.x + (toWidth / 2)  // Center X of ellipse
-          const endY = to.y + toHeight + 10  // Bottom of ellipse + 10px down
-          
-          const midX = (startX + endX) / 2
-          const midY = (startY + endY) / 2
-          
-          const labelWidth = conn.label ? conn.label.length * 7 + 16 : 0
-          const labelHtml = conn.label ? `
-            <rect x="${midX - labelWidth / 2}" y="${midY - 12}" width="${labelWidth}" height="20" fill="white" opacity="0.95" rx="4" stroke="#ddd" stroke-width="1"/>
-            <text x="${midX}" y="${midY + 2}" class="connection-label" fill="#333" font-size="12" font-weight="500" text-anchor="middle" dominant-baseline="middle">${conn.label}</text>
-          ` : ''
-          
-          return `
-            <line x1="${startX}" y1="${startY}" x2="${endX}" y2="${endY}" 
-                  class="dataflow-connection" stroke="#666" stroke-width="2" marker-end="url(#arrowhead)"/>
-            ${labelHtml}
-          `
-        }
-        
-        // Default connection drawing
-        const fromWidthDefault = (from as any).width || (fromIsOval ? 120 : 300)
-        const fromRadiusX = fromIsOval ? (fromWidthDefault / 2) : 150
-        const fromRadiusY = fromIsOval ? (fromHeight / 2) : 40
-        const startX = from.x + (fromWidthDefault / 2) + Math.cos(angle) * fromRadiusX
-        const startY = from.y + (fromHeight / 2) + Math.sin(angle) * fromRadiusY
-        const toRadiusX = toIsOval ? (toWidth / 2) : 150
-        const toRadiusY = toIsOval ? (toHeight / 2) : 40
-        const endX = to.x + (toWidth / 2) - Math.cos(angle) * toRadiusX
-        const endY = to.y + (toHeight / 2) - Math.sin(angle) * toRadiusY
-        
-        const midX = (startX + endX) / 2
-        const midY = (startY + endY) / 2
-        
-        const labelWidth = conn.label ? conn.label.length * 7 + 16 : 0
-        const labelHtml = conn.label ? `
-          <rect x="${midX - labelWidth / 2}" y="${midY - 12}" width="${labelWidth}" height="20" fill="white" opacity="0.95" rx="4" stroke="#ddd" stroke-width="1"/>
-          <text x="${midX}" y="${midY + 2}" class="connection-label" fill="#333" font-size="12" font-weight="500" text-anchor="middle" dominant-baseline="middle">${conn.label}</text>
-        ` : ''
-        
-        return `
-          <line x1="${startX}" y1="${startY}" x2="${endX}" y2="${endY}" 
-                class="dataflow-connection" stroke="#666" stroke-width="2" marker-end="url(#arrowhead)"/>
-          ${labelHtml}
-        `
-      }).join('')}
-      
-      <!-- Draw states -->
-      ${states.map(state => {
-        const isActive = activeStateId === state.id
-        const { colors, isOval } = getNodeStyle(state, isActive)
-        const width = (state as any).width || (isOval ? 120 : 300)
-        const fontSize = isOval ? 16 : 14
-        
-        // Handle multi-line text (split by \n)
-        const textLines = state.label.split('\n').flatMap(line => {
-          if (isOval) {
-            // For ovals, wrap text if it's too long for the width
-            const maxTextWidth = width - 20
-            const estimatedTextWidth = line.length * fontSize * 0.6
-            if (estimatedTextWidth > maxTextWidth) {
-              return wrapText(line, maxTextWidth, fontSize)
-            }
-            return [line]
-          }
-          return wrapText(line, width - 20, fontSize)
-        })
-        const lineHeight = fontSize + 4
-        // For ovals, calculate height based on text width to make it bigger if needed
-        const minHeight = isOval ? 60 : 80
-        // For ovals with custom width, adjust height based on number of text lines
-        // Calculate minimum height needed for text
-        const textHeight = textLines.length * lineHeight
-        const minOvalHeight = textHeight + 20 // Add padding
-        // For ovals with custom width, use a proportional height or text-based height, whichever is larger
-        const proportionalHeight = isOval && (state as any).width ? (state as any).width * 0.5 : minHeight
-        const ovalHeight = isOval && (state as any).width ? Math.max(proportionalHeight, minOvalHeight) : Math.max(minHeight, minOvalHeight)
-        const height = isOval ? ovalHeight : Math.max(minHeight, textHeight + 20)
-        const rx = isOval ? (width / 2) : 10
-        const ry = isOval ? (height / 2) : 10
-        
-        const textStartY = state.y + (height / 2) - (textHeight / 2) + fontSize - 6
-        
-        return `
-          <g class="state-group ${isActive ? 'active' : ''}" data-state-id="${state.id}" style="cursor: pointer;">
-            ${isOval ? `
-              <ellipse cx="${state.x + width/2}" cy="${state.y + height/2}" rx="${rx}" ry="${ry}" 
-                      class="state-box" fill="${isActive ? colors.fill : (state.type === 'green' ? '#E8F5E9' : state.type === 'red' ? '#FFEBEE' : colors.fill)}" 
-                      stroke="${isActive ? colors.stroke : '#ccc'}" stroke-width="${isActive ? '3' : '2'}"/>
-            ` : `
-              <rect x="${state.x}" y="${state.y}" width="${width}" height="${height}" 
-                    rx="${rx}" class="state-box" fill="${isActive ? colors.fill : (state.type === 'blue' ? '#E3F2FD' : '#FFF3E0')}" 
-                    stroke="${isActive ? colors.stroke : '#ccc'}" stroke-width="${isActive ? '3' : '2'}"/>
-            `}
-            ${textLines.map((line, index) => `
-              <text x="${state.x + width/2}" y="${textStartY + (index * lineHeight)}" 
-                    class="state-label" fill="${isActive ? colors.text : (state.type === 'blue' ? '#1976D2' : state.type === 'orange' ? '#E65100' : '#333')}" 
-                    font-size="${fontSize}" font-weight="${isActive ? '600' : '500'}" 
-                    text-anchor="middle" dominant-baseline="middle">${line}</text>
-            `).join('')}
-          </g>
-        `
-      }).join('')}
-      
-      <!-- Arrow marker definition -->
-      <defs>
-        <marker id="arrowhead" markerWidth="12" markerHeight="12" refX="11" refY="4" orient="auto">
-          <polygon points="0 0, 12 4, 0 8" fill="#666" />
-        </marker>
-      </defs>
-    </svg>
-  `
-  
-  diagram.innerHTML = svg
-  
-  // Add zoom controls
-  const dataflowContainer = document.querySelector('.dataflow-container')
-  let zoomControls = document.getElementById('zoomControls')
-  if (!zoomControls && dataflowContainer) {
-    zoomControls = document.createElement('div')
-    zoomControls.className = 'zoom-controls'
-    zoomControls.id = 'zoomControls'
-    zoomControls.innerHTML = `
-      <button class="zoom-btn" id="zoomInBtn" title="Zoom In">+</button>
-      <button class="zoom-btn" id="zoomOutBtn" title="Zoom Out">−</button>
-      <button class="zoom-btn" id="zoomResetBtn" title="Reset Zoom">⌂</button>
-    `
-    dataflowContainer.appendChild(zoomControls)
-  }
-  
-  setupZoomControls()
-  setupPanControls()
-  setupConfirmVisitStateClickHandlers()
-}
-
-function renderProductQuestionDataflow(diagram: HTMLElement) {
-  // Match the webform structure: Blue rectangles (process), Orange rectangles (SMS), Green ovals (success), Red oval (DNC)
-  const states = [
-    { id: 'product_question_received', label: 'Product question received', type: 'blue', x: 500, y: 50 },
-    { id: 'sms_initial_pq', label: "SMS is sent to customer 'We received your product question! We are calling now to help.'", type: 'orange', x: 500, y: 200 },
-    { id: 'outbound_call_pq', label: 'Outbound call attempt is made to lead', type: 'blue', x: 500, y: 350 },
-    { id: 'does_answer_pq', label: 'Does answer', type: 'green', x: 200, y: 500 },
-    { id: 'lead_no_answer_pq', label: "Lead doesn't answer call", type: 'blue', x: 500, y: 500 },
-    { id: 'unknown_pq', label: 'Unknown', type: 'red', x: 150, y: 660 },
-    { id: 'sms_followup_pq', label: "SMS is sent to lead 'Hello, we received your product question. Would you like us to call you back to help?'", type: 'orange', x: 500, y: 650 },
-    { id: 'redial_lead_pq', label: 'Redial lead', type: 'green', x: 50, y: 875 },
-    { id: 'schedule_call_pq', label: 'Schedule Call', type: 'green', x: 200, y: 950 },
-    { id: 'better_time_pq', label: 'Is there a better time we can call you?', type: 'blue', x: 350, y: 950 },
-    { id: 'followup_next_day_pq', label: 'Followup next day', type: 'blue', x: 880, y: 950 },
-    { id: 'dnc_pq', label: 'DNC', type: 'red', x: 1050, y: 660 }
-  ]
-  
-  const connections = [
-    { from: 'product_question_received', to: 'sms_initial_pq', label: '' },
-    { from: 'sms_initial_pq', to: 'outbound_call_pq', label: '' },
-    { from: 'outbound_call_pq', to: 'does_answer_pq', label: '' },
-    { from: 'outbound_call_pq', to: 'lead_no_answer_pq', label: '' },
-    { from: 'lead_no_answer_pq', to: 'sms_followup_pq', label: '' },
-    { from: 'sms_followup_pq', to: 'unknown_pq', label: 'Unknown message sent' },
-    { from: 'sms_followup_pq', to: 'redial_lead_pq', label: 'Yes' },
-    { from: 'sms_followup_pq', to: 'schedule_call_pq', label: 'Call at a different time' },
-    { from: 'sms_followup_pq', to: 'better_time_pq', label: 'No' },
-    { from: 'sms_followup_pq', to: 'followup_next_day_pq', label: 'No response' },
-    { from: 'sms_followup_pq', to: 'dnc_pq', label: 'Do not contact' },
-    { from: 'better_time_pq', to: 'schedule_call_pq', label: 'Yes' },
-    { from: 'better_time_pq', to: 'followup_next_day_pq', label: 'No' },
-    { from: 'followup_next_day_pq', to: 'better_time_pq', label: 'Yes' },
-    { from: 'followup_next_day_pq', to: 'followup_next_day_pq', label: 'No/No response' }
-  ]
-  
-  // Map current state to diagram state for product question
-  const stateMapping: Record<ConversationState, string> = {
-    'initial': 'product_question_received',
-    'calling': 'outbound_call_pq',
-    'call_accepted': 'does_answer_pq',
-    'call_declined': 'lead_no_answer_pq',
-    'asking_if_wants_call': 'sms_followup_pq',
-    'waiting_for_response': 'sms_followup_pq',
-    'scheduling_time': 'schedule_call_pq',
-    'time_scheduled': 'schedule_call_pq',
-    'asking_better_time': 'better_time_pq',
-    'asking_after_cancel': 'better_time_pq',
-    'followup_next_day': 'followup_next_day_pq',
-    'unknown': 'unknown_pq',
-    'ended': 'dnc_pq',
-    // Confirm visit states (not used in product question workflow, but required for type completeness)
-    'confirm_visit_initial': 'product_question_received',
-    'confirm_visit_waiting': 'product_question_received',
-    'confirm_visit_confirmed': 'product_question_received',
-    'confirm_visit_reschedule_question': 'product_question_received',
-    'confirm_visit_reschedule_waiting': 'product_question_received',
-    'confirm_visit_reschedule_selecting_time': 'product_question_received',
-    'confirm_visit_cancelled': 'product_question_received',
-    'confirm_visit_dnc': 'product_question_received'
+// Show/hide phone, dataflow, and legal requirements box for Legal Requirements workflow
+function updatePhoneAndDataflowVisibility() {
+  const phoneContainer = document.querySelector('.phone-container') as HTMLElement
+  const dataflowSection = document.querySelector('.white-box') as HTMLElement
+  const legalRequirementsBox = document.getElementById('legalRequirementsBox') as HTMLElement
+  const isLegalRequirements = conversation.getState().workflow === 'legal requirements'
+  if (phoneContainer) {
+    phoneContainer.style.display = isLegalRequirements ? 'none' : ''
   }
-  
-  const activeStateId = stateMapping[currentState] || ''
-  
-  const stateMap = new Map(states.map(s => [s.id, s]))
-  
-  // Helper function to wrap text
-  const wrapText = (text: string, maxWidth: number, fontSize: number): string[] => {
-    const words = text.split(' ')
-    const lines: string[] = []
-    let currentLine = ''
-    
-    words.forEach(word => {
-      const testLine = currentLine ? `${currentLine} ${word}` : word
-      const testWidth = testLine.length * fontSize * 0.6
-      
-      if (testWidth > maxWidth && currentLine) {
-        lines.push(currentLine)
-        currentLine = word
-      } else {
-        currentLine = testLine
-      }
-    })
-    
-    if (currentLine) {
-      lines.push(currentLine)
-    }
-    
-    return lines.length > 0 ? lines : [text]
+  if (dataflowSection) {
+    dataflowSection.style.display = isLegalRequirements ? 'none' : ''
   }
-  
-  // Get colors and shapes based on type
-  const getNodeStyle = (state: typeof states[0], isActive: boolean) => {
-    const baseColors: Record<string, { fill: string, stroke: string, text: string }> = {
-      'blue': { fill: '#4A90E2', stroke: '#357ABD', text: 'white' },
-      'orange': { fill: '#F5A623', stroke: '#D68910', text: 'white' },
-      'green': { fill: '#7ED321', stroke: '#5BA617', text: 'white' },
-      'red': { fill: '#D0021B', stroke: '#A00115', text: 'white' }
-    }
-    
-    const colors = baseColors[state.type] || baseColors.blue
-    const isOval = state.type === 'green' || state.type === 'red'
-    
-    return { colors, isOval }
+  if (legalRequirementsBox) {
+    legalRequirementsBox.style.display = isLegalRequirements ? 'flex' : 'none'
   }
-  
-  // Use the same SVG rendering logic as webform
-  let svg = `
-    <svg class="dataflow-svg" viewBox="0 0 1300 1400" xmlns="http://www.w3.org/2000/svg">
-      <!-- Draw connections -->
-      ${connections.map(conn => {
-        const from = stateMap.get(conn.from)!
-        const to = stateMap.get(conn.to)!
-        
-        // Special case: better_time_pq to dnc_pq - point to top midpoint of DNC circle
-        if (conn.from === 'better_time_pq' && conn.to === 'dnc_pq') {
-          const fromWidth = 300
-          const fromHeight = 80
-          const toWidth = 120
-          const toHeight = 60
-          const startX = from.x + (fromWidth * 2/3)
-          const startY = from.y + (fromHeight / 2)
-          const endX = to.x + (toWidth / 2)
-          const endY = to.y
-          const midX = (startX + endX) / 2
-          const midY = (startY + endY) / 2
-          const labelWidth = conn.label.length * 7 + 16
-          const labelHtml = conn.label ? `
-            <rect x="${midX - labelWidth / 2}" y="${midY - 12}" width="${labelWidth}" height="20" fill="white" opacity="0.95" rx="4" stroke="#ddd" stroke-width="1"/>
-            <text x="${midX}" y="${midY + 2}" class="connection-label" fill="#333" font-size="12" font-weight="500" text-anchor="middle" dominant-baseline="middle">${conn.label}</text>
-          ` : ''
-          return `
-            <line x1="${startX}" y1="${startY}" x2="${endX}" y2="${endY}" 
-                  class="dataflow-connection" stroke="#666" stroke-width="2" marker-end="url(#arrowhead)"/>
-            ${labelHtml}
-          `
-        }
-        
-        // Special case: sms_followup_pq to unknown_pq
-        if (conn.from === 'sms_followup_pq' && conn.to === 'unknown_pq') {
-          const fromWidth = 300
-          const fromHeight = 80
-          const toWidth = 120
-          const toHeight = 60
-          const startX = from.x
-          const startY = from.y + (fromHeight / 2)
-          const endX = to.x + toWidth
-          const endY = to.y + (toHeight / 2)
-          const midX = (startX + endX) / 2
-          const midY = (startY + endY) / 2
-          const labelWidth = conn.label.length * 7 + 16
-          const labelHtml = conn.label ? `
-            <rect x="${midX - labelWidth / 2}" y="${midY - 12}" width="${labelWidth}" height="20" fill="white" opacity="0.95" rx="4" stroke="#ddd" stroke-width="1"/>
-            <text x="${midX}" y="${midY + 2}" class="connection-label" fill="#333" font-size="12" font-weight="500" text-anchor="middle" dominant-baseline="middle">${conn.label}</text>
-          ` : ''
-          return `
-            <line x1="${startX}" y1="${startY}" x2="${endX}" y2="${endY}" 
-                  class="dataflow-connection" stroke="#666" stroke-width="2" marker-end="url(#arrowhead)"/>
-            ${labelHtml}
-          `
-        }
-        
-        // Special case: sms_followup_pq to dnc_pq
-        if (conn.from === 'sms_followup_pq' && conn.to === 'dnc_pq') {
-          const fromWidth = 300
-          const fromHeight = 80
-          const toWidth = 120
-          const toHeight = 60
-          const startX = from.x + fromWidth
-          const startY = from.y + (fromHeight / 2)
-          const endX = to.x
-          const endY = to.y + (toHeight / 2)
-          const midX = (startX + endX) / 2
-          const midY = (startY + endY) / 2
-          const labelWidth = conn.label.length * 7 + 16
-          const labelHtml = conn.label ? `
-            <rect x="${midX - labelWidth / 2}" y="${midY - 12}" width="${labelWidth}" height="20" fill="white" opacity="0.95" rx="4" stroke="#ddd" stroke-width="1"/>
-            <text x="${midX}" y="${midY + 2}" class="connection-label" fill="#333" font-size="12" font-weight="500" text-anchor="middle" dominant-baseline="middle">${conn.label}</text>
-          ` : ''
-          return `
-            <line x1="${startX}" y1="${startY}" x2="${endX}" y2="${endY}" 
-                  class="dataflow-connection" stroke="#666" stroke-width="2" marker-end="url(#arrowhead)"/>
-            ${labelHtml}
-          `
-        }
-        
-        // Special case: better_time_pq to followup_next_day_pq
-        if (conn.from === 'better_time_pq' && conn.to === 'followup_next_day_pq') {
-          const fromWidth = 300
-          const fromHeight = 80
-          const toWidth = 300
-          const toHeight = 80
-          const startX = from.x + fromWidth
-          const startY = from.y + (fromHeight / 5)
-          const endX = to.x
-          const endY = to.y + (toHeight / 5)
-          const midX = (startX + endX) / 2
-          const midY = (startY + endY) / 2
-          const labelWidth = conn.label.length * 7 + 16
-          const labelHtml = conn.label ? `
-            <rect x="${midX - labelWidth / 2}" y="${midY - 12}" width="${labelWidth}" height="20" fill="white" opacity="0.95" rx="4" stroke="#ddd" stroke-width="1"/>
-            <text x="${midX}" y="${midY + 2}" class="connection-label" fill="#333" font-size="12" font-weight="500" text-anchor="middle" dominant-baseline="middle">${conn.label}</text>
-          ` : ''
-          return `
-            <line x1="${startX}" y1="${startY}" x2="${endX}" y2="${endY}" 
-                  class="dataflow-connection" stroke="#666" stroke-width="2" marker-end="url(#arrowhead)"/>
-            ${labelHtml}
-          `
-        }
-        
-        // Special case: followup_next_day_pq to better_time_pq
-        if (conn.from === 'followup_next_day_pq' && conn.to === 'better_time_pq') {
-          const fromWidth = 300
-          const fromHeight = 80
-          const toWidth = 300
-          const toHeight = 80
-          const startX = from.x + (fromWidth / 2)
-          const startY = from.y + fromHeight - (fromHeight / 5)
-          const endX = to.x + toWidth
-          const endY = to.y + toHeight - (toHeight / 5)
-          const midX = (startX + endX) / 2 - 75
-          const midY = (startY + endY) / 2
-          const labelWidth = conn.label.length * 7 + 16
-          const labelHtml = conn.label ? `
-            <rect x="${midX - labelWidth / 2}" y="${midY - 12}" width="${labelWidth}" height="20" fill="white" opacity="0.95" rx="4" stroke="#ddd" stroke-width="1"/>
-            <text x="${midX}" y="${midY + 2}" class="connection-label" fill="#333" font-size="12" font-weight="500" text-anchor="middle" dominant-baseline="middle">${conn.label}</text>
-          ` : ''
-          return `
-            <line x1="${startX}" y1="${startY}" x2="${endX}" y2="${endY}" 
-                  class="dataflow-connection" stroke="#666" stroke-width="2" marker-end="url(#arrowhead)"/>
-            ${labelHtml}
-          `
-        }
-        
-        // Special case: followup_next_day_pq self-loop
-        if (conn.from === 'followup_next_day_pq' && conn.to === 'followup_next_day_pq') {
-          const fromWidth = 300
-          const fromHeight = 80
-          const startX = from.x + fromWidth
-          const startY = from.y + (fromHeight / 2)
-          const endX = from.x + (fromWidth / 2)
-          const endY = from.y + fromHeight
-          const radius = 80
-          const control1X = from.x + fromWidth + radius * 0.5
-          const control1Y = from.y + fromHeight / 2 + radius * 0.3
-          const control2X = from.x + fromWidth / 2 + radius * 0.3
-          const control2Y = from.y + fromHeight + radius * 0.5
-          const t = 0.5
-          const mt = 1 - t
-          const labelX = mt * mt * mt * startX + 3 * mt * mt * t * control1X + 3 * mt * t * t * control2X + t * t * t * endX
-          const labelY = mt * mt * mt * startY + 3 * mt * mt * t * control1Y + 3 * mt * t * t * control2Y + t * t * t * endY + 15
-          const labelWidth = conn.label.length * 7 + 16
-          const labelHtml = conn.label ? `
-            <rect x="${labelX - labelWidth / 2}" y="${labelY - 12}" width="${labelWidth}" height="20" fill="white" opacity="0.95" rx="4" stroke="#ddd" stroke-width="1"/>
-            <text x="${labelX}" y="${labelY + 2}" class="connection-label" fill="#333" font-size="12" font-weight="500" text-anchor="middle" dominant-baseline="middle">${conn.label}</text>
-          ` : ''
-          return `
-            <path d="M ${startX} ${startY} 
-                     C ${control1X} ${control1Y}, ${control2X} ${control2Y}, ${endX} ${endY}" 
-                  class="dataflow-connection" stroke="#666" stroke-width="2" fill="none" marker-end="url(#arrowhead)"/>
-            ${labelHtml}
-          `
-        }
-        
-        // Special case: better_time_pq to schedule_call_pq
-        if (conn.from === 'better_time_pq' && conn.to === 'schedule_call_pq') {
-          const fromIsOval = from.type === 'green' || from.type === 'red'
-          const toIsOval = to.type === 'green' || to.type === 'red'
-          const fromWidth = fromIsOval ? 120 : 300
-          const fromHeight = fromIsOval ? 60 : 80
-          const toWidth = toIsOval ? 120 : 300
-          const toHeight = toIsOval ? 60 : 80
-          const startX = from.x + (fromWidth / 2)
-          const startY = from.y + fromHeight
-          const bendY = startY + 50
-          const bendX = to.x + (toWidth / 2)
-          const endX = to.x + (toWidth / 2)
-          const endY = to.y + toHeight
-          const labelX = (startX + bendX) / 2
-          const labelY = bendY
-          const labelWidth = conn.label.length * 7 + 16
-          const labelHtml = conn.label ? `
-            <rect x="${labelX - labelWidth / 2}" y="${labelY - 12}" width="${labelWidth}" height="20" fill="white" opacity="0.95" rx="4" stroke="#ddd" stroke-width="1"/>
-            <text x="${labelX}" y="${labelY + 2}" class="connection-label" fill="#333" font-size="12" font-weight="500" text-anchor="middle" dominant-baseline="middle">${conn.label}</text>
-          ` : ''
-          return `
-            <path d="M ${startX} ${startY} L ${startX} ${bendY} L ${bendX} ${bendY} L ${endX} ${endY}" 
-                  class="dataflow-connection" stroke="#666" stroke-width="2" fill="none" marker-end="url(#arrowhead)"/>
-            ${labelHtml}
-          `
-        }
-        
-        // Default connection drawing
-        const dx = to.x - from.x
-        const dy = to.y - from.y
-        const angle = Math.atan2(dy, dx)
-        const fromIsOval = from.type === 'green' || from.type === 'red'
-        const toIsOval = to.type === 'green' || to.type === 'red'
-        const fromWidth = fromIsOval ? 120 : 300
-        const fromHeight = fromIsOval ? 60 : 80
-        const toWidth = toIsOval ? 120 : 300
-        const toHeight = toIsOval ? 60 : 80
-        const startX = from.x + (fromWidth / 2) + Math.cos(angle) * (fromIsOval ? 60 : 150)
-        const startY = from.y + (fromHeight / 2) + Math.sin(angle) * (fromIsOval ? 30 : 40)
-        const endX = to.x + (toWidth / 2) - Math.cos(angle) * (toIsOval ? 60 : 150)
-        const endY = to.y + (toHeight / 2) - Math.sin(angle) * (toIsOval ? 30 : 40)
-        const midX = (startX + endX) / 2
-        const midY = (startY + endY) / 2
-        const labelWidth = conn.label ? conn.label.length * 7 + 16 : 0
-        const labelHtml = conn.label ? `
-          <rect x="${midX - labelWidth / 2}" y="${midY - 12}" width="${labelWidth}" height="20" fill="white" opacity="0.95" rx="4" stroke="#ddd" stroke-width="1"/>
-          <text x="${midX}" y="${midY + 2}" class="connection-label" fill="#333" font-size="12" font-weight="500" text-anchor="middle" dominant-baseline="middle">${conn.label}</text>
-        ` : ''
-        return `
-          <line x1="${startX}" y1="${startY}" x2="${endX}" y2="${endY}" 
-                class="dataflow-connection" stroke="#666" stroke-width="2" marker-end="url(#arrowhead)"/>
-          ${labelHtml}
-        `
-      }).join('')}
-      
-      <!-- Draw states -->
-      ${states.map(state => {
-        const isActive = activeStateId === state.id
-        const { colors, isOval } = getNodeStyle(state, isActive)
-        const width = isOval ? 120 : 300
-        const fontSize = isOval ? 18 : 16
-        const textLines = isOval ? [state.label] : wrapText(state.label, width - 20, fontSize)
-        const lineHeight = fontSize + 4
-        const minHeight = isOval ? 60 : 80
-        const textHeight = textLines.length * lineHeight
-        const height = Math.max(minHeight, textHeight + 20)
-        const rx = isOval ? 60 : 10
-        const textStartY = state.y + (height / 2) - (textHeight / 2) + fontSize - 6
-        
-        return `
-          <g class="state-group ${isActive ? 'active' : ''}" data-state-id="${state.id}" style="cursor: pointer;">
-            ${isOval ? `
-              <ellipse cx="${state.x + width/2}" cy="${state.y + height/2}" rx="${width/2}" ry="${height/2}" 
-                      class="state-box" fill="${isActive ? colors.fill : (state.type === 'green' ? '#E8F5E9' : state.type === 'red' ? '#FFEBEE' : colors.fill)}" 
-                      stroke="${isActive ? colors.stroke : '#ccc'}" stroke-width="${isActive ? '3' : '2'}"/>
-            ` : `
-              <rect x="${state.x}" y="${state.y}" width="${width}" height="${height}" 
-                    rx="${rx}" class="state-box" fill="${isActive ? colors.fill : (state.type === 'blue' ? '#E3F2FD' : '#FFF3E0')}" 
-                    stroke="${isActive ? colors.stroke : '#ccc'}" stroke-width="${isActive ? '3' : '2'}"/>
-            `}
-            ${textLines.map((line, index) => `
-              <text x="${state.x + width/2}" y="${textStartY + (index * lineHeight)}" 
-                    class="state-label" fill="${isActive ? colors.text : (state.type === 'blue' ? '#1976D2' : state.type === 'orange' ? '#E65100' : '#333')}" 
-                    font-size="${fontSize}" font-weight="${isActive ? '600' : '500'}" 
-                    text-anchor="middle" dominant-baseline="middle">${line}</text>
-            `).join('')}
-          </g>
-        `
-      }).join('')}
-      
-      <!-- Arrow marker definition -->
-      <defs>
-        <marker id="arrowhead" markerWidth="12" markerHeight="12" refX="11" refY="4" orient="auto">
-          <polygon points="0 0, 12 4, 0 8" fill="#666" />
-        </marker>
-      </defs>
-    </svg>
-  `
-  
-  diagram.innerHTML = svg
-  
-  // Add zoom controls
-  const dataflowContainer = document.querySelector('.dataflow-container')
-  let zoomControls = document.getElementById('zoomControls')
-  if (!zoomControls && dataflowContainer) {
-    zoomControls = document.createElement('div')
-    zoomControls.className = 'zoom-controls'
-    zoomControls.id = 'zoomControls'
-    zoomControls.innerHTML = `
-      <button class="zoom-btn" id="zoomInBtn" title="Zoom In">+</button>
-      <button class="zoom-btn" id="zoomOutBtn" title="Zoom Out">−</button>
-      <button class="zoom-btn" id="zoomResetBtn" title="Reset Zoom">⌂</button>
-    `
-    dataflowContainer.appendChild(zoomControls)
+  if (isLegalRequirements) {
+    renderComplianceChecklist()
   }
-  
-  setupZoomControls()
-  setupPanControls()
-  setupProductQuestionStateClickHandlers()
 }
 
-// Start product question conversation
-function startProductQuestionConversation() {
-  // Step 1: Initial SMS
-  addMessage('bot', 'We received your product question! We are calling now to help.')
-  
-  setTimeout(() => {
-    showCallingNotification()
-  }, 1500)
+const CHECK_ICONS: Record<AutomatedCheckResult['result'], string> = {
+  pass: '✅',
+  fail: '❌',
+  not_run: '⏸'
 }
 
-// Set up click handlers for product question state boxes
-function setupProductQuestionStateClickHandlers() {
-  const diagramToConversationState: Record<string, ConversationState> = {
-    'product_question_received': 'initial',
-    'sms_initial_pq': 'calling',
-    'outbound_call_pq': 'calling',
-    'does_answer_pq': 'call_accepted',
-    'lead_no_answer_pq': 'call_declined',
-    'sms_followup_pq': 'waiting_for_response',
-    'redial_lead_pq': 'calling',
-    'schedule_call_pq': 'scheduling_time',
-    'better_time_pq': 'asking_better_time',
-    'followup_next_day_pq': 'followup_next_day',
-    'unknown_pq': 'unknown',
-    'dnc_pq': 'ended'
-  }
-  
-  const stateGroups = document.querySelectorAll('.state-group')
-  stateGroups.forEach(group => {
-    group.addEventListener('click', (e) => {
-      e.stopPropagation()
-      const stateId = (group as HTMLElement).dataset.stateId
-      if (stateId && diagramToConversationState[stateId]) {
-        const newState = diagramToConversationState[stateId]
-        currentState = newState
-        
-        if (stateId === 'followup_next_day_pq') {
-          isAfter24HourFollowup = true
-        } else {
-          isAfter24HourFollowup = false
-        }
-        
-        updatePhoneUIForProductQuestion(newState)
-        updateDataflow()
-      }
-    })
-  })
-}
+// Script editors and compliance reviewers track the requirements; only compliance reviewers sign them off
+function renderComplianceChecklist() {
+  const list = document.getElementById('complianceChecklist')
+  const summary = document.getElementById('complianceSummary')
+  const exportBtn = document.getElementById('exportComplianceBtn') as HTMLButtonElement | null
+  if (!list) return
+  const items = complianceChecklist.list()
+  const automated = runAutomatedChecks(auditLog.list())
+  const canTrack = can('edit_workflows') || can('review_compliance')
+  const canSignOff = can('review_compliance')
 
-// Update phone UI for product question workflow
-function updatePhoneUIForProductQuestion(state: ConversationState) {
-  messages.length = 0
-  const container = document.getElementById('messagesContainer')
-  if (container) {
-    container.innerHTML = ''
-  }
-  
-  hideCallingNotification()
-  hideCallScreen()
-  hideKeypad()
-  hideContacts()
-  const modal = document.getElementById('dateTimeModal')
-  if (modal) {
-    modal.style.display = 'none'
+  if (summary) {
+    const signedOff = items.filter(({ tracking }) => tracking.status === 'signed_off').length
+    const results = Object.values(automated.results)
+    const passed = results.filter(({ result }) => result === 'pass').length
+    const failed = results.filter(({ result }) => result === 'fail').length
+    summary.textContent = `${signedOff} of ${items.length} signed off · automated checks: ${passed} passed, ${failed} failed`
+      + (automated.source ? ` (last ${automated.source.workflow} conversation)` : ' (no simulated conversation yet)')
   }
-  clearInputArea()
-  
-  switch (state) {
-    case 'initial':
-      addMessage('bot', 'We received your product question! We are calling now to help.')
-      break
-      
-    case 'calling':
-      addMessage('bot', 'We received your product question! We are calling now to help.')
-      showCallingNotification()
-      break
-      
-    case 'call_accepted':
-      addMessage('bot', 'We received your product question! We are calling now to help.')
-      setTimeout(() => {
-        showCallScreen()
-      }, 500)
-      break
-      
-    case 'call_declined':
-      addMessage('bot', 'We received your product question! We are calling now to help.')
-      setTimeout(() => {
-        const options = ['Yes', 'Call at a different time', 'No', '24 hours later (No response)', 'Do not contact', 'Unknown message']
-        addMessage('bot', 'Hello, we received your product question. Would you like us to call you back to help?', options)
-      }, 500)
-      break
-      
-    case 'waiting_for_response':
-      addMessage('bot', 'We received your product question! We are calling now to help.')
-      setTimeout(() => {
-        const options = ['Yes', 'Call at a different time', 'No', '24 hours later (No response)', 'Do not contact', 'Unknown message']
-        addMessage('bot', 'Hello, we received your product question. Would you like us to call you back to help?', options)
-      }, 500)
-      break
-      
-    case 'followup_next_day':
-      addMessage('bot', 'Hello, we called yesterday about your product question. Would you like to schedule a time for us to call you?')
-      setTimeout(() => {
-        const options = ['Yes', 'No']
-        addMessage('bot', '', options)
-      }, 500)
-      break
-      
-    case 'scheduling_time':
-    case 'time_scheduled':
-      addMessage('bot', 'We received your product question! We are calling now to help.')
-      setTimeout(() => {
-        addMessage('bot', 'Hello, we received your product question. Would you like us to call you back to help?')
-        setTimeout(() => {
-          addMessage('user', 'Call at a different time')
-          setTimeout(() => {
-            if (scheduledDateTime) {
-              const formattedDate = scheduledDateTime.toLocaleDateString('en-US', { 
-                weekday: 'long', 
-                year: 'numeric', 
-                month: 'long', 
-                day: 'numeric' 
-              })
-              const formattedTime = scheduledDateTime.toLocaleTimeString('en-US', { 
-                hour: 'numeric', 
-                minute: '2-digit',
-                hour12: true 
-              })
-              addMessage('bot', `We will call you again on ${formattedDate} at ${formattedTime}.`)
-            } else {
-              showDateTimePicker()
-            }
-          }, 500)
-        }, 500)
-      }, 500)
-      break
-      
-    case 'asking_better_time':
-    case 'asking_after_cancel':
-      addMessage('bot', 'We received your product question! We are calling now to help.')
-      setTimeout(() => {
-        addMessage('bot', 'Hello, we received your product question. Would you like us to call you back to help?')
-        setTimeout(() => {
-          addMessage('user', 'No')
-          setTimeout(() => {
-            const options = ['Yes', 'No']
-            addMessage('bot', 'Is there a better time that we can call you?', options)
-          }, 500)
-        }, 500)
-      }, 500)
-      break
-      
-    case 'unknown':
-      addMessage('bot', 'We received your product question! We are calling now to help.')
-      setTimeout(() => {
-        addMessage('bot', 'Hello, we received your product question. Would you like us to call you back to help?')
-        setTimeout(() => {
-          addMessage('user', 'Unknown message')
-          setTimeout(() => {
-            addMessage('bot', 'Unknown message received, transferring to messaging agent.')
-          }, 500)
-        }, 500)
-      }, 500)
-      break
-      
-    case 'ended':
-      addMessage('bot', 'We received your product question! We are calling now to help.')
-      setTimeout(() => {
-        addMessage('bot', 'Have a nice day!')
-      }, 500)
-      break
+  if (exportBtn) {
+    exportBtn.disabled = !canSignOff
+    exportBtn.title = canSignOff ? 'Download the checklist as an HTML report' : 'Only compliance reviewers can export the compliance report'
   }
+
+  list.innerHTML = ''
+  items.forEach(item => {
+    list.appendChild(renderComplianceItem(item, automated.results[item.requirement.id], canTrack, canSignOff))
+  })
 }
 
-// Helper function to check if a workflow should have red active state
-function isRedWorkflow(workflow: string): boolean {
-  return workflow === 'offer' || 
-         workflow === 'schedule consultation' || 
-         workflow === 'customer satisfaction check-in'
+function renderComplianceItem(item: ChecklistItem, check: AutomatedCheckResult | undefined, canTrack: boolean, canSignOff: boolean): HTMLElement {
+  const { requirement, tracking } = item
+  const element = document.createElement('li')
+  element.className = `compliance-item ${tracking.status}`
+  // A signed-off item can only be changed (and so revoked) by a compliance reviewer
+  const locked = !canTrack || (tracking.status === 'signed_off' && !canSignOff)
+  element.innerHTML = `
+    <div><strong>${requirement.title}:</strong> ${requirement.description}</div>
+    ${check ? `<div class="compliance-check ${check.result}">${CHECK_ICONS[check.result]} Automated check: ${RESULT_LABELS[check.result]} · <span class="compliance-check-detail"></span></div>` : ''}
+    <div class="compliance-fields">
+      <select class="consent-lead-select compliance-status-select" ${locked ? 'disabled' : ''}>
+        ${(Object.keys(STATUS_LABELS) as RequirementStatus[]).map(status => `
+          <option value="${status}" ${status === tracking.status ? 'selected' : ''} ${status === 'signed_off' && !canSignOff ? 'disabled' : ''}>${STATUS_LABELS[status]}</option>
+        `).join('')}
+      </select>
+      <input type="text" class="compliance-owner-input" placeholder="Owner" ${locked ? 'readonly' : ''}>
+    </div>
+    <textarea class="compliance-notes-input" rows="2" placeholder="Notes" ${locked ? 'readonly' : ''}></textarea>
+    <div class="compliance-signoff"></div>
+  `
+  // What reviewers and customers typed goes in as text
+  const detail = element.querySelector('.compliance-check-detail')
+  if (detail && check) {
+    detail.textContent = check.detail
+  }
+  const owner = element.querySelector('.compliance-owner-input') as HTMLInputElement
+  const notes = element.querySelector('.compliance-notes-input') as HTMLTextAreaElement
+  owner.value = tracking.owner
+  notes.value = tracking.notes
+  if (tracking.status === 'signed_off' && !locked) {
+    owner.title = notes.title = 'Changing this takes the sign-off back'
+  }
+  const signOff = element.querySelector('.compliance-signoff') as HTMLElement
+  signOff.textContent = tracking.signedOffBy && tracking.signedOffAt
+    ? `Signed off by ${tracking.signedOffBy} on ${tracking.signedOffAt.toLocaleString([], { month: 'short', day: 'numeric', year: 'numeric', hour: '2-digit', minute: '2-digit' })}`
+    : tracking.updatedBy && tracking.updatedAt
+      ? `Last updated by ${tracking.updatedBy} on ${tracking.updatedAt.toLocaleString([], { month: 'short', day: 'numeric', year: 'numeric', hour: '2-digit', minute: '2-digit' })}`
+      : ''
+
+  const update = (changes: { status?: RequirementStatus, owner?: string, notes?: string }) => {
+    if (locked || (changes.status === 'signed_off' && !canSignOff)) return
+    complianceChecklist.update(requirement.id, changes, getConversationOwner())
+    renderComplianceChecklist()
+  }
+  element.querySelector('.compliance-status-select')?.addEventListener('change', (e) => {
+    update({ status: (e.target as HTMLSelectElement).value as RequirementStatus })
+  })
+  owner.addEventListener('change', () => update({ owner: owner.value.trim() }))
+  notes.addEventListener('change', () => update({ notes: notes.value.trim() }))
+  return element
 }
 
-// Show/hide phone, dataflow, and legal requirements box for Legal Requirements workflow
-function updatePhoneAndDataflowVisibility() {
-  const phoneContainer = document.querySelector('.phone-container') as HTMLElement
-  const dataflowSection = document.querySelector('.white-box') as HTMLElement
-  const legalRequirementsBox = document.getElementById('legalRequirementsBox') as HTMLElement
-  const isLegalRequirements = selectedWorkflow === 'legal requirements'
-  if (phoneContainer) {
-    phoneContainer.style.display = isLegalRequirements ? 'none' : ''
-  }
-  if (dataflowSection) {
-    dataflowSection.style.display = isLegalRequirements ? 'none' : ''
-  }
-  if (legalRequirementsBox) {
-    legalRequirementsBox.style.display = isLegalRequirements ? 'flex' : 'none'
-  }
+function exportComplianceReport() {
+  if (!can('review_compliance')) return
+  const html = complianceReportToHtml(complianceChecklist.list(), runAutomatedChecks(auditLog.list()))
+  downloadFile(getComplianceReportFileName(), 'text/html', html)
 }
 
 // Handle workflow selection
 function handleWorkflowSelect(workflow: string) {
-  selectedWorkflow = workflow
+  // Reset version to A when workflow changes
+  conversation.configure({ workflow, version: 'A' })
   // Update active state of workflow buttons
   document.querySelectorAll('.workflow-btn').forEach(btn => {
     const btnWorkflow = (btn as HTMLElement).dataset.workflow
     if (btnWorkflow === workflow) {
       btn.classList.add('active')
-      // Add red-active class for specific workflows
-      if (isRedWorkflow(workflow)) {
-        btn.classList.add('red-active')
-      } else {
-        btn.classList.remove('red-active')
-      }
     } else {
       btn.classList.remove('active', 'red-active')
     }
   })
-  // Reset version to A when workflow changes
-  selectedVersion = 'A'
   updateVersionButtons()
   // Update dataflow diagram
   updateDataflow()
@@ -3952,8 +2563,8 @@ function handleWorkflowSelect(workflow: string) {
 // Handle version selection
 function handleVersionSelect(version: string) {
   // Only reset if version actually changed
-  const versionChanged = selectedVersion !== version
-  selectedVersion = version
+  const versionChanged = conversation.getState().version !== version
+  conversation.configure({ version })
   updateVersionButtons()
   
   // Reset dataflow when switching versions
@@ -3961,6 +2572,7 @@ function handleVersionSelect(version: string) {
     resetConversation()
   } else {
     // Re-render options if there are any active options to show (only if version didn't change)
+    const { messages } = conversation.getState()
     const lastMessage = messages[messages.length - 1]
     if (lastMessage?.options && lastMessage.sender === 'bot') {
       renderOptions(lastMessage.options)
@@ -3970,6 +2582,7 @@ function handleVersionSelect(version: string) {
 
 // Update version button active states
 function updateVersionButtons() {
+  const selectedVersion = conversation.getState().version
   document.querySelectorAll('.version-btn').forEach(btn => {
     const btnVersion = (btn as HTMLElement).dataset.version
     if (btnVersion === selectedVersion) {
@@ -3987,7 +2600,7 @@ function updateVersionButtons() {
 }
 
 function handleAIToggle() {
-  aiEnabled = !aiEnabled
+  conversation.configure({ aiEnabled: !conversation.getState().aiEnabled })
   updateAIToggleButton()
   // Restart conversation when toggling AI
   resetConversation()
@@ -3995,6 +2608,7 @@ function handleAIToggle() {
 
 function updateAIToggleButton() {
   const btn = document.getElementById('aiToggleBtn')
+  const { aiEnabled } = conversation.getState()
   if (btn) {
     btn.className = `ai-toggle-btn ${aiEnabled ? 'enabled' : 'disabled'}`
     btn.textContent = aiEnabled ? '✓' : '✕'
@@ -4003,16 +2617,11 @@ function updateAIToggleButton() {
 
 // Initialize workflow button active states
 function initializeWorkflowButtons() {
+  const selectedWorkflow = conversation.getState().workflow
   document.querySelectorAll('.workflow-btn').forEach(btn => {
     const btnWorkflow = (btn as HTMLElement).dataset.workflow
     if (btnWorkflow === selectedWorkflow) {
       btn.classList.add('active')
-      // Add red-active class for specific workflows
-      if (isRedWorkflow(selectedWorkflow)) {
-        btn.classList.add('red-active')
-      } else {
-        btn.classList.remove('red-active')
-      }
     } else {
       btn.classList.remove('active', 'red-active')
     }
@@ -4050,6 +2659,7 @@ function renderDialogueEditor() {
   const container = document.getElementById('dialogueEditorContainer')
   if (!container) return
   
+  const { messages } = conversation.getState()
   if (messages.length === 0) {
     container.innerHTML = `
       <div class="dialogue-empty-state">
@@ -4059,20 +2669,26 @@ function renderDialogueEditor() {
     return
   }
   
+  // Viewers and compliance reviewers see the dialogue read-only
+  const canEdit = can('edit_workflows')
+  const lintIssues = lintTranscript(messages)
+  const readOnly = canEdit ? '' : 'readonly'
   container.innerHTML = `
     <div class="dialogue-editor-header">
-      <h3>Edit Dialogue Flow</h3>
-      <p class="dialogue-subtitle">All messages in chronological order. Click on any message to edit it.</p>
+      <h3>${canEdit ? 'Edit Dialogue Flow' : 'Dialogue Flow'}</h3>
+      <p class="dialogue-subtitle">${canEdit
+        ? 'All messages in chronological order. Click on any message to edit it.'
+        : 'All messages in chronological order. Read-only: sign in as a script editor to edit messages.'}</p>
     </div>
     <div class="dialogue-messages-list">
       ${messages.map((msg, index) => {
-        const time = msg.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+        const time = formatPhoneTime(msg.timestamp)
         const isBot = msg.sender === 'bot'
         const senderLabel = isBot ? 'Bot' : 'User'
         const messageNumber = index + 1
         
         return `
-          <div class="dialogue-message-item dialogue-message-${isBot ? 'bot' : 'user'}" data-message-id="${msg.id}" data-message-index="${index}">
+          <div class="dialogue-message-item dialogue-message-${isBot ? 'bot' : 'user'}" data-message-id="${escapeHtml(msg.id)}" data-message-index="${index}">
             <div class="dialogue-message-header">
               <span class="dialogue-message-number">#${messageNumber}</span>
               <span class="dialogue-sender-badge ${isBot ? 'bot' : 'user'}">${senderLabel}</span>
@@ -4082,17 +2698,18 @@ function renderDialogueEditor() {
             <div class="dialogue-message-content">
               ${isBot ? `
                 <label>Message Text:</label>
-                <textarea class="dialogue-text-input" data-field="text" rows="3">${msg.text || ''}</textarea>
+                <textarea class="dialogue-text-input" data-field="text" rows="3" ${readOnly}>${escapeHtml(msg.text || '')}</textarea>
+                <ul class="dialogue-lint-issues">${renderLintIssues(lintIssues.get(index) ?? [])}</ul>
               ` : `
                 <div class="dialogue-options-editor">
                   <label>Message Text:</label>
-                  <textarea class="dialogue-text-input" data-field="text" rows="2">${msg.text || ''}</textarea>
+                  <textarea class="dialogue-text-input" data-field="text" rows="2" ${readOnly}>${escapeHtml(msg.text || '')}</textarea>
                   <label>Dialogue Options:</label>
                   <div class="dialogue-options-list" data-message-index="${index}">
                     ${msg.options && msg.options.length > 0 ? msg.options.map((option, optIndex) => `
                       <div class="dialogue-option-item">
-                        <input type="text" class="dialogue-option-input" value="${option}" data-option-index="${optIndex}" placeholder="Enter option text">
-                        <button class="dialogue-option-remove" data-option-index="${optIndex}" title="Remove option">×</button>
+                        <input type="text" class="dialogue-option-input" value="${escapeHtml(option)}" data-option-index="${optIndex}" placeholder="Enter option text" ${readOnly}>
+                        ${canEdit ? `<button class="dialogue-option-remove" data-option-index="${optIndex}" title="Remove option">×</button>` : ''}
                       </div>
                     `).join('') : `
                       <div class="dialogue-no-options">No options available.</div>
@@ -4101,9 +2718,11 @@ function renderDialogueEditor() {
                 </div>
               `}
             </div>
-            <div class="dialogue-message-actions">
-              <button class="dialogue-save-btn" data-message-id="${msg.id}">Save</button>
-            </div>
+            ${canEdit ? `
+              <div class="dialogue-message-actions">
+                <button class="dialogue-save-btn" data-message-id="${escapeHtml(msg.id)}">Save</button>
+              </div>
+            ` : ''}
           </div>
         `
       }).join('')}
@@ -4122,8 +2741,34 @@ function renderDialogueEditor() {
   }, 100)
 }
 
+function renderLintIssues(issues: LintIssue[]): string {
+  return issues.map(issue => `
+    <li class="dialogue-lint-issue ${issue.severity}">${issue.severity === 'error' ? '⛔' : '⚠️'} ${issue.message}</li>
+  `).join('')
+}
+
+// Re-lint the bot messages with the edits typed so far, before they are saved
+function refreshDialogueLint() {
+  const messages = conversation.getState().messages.map((message, index) => {
+    const input = document.querySelector(`.dialogue-message-item[data-message-index="${index}"] .dialogue-text-input[data-field="text"]`) as HTMLTextAreaElement | null
+    return input ? { ...message, text: input.value.trim() } : message
+  })
+  const issues = lintTranscript(messages)
+  document.querySelectorAll('.dialogue-message-item').forEach(item => {
+    const list = item.querySelector('.dialogue-lint-issues')
+    const index = Number(item.getAttribute('data-message-index'))
+    if (list) {
+      list.innerHTML = renderLintIssues(issues.get(index) ?? [])
+    }
+  })
+}
+
 // Set up event listeners for dialogue editor
 function setupDialogueEditorListeners() {
+  document.querySelectorAll('.dialogue-message-bot .dialogue-text-input').forEach(input => {
+    input.addEventListener('input', refreshDialogueLint)
+  })
+
   // Save button handlers
   document.querySelectorAll('.dialogue-save-btn').forEach(btn => {
     btn.addEventListener('click', (e) => {
@@ -4153,16 +2798,18 @@ function setupDialogueEditorListeners() {
 
 // Save a dialogue message
 function saveDialogueMessage(messageId: string) {
+  if (!can('edit_workflows')) return
   const messageItem = document.querySelector(`[data-message-id="${messageId}"]`)
   if (!messageItem) return
   
-  const message = messages.find(m => m.id === messageId)
+  const message = conversation.getState().messages.find(m => m.id === messageId)
   if (!message) return
   
   // Get text input
+  const changes: { text?: string, options?: string[] } = {}
   const textInput = messageItem.querySelector('.dialogue-text-input[data-field="text"]') as HTMLTextAreaElement
   if (textInput) {
-    message.text = textInput.value.trim()
+    changes.text = textInput.value.trim()
   }
   
   // Get options - for user messages, get from the options list
@@ -4172,14 +2819,8 @@ function saveDialogueMessage(messageId: string) {
     const optionsList = messageItem.querySelector('.dialogue-options-list')
     if (optionsList) {
       const optionInputs = optionsList.querySelectorAll('.dialogue-option-input') as NodeListOf<HTMLInputElement>
-      const newOptions = Array.from(optionInputs).map(input => input.value.trim()).filter(opt => opt !== '')
-      
-      if (newOptions.length > 0) {
-        message.options = newOptions
-      } else {
-        // If no options remain, remove the options property
-        delete message.options
-      }
+      // If no options remain, the options property is removed
+      changes.options = Array.from(optionInputs).map(input => input.value.trim()).filter(opt => opt !== '')
     }
   } else {
     // For bot messages, preserve existing options (don't delete them)
@@ -4187,11 +2828,11 @@ function saveDialogueMessage(messageId: string) {
     // We just don't allow editing them in the dialogue editor UI
   }
   
-  // Re-render chat view to reflect changes
-  renderMessages()
+  // Re-renders the chat view (and this editor) to reflect the changes
+  conversation.editMessage(messageId, changes)
   
   // Show save confirmation
-  const saveBtn = messageItem.querySelector('.dialogue-save-btn') as HTMLButtonElement
+  const saveBtn = document.querySelector(`.dialogue-save-btn[data-message-id="${messageId}"]`) as HTMLButtonElement
   if (saveBtn) {
     const originalText = saveBtn.textContent
     saveBtn.textContent = 'Saved!'
@@ -4205,55 +2846,33 @@ function saveDialogueMessage(messageId: string) {
 
 // Delete a dialogue message
 function deleteDialogueMessage(messageId: string) {
+  if (!can('edit_workflows')) return
   if (confirm('Are you sure you want to delete this message?')) {
-    const index = messages.findIndex(m => m.id === messageId)
-    if (index !== -1) {
-      messages.splice(index, 1)
-      renderMessages()
-      
-      // Re-render dialogue editor if it's active
-      if (activeTab === 'dialogue') {
-        renderDialogueEditor()
-      }
-    }
+    conversation.deleteMessage(messageId)
   }
 }
 
 // Add a new option to a message
 function addDialogueOption(messageIndex: number) {
-  const message = messages[messageIndex]
+  if (!can('edit_workflows')) return
+  const message = conversation.getState().messages[messageIndex]
   if (!message) return
   
   // Only allow adding options to user messages
   if (message.sender !== 'user') return
   
-  if (!message.options) {
-    message.options = []
-  }
-  
-  message.options.push('New Option')
-  renderDialogueEditor()
+  conversation.editMessage(message.id, { options: [...(message.options ?? []), 'New Option'] })
 }
 
 // Remove an option from a message
 function removeDialogueOption(messageId: string, optionIndex: number) {
-  const message = messages.find(m => m.id === messageId)
+  if (!can('edit_workflows')) return
+  const message = conversation.getState().messages.find(m => m.id === messageId)
   if (!message || !message.options) return
   
   // Only allow removing options from user messages
   if (message.sender !== 'user') return
   
-  message.options.splice(optionIndex, 1)
-  
-  // If no options remain, remove the options property
-  if (message.options.length === 0) {
-    delete message.options
-  }
-  
-  renderMessages()
-  
-  // Re-render dialogue editor if it's active
-  if (activeTab === 'dialogue') {
-    renderDialogueEditor()
-  }
+  // If no options remain, the options property is removed
+  conversation.editMessage(messageId, { options: message.options.filter((_, index) => index !== optionIndex) })
 }
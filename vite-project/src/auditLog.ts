@@ -0,0 +1,187 @@
+/**
+ * Append-only compliance audit log: every text sent, call placed, reply
+ * categorized, consent and DNC check, keyword handled and workflow switch, in
+ * the order they happened. Entries can be added and read, never changed or
+ * removed; reviewers export them as JSON Lines.
+ */
+
+export type AuditEventType =
+  | 'conversation_started'
+  | 'message_sent'
+  | 'message_received'
+  | 'send_held'
+  | 'call_attempt'
+  | 'call_outcome'
+  | 'classification'
+  | 'consent_check'
+  | 'dnc_check'
+  | 'dnc_updated'
+  | 'keyword'
+  | 'workflow_switch'
+  | 'jump_to_node'
+
+// What the conversation engine reports; the log adds where and by whom it happened
+export type AuditRecord = {
+  type: AuditEventType
+  // The conversation's (simulated) time
+  at: Date
+  details: Record<string, unknown>
+}
+
+export type AuditEntry = AuditRecord & {
+  // 1, 2, 3… in the order entries were appended
+  seq: number
+  // Wall-clock time the entry was written
+  recordedAt: Date
+  conversationId: string
+  workflow: string
+  // Username of whoever ran the conversation
+  actor: string
+  // False when storage refused the entry (e.g. localStorage is full); it is lost on reload
+  saved: boolean
+}
+
+export type AuditStorage = {
+  load(): AuditEntry[]
+  // Throws when the entry could not be stored
+  append(entry: Omit<AuditEntry, 'saved'>): void
+}
+
+export type AuditLog = {
+  append(record: AuditRecord, source: Pick<AuditEntry, 'conversationId' | 'workflow' | 'actor'>): AuditEntry
+  // Oldest first; optionally only one conversation's entries
+  list(conversationId?: string): readonly AuditEntry[]
+  subscribe(listener: (entry: AuditEntry) => void): () => void
+}
+
+const STORAGE_KEY = '2waySMS_audit_log'
+// Entries per localStorage key, so an append rewrites only the newest chunk
+const CHUNK_SIZE = 100
+
+export function createAuditLog(storage?: AuditStorage): AuditLog {
+  const entries = storage?.load() ?? []
+  const listeners = new Set<(entry: AuditEntry) => void>()
+
+  return {
+    append(record, source) {
+      const fields = {
+        ...record,
+        details: Object.freeze({ ...record.details }),
+        ...source,
+        seq: (entries[entries.length - 1]?.seq ?? 0) + 1,
+        recordedAt: new Date()
+      }
+      let saved = true
+      try {
+        storage?.append(fields)
+      } catch {
+        saved = false
+      }
+      const entry: AuditEntry = Object.freeze({ ...fields, saved })
+      entries.push(entry)
+      listeners.forEach(listener => listener(entry))
+      return entry
+    },
+    list: conversationId => conversationId ? entries.filter(entry => entry.conversationId === conversationId) : [...entries],
+    subscribe(listener) {
+      listeners.add(listener)
+      return () => { listeners.delete(listener) }
+    }
+  }
+}
+
+function serializeEntry(entry: Omit<AuditEntry, 'saved'>): Record<string, unknown> {
+  return {
+    seq: entry.seq,
+    type: entry.type,
+    at: entry.at.toISOString(),
+    recordedAt: entry.recordedAt.toISOString(),
+    conversationId: entry.conversationId,
+    workflow: entry.workflow,
+    actor: entry.actor,
+    // Dates in the details (e.g. when a held text was due) become ISO 8601 strings
+    details: entry.details
+  }
+}
+
+// The first chunk keeps the original key, so logs saved before chunking still load
+function chunkKey(index: number): string {
+  return index === 0 ? STORAGE_KEY : `${STORAGE_KEY}.${index}`
+}
+
+// Kept in localStorage in chunks of CHUNK_SIZE entries. A failed write throws,
+// so the log keeps the entry in memory marked as not saved.
+export function createLocalAuditStorage(): AuditStorage {
+  let chunkIndex = 0
+  let chunk: Record<string, unknown>[] = []
+  return {
+    load() {
+      const raw: Record<string, unknown>[] = []
+      for (let index = 0; localStorage.getItem(chunkKey(index)) !== null; index++) {
+        chunkIndex = index
+        try {
+          chunk = JSON.parse(localStorage.getItem(chunkKey(index)) ?? '[]')
+        } catch {
+          chunk = []
+        }
+        raw.push(...chunk)
+      }
+      return raw.map(item => {
+        const entry = item as Omit<AuditEntry, 'at' | 'recordedAt' | 'saved'> & { at: string, recordedAt: string }
+        return Object.freeze({ ...entry, at: new Date(entry.at), recordedAt: new Date(entry.recordedAt), saved: true })
+      })
+    },
+    append(entry) {
+      const index = chunk.length >= CHUNK_SIZE ? chunkIndex + 1 : chunkIndex
+      const next = [...(index === chunkIndex ? chunk : []), serializeEntry(entry)]
+      localStorage.setItem(chunkKey(index), JSON.stringify(next))
+      chunkIndex = index
+      chunk = next
+    }
+  }
+}
+
+// One JSON object per line, oldest first
+export function auditLogToJsonLines(entries: readonly AuditEntry[]): string {
+  return entries.map(entry => JSON.stringify(serializeEntry(entry))).join('\n') + (entries.length ? '\n' : '')
+}
+
+// e.g. "audit-log-2025-03-14T10-30.jsonl"
+export function getAuditLogFileName(exportedAt = new Date()): string {
+  return `audit-log-${exportedAt.toISOString().slice(0, 16).replace(':', '-')}.jsonl`
+}
+
+// One line for the audit panel, e.g. "Text sent: Hello, we just called…"
+export function summarizeAuditEntry(entry: AuditRecord): string {
+  const details = entry.details as Record<string, string | number | boolean | undefined>
+  switch (entry.type) {
+    case 'conversation_started':
+      return `Conversation started: ${details.workflow} ${details.version}${details.aiEnabled ? ' with AI' : ''} to ${details.phone}`
+    case 'message_sent':
+      return `Text sent: ${details.text}`
+    case 'message_received':
+      return `Text received: ${details.text}`
+    case 'send_held':
+      return `Held for quiet hours until ${details.until} (${details.timeZone})`
+    case 'call_attempt':
+      return `Call placed to ${details.phone}`
+    case 'call_outcome':
+      return `Call ${details.outcome}`
+    case 'classification':
+      return `"${details.text}" categorized as ${details.category} (${details.source}, ${Math.round(Number(details.confidence) * 100)}%)`
+    case 'consent_check':
+      return `Consent check${details.channel ? ` (${details.channel})` : ''}: ${details.allowed ? 'passed' : 'failed'}`
+    case 'dnc_check':
+      return `DNC check (${details.channel}): ${details.listed ? `listed, ${details.reason}` : 'not listed'}`
+    case 'dnc_updated':
+      return details.change === 'listed'
+        ? `Added to DNC list (${(entry.details.channels as string[]).join(', ')}): ${details.reason}`
+        : `Removed from DNC list (${details.source}${details.manual ? ', by hand' : ''})`
+    case 'keyword':
+      return `Keyword ${details.keyword} (${details.action})`
+    case 'workflow_switch':
+      return `Workflow switched from ${details.from} to ${details.to}`
+    case 'jump_to_node':
+      return `Jumped to diagram node ${details.nodeId}`
+  }
+}
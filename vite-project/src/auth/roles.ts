@@ -0,0 +1,28 @@
+export type Role = 'viewer' | 'script_editor' | 'compliance_reviewer'
+
+// edit_workflows: dialogue editor edits and other changes to workflow scripts
+// review_compliance: compliance sign-offs and audit exports
+export type Permission = 'edit_workflows' | 'review_compliance'
+
+export const ROLES: Role[] = ['viewer', 'script_editor', 'compliance_reviewer']
+
+export const ROLE_LABELS: Record<Role, string> = {
+  viewer: 'Viewer',
+  script_editor: 'Script editor',
+  compliance_reviewer: 'Compliance reviewer'
+}
+
+// Every role can run the demo; these are the extra permissions per role
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  viewer: [],
+  script_editor: ['edit_workflows'],
+  compliance_reviewer: ['review_compliance']
+}
+
+export function isRole(value: unknown): value is Role {
+  return ROLES.includes(value as Role)
+}
+
+export function roleHasPermission(role: Role, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission)
+}
@@ -0,0 +1,216 @@
+import { getClassifierProxyUrl } from '../classifier.ts'
+import { isRole, roleHasPermission } from './roles.ts'
+import type { Permission, Role } from './roles.ts'
+import { hashPassword, randomId, signSessionToken, verifyPassword, verifySessionToken } from './tokens.ts'
+
+/**
+ * Sign-in for the demo. Credentials are checked by the auth server (the
+ * classifier proxy's /auth endpoints, VITE_AUTH_URL) which returns a signed,
+ * expiring session token. Dev builds without a server use an in-browser
+ * stand-in with fixed demo users.
+ */
+
+export type Session = {
+  token: string
+  username: string
+  role: Role
+  // ms since epoch
+  expiresAt: number
+}
+
+type AuthBackend = {
+  name: string
+  login: (username: string, password: string) => Promise<Session | null>
+  // Checks a stored token is still valid (signature, expiry, not logged out)
+  verify: (token: string) => Promise<Session | null>
+  logout: (token: string) => Promise<void>
+}
+
+const SESSION_KEY = '2waySMS_session'
+// Shown on the login form after a reload (e.g. "session expired")
+const NOTICE_KEY = '2waySMS_login_notice'
+
+let currentSession: Session | null = null
+let expiryTimer: number | null = null
+
+export function getAuthUrl(): string | null {
+  return import.meta.env.VITE_AUTH_URL?.replace(/\/+$/, '') || getClassifierProxyUrl()
+}
+
+function parseSession(data: unknown): Session | null {
+  const session = data as Partial<Session> | null
+  if (!session || typeof session.token !== 'string' || typeof session.username !== 'string' || !isRole(session.role) || typeof session.expiresAt !== 'number') {
+    return null
+  }
+  return session as Session
+}
+
+function createServerAuthBackend(authUrl: string): AuthBackend {
+  return {
+    name: 'server',
+    async login(username, password) {
+      const response = await fetch(`${authUrl}/auth/login`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password })
+      })
+      if (response.status === 401) return null
+      if (!response.ok) {
+        throw new Error(response.status === 429 ? 'Too many sign-in attempts. Please wait a minute.' : `Sign-in failed (${response.status})`)
+      }
+      return parseSession(await response.json())
+    },
+    async verify(token) {
+      const response = await fetch(`${authUrl}/auth/session`, { headers: { 'Authorization': `Bearer ${token}` } })
+      return response.ok ? parseSession(await response.json()) : null
+    },
+    async logout(token) {
+      await fetch(`${authUrl}/auth/logout`, { method: 'POST', headers: { 'Authorization': `Bearer ${token}` } })
+    }
+  }
+}
+
+// Dev stand-in users; each password is the username
+const DEV_USERS: { username: string, role: Role, passwordHash: string }[] = [
+  { username: 'viewer', role: 'viewer', passwordHash: 'pbkdf2-sha256$210000$iBF2NYwwTJ_3P-qcEb6wHw$f_dHKhPVznv7s5dwzO_v9Lgt0q9OM_BOD3wJshMnSs8' },
+  { username: 'editor', role: 'script_editor', passwordHash: 'pbkdf2-sha256$210000$0WdYB9ezb5BOlAMrAS4lOA$Wrj3eYVO2eKWt-h038_rI_EbYKcdpBnGDM2sRQGhazw' },
+  { username: 'reviewer', role: 'compliance_reviewer', passwordHash: 'pbkdf2-sha256$210000$i9pL4KSaXJ7lqaHHHcPtyw$hxNaJ7POByNtLYzqpBlC3QR1jtKl5_amULIg3yjqw-I' }
+]
+const DEV_SECRET_KEY = '2waySMS_dev_auth_secret'
+const DEV_SESSION_TTL_MS = 8 * 60 * 60 * 1000
+
+/**
+ * Local stand-in for the auth server. Tokens are signed with a per-tab secret
+ * in sessionStorage, so they stop working when the tab closes.
+ */
+function createDevAuthBackend(): AuthBackend {
+  function getSecret(): string {
+    let secret = sessionStorage.getItem(DEV_SECRET_KEY)
+    if (!secret) {
+      secret = randomId(32)
+      sessionStorage.setItem(DEV_SECRET_KEY, secret)
+    }
+    return secret
+  }
+
+  return {
+    name: 'dev',
+    async login(username, password) {
+      const user = DEV_USERS.find(candidate => candidate.username === username)
+      // Hash anyway so unknown users take as long as wrong passwords
+      const valid = await verifyPassword(password, user?.passwordHash ?? await hashPassword(''))
+      if (!user || !valid) return null
+
+      const claims = { sub: user.username, role: user.role, exp: Date.now() + DEV_SESSION_TTL_MS, jti: randomId() }
+      return { token: await signSessionToken(claims, getSecret()), username: claims.sub, role: claims.role, expiresAt: claims.exp }
+    },
+    async verify(token) {
+      const claims = await verifySessionToken(token, getSecret())
+      return claims ? { token, username: claims.sub, role: claims.role, expiresAt: claims.exp } : null
+    },
+    async logout() {
+      // Rotating the secret invalidates every token it signed
+      sessionStorage.removeItem(DEV_SECRET_KEY)
+    }
+  }
+}
+
+function getAuthBackend(): AuthBackend | null {
+  const authUrl = getAuthUrl()
+  if (authUrl) return createServerAuthBackend(authUrl)
+  return import.meta.env.DEV ? createDevAuthBackend() : null
+}
+
+export function isAuthConfigured(): boolean {
+  return getAuthBackend() !== null
+}
+
+export function isDevAuth(): boolean {
+  return getAuthBackend()?.name === 'dev'
+}
+
+export function getSession(): Session | null {
+  return currentSession
+}
+
+export function can(permission: Permission): boolean {
+  return currentSession !== null && roleHasPermission(currentSession.role, permission)
+}
+
+function setSession(session: Session | null) {
+  currentSession = session
+  if (session) {
+    sessionStorage.setItem(SESSION_KEY, JSON.stringify(session))
+  } else {
+    sessionStorage.removeItem(SESSION_KEY)
+  }
+}
+
+/**
+ * Signs in; returns the session, or null when the username or password is wrong.
+ * Throws when the auth server can't be reached or refuses the attempt.
+ */
+export async function login(username: string, password: string): Promise<Session | null> {
+  const backend = getAuthBackend()
+  if (!backend) throw new Error('Sign-in is not configured (VITE_AUTH_URL)')
+  const session = await backend.login(username, password)
+  setSession(session)
+  return session
+}
+
+// A saved value that isn't valid JSON counts as no session
+function loadStoredSession(): Session | null {
+  try {
+    return parseSession(JSON.parse(sessionStorage.getItem(SESSION_KEY) ?? 'null'))
+  } catch {
+    return null
+  }
+}
+
+// Restores the session saved in this tab if its token is still valid
+export async function restoreSession(): Promise<Session | null> {
+  const backend = getAuthBackend()
+  const stored = loadStoredSession()
+  if (!backend || !stored || stored.expiresAt <= Date.now()) {
+    setSession(null)
+    return null
+  }
+
+  try {
+    setSession(await backend.verify(stored.token))
+  } catch (error) {
+    console.error('❌ Could not verify the saved session:', error)
+    setSession(null)
+  }
+  return currentSession
+}
+
+export async function logout(notice?: string) {
+  const session = currentSession
+  setSession(null)
+  if (expiryTimer !== null) clearTimeout(expiryTimer)
+  if (notice) sessionStorage.setItem(NOTICE_KEY, notice)
+  if (session) {
+    try {
+      await getAuthBackend()?.logout(session.token)
+    } catch (error) {
+      console.error('❌ Logout request failed:', error)
+    }
+  }
+}
+
+// Calls `onExpired` when the current session's token expires
+export function watchSessionExpiry(onExpired: () => void) {
+  if (expiryTimer !== null) clearTimeout(expiryTimer)
+  if (!currentSession) return
+  // setTimeout can't wait longer than ~24.8 days
+  const delay = Math.min(currentSession.expiresAt - Date.now(), 2 ** 31 - 1)
+  expiryTimer = window.setTimeout(onExpired, Math.max(0, delay))
+}
+
+// Returns (and clears) the notice left for the login form
+export function takeLoginNotice(): string | null {
+  const notice = sessionStorage.getItem(NOTICE_KEY)
+  sessionStorage.removeItem(NOTICE_KEY)
+  return notice
+}
@@ -0,0 +1,97 @@
+import { isRole } from './roles.ts'
+import type { Role } from './roles.ts'
+
+/**
+ * Password hashes and signed session tokens, built on WebCrypto so the same
+ * code runs in the auth server (server/auth.ts) and the dev stand-in in the
+ * browser (session.ts).
+ *
+ * Password hash: pbkdf2-sha256$<iterations>$<salt>$<hash> (base64url)
+ * Session token: <claims JSON>.<HMAC-SHA256 signature> (base64url)
+ */
+
+export type SessionClaims = {
+  // Username
+  sub: string
+  role: Role
+  // Expiry, ms since epoch
+  exp: number
+  // Token id, so a logged-out token can be revoked before it expires
+  jti: string
+}
+
+const PBKDF2_ITERATIONS = 210_000
+const encoder = new TextEncoder()
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = ''
+  bytes.forEach(byte => { binary += String.fromCharCode(byte) })
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'))
+  return Uint8Array.from(binary, char => char.charCodeAt(0))
+}
+
+export function randomId(byteLength = 16): string {
+  return toBase64Url(crypto.getRandomValues(new Uint8Array(byteLength)))
+}
+
+async function derivePasswordHash(password: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveBits'])
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256)
+  return new Uint8Array(bits)
+}
+
+export async function hashPassword(password: string, iterations = PBKDF2_ITERATIONS): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16))
+  const hash = await derivePasswordHash(password, salt, iterations)
+  return `pbkdf2-sha256$${iterations}$${toBase64Url(salt)}$${toBase64Url(hash)}`
+}
+
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  const [scheme, iterations, salt, expected] = storedHash.split('$')
+  if (scheme !== 'pbkdf2-sha256' || !iterations || !salt || !expected) return false
+
+  const actual = await derivePasswordHash(password, fromBase64Url(salt), parseInt(iterations, 10))
+  const expectedBytes = fromBase64Url(expected)
+  if (actual.length !== expectedBytes.length) return false
+  // Compare every byte so the time taken doesn't reveal how much matched
+  let difference = 0
+  actual.forEach((byte, index) => { difference |= byte ^ expectedBytes[index] })
+  return difference === 0
+}
+
+function importSigningKey(secret: string) {
+  return crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify'])
+}
+
+export async function signSessionToken(claims: SessionClaims, secret: string): Promise<string> {
+  const payload = toBase64Url(encoder.encode(JSON.stringify(claims)))
+  const signature = await crypto.subtle.sign('HMAC', await importSigningKey(secret), encoder.encode(payload))
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`
+}
+
+/**
+ * Returns the token's claims when the signature is valid and it has not
+ * expired, otherwise null.
+ */
+export async function verifySessionToken(token: string, secret: string, now = Date.now()): Promise<SessionClaims | null> {
+  const [payload, signature] = token.split('.')
+  if (!payload || !signature) return null
+
+  try {
+    const valid = await crypto.subtle.verify('HMAC', await importSigningKey(secret), fromBase64Url(signature), encoder.encode(payload))
+    if (!valid) return null
+
+    const claims = JSON.parse(new TextDecoder().decode(fromBase64Url(payload))) as Partial<SessionClaims>
+    if (typeof claims.sub !== 'string' || !isRole(claims.role) || typeof claims.exp !== 'number' || typeof claims.jti !== 'string') {
+      return null
+    }
+    return claims.exp > now ? claims as SessionClaims : null
+  } catch {
+    // Malformed base64 or JSON
+    return null
+  }
+}
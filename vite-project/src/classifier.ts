@@ -0,0 +1,291 @@
+import { matchClassifierRules } from './classifierRules.ts'
+import { createLlmProvider } from './llmProviders.ts'
+import type { LlmProvider } from './llmProviders.ts'
+import type { ResponseCategory } from './types.ts'
+
+export const RESPONSE_CATEGORIES: ResponseCategory[] = ['Yes', 'Call at a different time', 'No', '24 hours later (No response)', 'Do not contact', 'Unknown message']
+
+// Which part of the classifier produced the category
+export type ClassifierSource = 'llm' | 'patterns' | 'rule'
+
+export type ClassificationResult = {
+  category: ResponseCategory
+  // 0-1, how sure the source is about the category
+  confidence: number
+  source: ClassifierSource
+  // Pattern (or LLM answer) that decided the category
+  matchedPattern?: string
+  // Name of the pattern matcher rule that fired
+  rule?: string
+  // LLM provider that answered (source 'llm' only)
+  provider?: string
+  latencyMs: number
+  // Category the source picked when low confidence routed the reply to 'Unknown message'
+  lowConfidenceCategory?: ResponseCategory
+}
+
+export type ClassifierOptions = {
+  // Try the LLM first (the AI toggle); pattern matching is always the fallback
+  useLlm: boolean
+  // LLM provider to ask directly (defaults to the configured one in dev builds; null skips the LLM)
+  provider?: LlmProvider | null
+  // Classifier proxy base URL (defaults to VITE_CLASSIFIER_PROXY_URL; null calls the provider directly)
+  proxyUrl?: string | null
+  // Session token sent to the proxy when it requires sign-in
+  authToken?: string
+  // Results below this confidence become 'Unknown message' (defaults to VITE_CLASSIFIER_CONFIDENCE_THRESHOLD or 0.5)
+  confidenceThreshold?: number
+}
+
+const DEFAULT_CONFIDENCE_THRESHOLD = 0.5
+
+export function getConfidenceThreshold(): number {
+  const configured = parseFloat(import.meta.env?.VITE_CLASSIFIER_CONFIDENCE_THRESHOLD ?? '')
+  return Number.isFinite(configured) ? configured : DEFAULT_CONFIDENCE_THRESHOLD
+}
+
+export function getClassifierProxyUrl(): string | null {
+  return import.meta.env?.VITE_CLASSIFIER_PROXY_URL?.replace(/\/+$/, '') || null
+}
+
+export const SYSTEM_PROMPT = `You are a text classifier for customer service SMS responses. Your task is to carefully read the user's message and categorize it into ONE of these EXACT categories (copy the category name exactly as shown):
+
+"Yes" - Use for: affirmative responses, agreement, willingness to be contacted, expressions of interest, "yes", "yeah", "sure", "okay", "call me", "I'm interested", "go ahead", "that works", "sounds good", "please do", "definitely", "absolutely"
+
+"Call at a different time" - Use for: requests to reschedule, time-specific requests, mentions of specific times/days, "call me at 3pm", "call tomorrow", "call next week", "call Monday", "call in the morning", "call later", "different time", "another time", "schedule", "appointment", any time-related scheduling
+
+"No" - Use for: negative responses, declining interest, "no", "nope", "not interested", "not now", "maybe later", "can't", "cannot", "busy", "not available", "not a good time", "decline", "pass", "not at this time"
+
+"24 hours later (No response)" - Use ONLY when there is effectively NO reply: empty message, blank message, or a single character/symbol with no meaning (e.g. ".", "x", "k", "?"). This means "they did not respond" or "their reply was empty". Do NOT use this when the user typed a real message that you don't understand.
+
+"Do not contact" - Use for: opt-out requests, DNC requests, "do not contact", "don't contact", "stop calling", "stop texting", "remove me", "unsubscribe", "opt out", "do not call", "don't call", "never call", "no more calls", "take me off", "remove from list", "DNC"
+
+"Unknown message" - Use when the user typed something but you cannot determine their intent. Use this for: unclear messages, ambiguous messages, questions you don't understand, gibberish that looks like words, messages that don't fit Yes/No/Time/DNC, or when you are unsure what they want. WHEN IN DOUBT, use "Unknown message". If they typed more than a few characters and you don't understand, use "Unknown message" NOT "24 hours later (No response)".
+
+EXAMPLES:
+User: "yes" → Yes
+User: "sure, call me" → Yes
+User: "call me at 3pm" → Call at a different time
+User: "call tomorrow morning" → Call at a different time
+User: "no" → No
+User: "not interested" → No
+User: "stop calling me" → Do not contact
+User: "unsubscribe" → Do not contact
+User: "" or " " or "." or "k" → 24 hours later (No response)
+User: "what?" → Unknown message
+User: "idk" → Unknown message
+User: "huh?" → Unknown message
+User: "what do you want" → Unknown message
+User: "asdfgh" → Unknown message
+User: "maybe" → Unknown message
+User: "call me maybe" → Call at a different time
+
+CRITICAL INSTRUCTIONS:
+1. Read the user's message CAREFULLY word-by-word and understand what they are actually saying
+2. If you do NOT understand what the user wants, respond with "Unknown message". Do NOT use "24 hours later (No response)" for messages you don't understand.
+3. "24 hours later (No response)" is ONLY for empty/no reply. "Unknown message" is for when they typed something but you can't classify it.
+4. When in doubt between "24 hours later (No response)" and "Unknown message", choose "Unknown message"
+5. Respond with ONLY the exact category name, nothing else - no explanations, no quotes, just the category name
+6. If someone says "call me at 3pm", that is "Call at a different time", not "Yes"
+7. If someone says "yes" or agrees, that is "Yes", not "Call at a different time"`
+
+type PartialResult = Omit<ClassificationResult, 'latencyMs'>
+
+/**
+ * Categorizes user text input using the configured LLM provider
+ * Falls back to pattern matching if the provider is missing or fails
+ */
+export async function categorizeUserResponse(userText: string, options: ClassifierOptions): Promise<ClassificationResult> {
+  const startedAt = performance.now()
+  const result = await classify(userText, options)
+  const threshold = options.confidenceThreshold ?? getConfidenceThreshold()
+
+  if (result.confidence < threshold && result.category !== 'Unknown message') {
+    console.log(`⚠️ Low confidence (${result.confidence.toFixed(2)} < ${threshold}) for ${result.category} - routing to Unknown message`)
+    return {
+      ...result,
+      category: 'Unknown message',
+      lowConfidenceCategory: result.category,
+      latencyMs: Math.round(performance.now() - startedAt)
+    }
+  }
+  return { ...result, latencyMs: Math.round(performance.now() - startedAt) }
+}
+
+async function classify(userText: string, options: ClassifierOptions): Promise<PartialResult> {
+  const text = userText.toLowerCase().trim()
+
+  // If empty or very short, treat as no response
+  if (!text || text.length < 2) {
+    return { category: '24 hours later (No response)', confidence: 1, source: 'rule', matchedPattern: 'empty or single-character reply' }
+  }
+
+  // Check if AI is enabled - if not, skip API call and use pattern matching
+  if (!options.useLlm) {
+    console.log('⚠️ AI is disabled - using pattern matching')
+    const fallback = categorizeUserResponsePatternMatching(userText)
+    console.log('🔄 Using pattern matching category:', fallback.category)
+    return fallback
+  }
+
+  // Production builds go through the classifier proxy, which holds the API key
+  const proxyUrl = options.proxyUrl === undefined ? getClassifierProxyUrl() : options.proxyUrl
+  if (proxyUrl && options.provider === undefined) {
+    try {
+      return await classifyViaProxy(proxyUrl, userText, options.authToken)
+    } catch (error) {
+      console.error('❌ Classifier proxy error:', error)
+      console.log('🔄 Falling back to pattern matching')
+      return categorizeUserResponsePatternMatching(userText)
+    }
+  }
+
+  // Calling the provider straight from the browser needs its key in the bundle, so it is dev-only
+  let provider = options.provider
+  if (provider === undefined) {
+    if (import.meta.env?.DEV) {
+      provider = createLlmProvider()
+    } else {
+      console.log('⚠️ No classifier proxy configured (VITE_CLASSIFIER_PROXY_URL) - direct LLM calls are dev-only')
+      provider = null
+    }
+  }
+
+  if (provider) {
+    try {
+      console.log(`🤖 Calling ${provider.name} LLM provider`)
+      console.log('📝 User input received:', JSON.stringify(userText))
+      const completion = await provider.complete({ system: SYSTEM_PROMPT, user: userText, temperature: 0.1, maxTokens: 30 })
+      const rawCategory = completion.text
+      console.log('✅ LLM raw response:', JSON.stringify(rawCategory))
+
+      const match = normalizeLlmCategory(rawCategory)
+      if (match) {
+        // Probability of the whole answer (product of its token probabilities), scaled down for loose matches
+        const answerProbability = completion.tokenLogprobs?.length
+          ? Math.exp(completion.tokenLogprobs.reduce((sum, logprob) => sum + logprob, 0))
+          : 0.9
+        console.log('✅ Using AI category:', match.category, '(normalized from:', rawCategory, ')')
+        return {
+          category: match.category,
+          confidence: answerProbability * match.quality,
+          source: 'llm',
+          matchedPattern: rawCategory,
+          provider: provider.name
+        }
+      }
+
+      // If invalid category, fall through to pattern matching
+      console.warn('⚠️ LLM returned invalid category:', rawCategory, '- falling back to pattern matching')
+    } catch (error) {
+      console.error(`❌ ${provider.name} LLM provider error:`, error)
+      console.log('🔄 Falling back to pattern matching')
+      // Fall through to pattern matching fallback
+    }
+  } else {
+    console.log('⚠️ No LLM provider configured - using pattern matching')
+  }
+
+  // Fallback to pattern matching if API fails or no key
+  const fallback = categorizeUserResponsePatternMatching(userText)
+  console.log('🔄 Using pattern matching category:', fallback.category)
+  return fallback
+}
+
+/**
+ * Asks the classifier proxy (server/proxy.ts) to categorize the reply. The proxy
+ * answers with the classification before the confidence threshold is applied.
+ */
+async function classifyViaProxy(proxyUrl: string, userText: string, authToken?: string): Promise<PartialResult> {
+  console.log('🤖 Calling classifier proxy:', proxyUrl)
+  const response = await fetch(`${proxyUrl}/classify`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(authToken ? { 'Authorization': `Bearer ${authToken}` } : {}) },
+    body: JSON.stringify({ text: userText })
+  })
+
+  if (!response.ok) {
+    if (response.status === 429) {
+      console.warn(`⚠️ Classifier proxy rate limit exceeded (retry after ${response.headers.get('Retry-After') ?? '?'}s)`)
+    }
+    throw new Error(`Classifier proxy error: ${response.status}`)
+  }
+
+  const data = await response.json() as Partial<PartialResult>
+  if (!data.category || !RESPONSE_CATEGORIES.includes(data.category) || typeof data.confidence !== 'number' || !data.source) {
+    throw new Error('Classifier proxy returned an invalid result')
+  }
+  console.log('✅ Proxy category:', data.category, `(${data.source}${data.provider ? `, ${data.provider}` : ''})`)
+  return {
+    category: data.category,
+    confidence: data.confidence,
+    source: data.source,
+    matchedPattern: data.matchedPattern,
+    rule: data.rule,
+    provider: data.provider
+  }
+}
+
+/**
+ * Maps the LLM's answer onto a category. `quality` is 1 for an exact answer,
+ * lower when the answer only matched loosely.
+ */
+function normalizeLlmCategory(rawCategory: string): { category: ResponseCategory, quality: number } | null {
+  // Normalize the response - remove quotes, extra whitespace, and normalize
+  const normalizedCategory = rawCategory
+    .replace(/^["']|["']$/g, '') // Remove surrounding quotes
+    .trim()
+
+  // Try to match variations of category names
+  const categoryMap: Record<string, ResponseCategory> = {
+    'yes': 'Yes',
+    'call at a different time': 'Call at a different time',
+    'no': 'No',
+    '24 hours later (no response)': '24 hours later (No response)',
+    '24 hours later': '24 hours later (No response)',
+    'no response': '24 hours later (No response)',
+    'do not contact': 'Do not contact',
+    'do not call': 'Do not contact',
+    'dnc': 'Do not contact',
+    'unknown message': 'Unknown message',
+    'unknown': 'Unknown message'
+  }
+
+  // Try exact match first
+  if (RESPONSE_CATEGORIES.includes(normalizedCategory as ResponseCategory)) {
+    return { category: normalizedCategory as ResponseCategory, quality: 1 }
+  }
+
+  // Try case-insensitive match
+  const lowerCategory = normalizedCategory.toLowerCase()
+  if (categoryMap[lowerCategory]) {
+    return { category: categoryMap[lowerCategory], quality: 0.95 }
+  }
+
+  // Try partial matching for longer category names
+  for (const [key, value] of Object.entries(categoryMap)) {
+    if (lowerCategory && (lowerCategory.includes(key) || key.includes(lowerCategory))) {
+      return { category: value, quality: 0.6 }
+    }
+  }
+  return null
+}
+
+/**
+ * Fallback pattern matching categorization (see classifierRules.ts)
+ */
+export function categorizeUserResponsePatternMatching(userText: string): PartialResult {
+  const match = matchClassifierRules(userText)
+  if (match) {
+    return {
+      category: match.rule.category,
+      confidence: match.rule.confidence,
+      source: 'patterns',
+      matchedPattern: match.matched,
+      rule: match.rule.name
+    }
+  }
+
+  // If no clear pattern matches, return Unknown
+  return { category: 'Unknown message', confidence: 1, source: 'patterns' }
+}
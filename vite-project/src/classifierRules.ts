@@ -0,0 +1,186 @@
+import type { ResponseCategory } from './types.ts'
+
+/**
+ * Token-aware rule engine behind the pattern matcher.
+ *
+ * Replies are split into clauses (at punctuation and "but") and clauses into
+ * word tokens, so phrases only match whole words ("no" does not match "know",
+ * "ok" does not match "book"). A phrase preceded by a negation in the same
+ * clause ("not okay", "don't want") is negated. Rules are checked in order and
+ * the first one that matches decides the category.
+ */
+
+export type ClassifierRule = {
+  // Reported as the rule that fired
+  name: string
+  category: ResponseCategory
+  confidence: number
+  // Word sequences to look for ("call me at")
+  phrases?: string[]
+  // Patterns tested against each clause's text
+  patterns?: RegExp[]
+  // 'skip' ignores negated matches (default), 'only' fires only on negated matches, 'ignore' doesn't check
+  negation?: 'skip' | 'only' | 'ignore'
+}
+
+export type RuleMatch = {
+  rule: ClassifierRule
+  // Phrase or pattern source that matched
+  matched: string
+}
+
+// How many tokens before a phrase a negation still applies to
+const NEGATION_WINDOW = 3
+const NEGATIONS = new Set(['not', 'no', 'never', 'cannot', 'cant', 'dont', 'wont', 'nobody', 'nothing'])
+// Words, keeping contractions ("don't") and clock times ("3:30") together
+const TOKEN_PATTERN = /[a-z0-9]+(?:[':][a-z0-9]+)*/g
+
+function isNegation(token: string): boolean {
+  return NEGATIONS.has(token) || token.endsWith("n't")
+}
+
+type Clause = { text: string, tokens: string[] }
+
+function splitClauses(userText: string): Clause[] {
+  const text = userText.toLowerCase().replace(/[’‘`]/g, "'")
+  return text
+    .split(/[,.;!?]+|\bbut\b/)
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(part => ({ text: part, tokens: part.match(TOKEN_PATTERN) ?? [] }))
+}
+
+function isNegatedAt(tokens: string[], index: number): boolean {
+  return tokens.slice(Math.max(0, index - NEGATION_WINDOW), index).some(isNegation)
+}
+
+// Token indexes where `phrase` starts in `tokens`
+function findPhrase(tokens: string[], phrase: string[]): number[] {
+  const starts: number[] = []
+  for (let i = 0; i + phrase.length <= tokens.length; i++) {
+    if (phrase.every((word, offset) => tokens[i + offset] === word)) {
+      starts.push(i)
+    }
+  }
+  return starts
+}
+
+function acceptsNegation(rule: ClassifierRule, negated: boolean): boolean {
+  const mode = rule.negation ?? 'skip'
+  if (mode === 'ignore') return true
+  return mode === 'only' ? negated : !negated
+}
+
+function matchRule(rule: ClassifierRule, clauses: Clause[]): RuleMatch | null {
+  for (const clause of clauses) {
+    for (const phrase of rule.phrases ?? []) {
+      const starts = findPhrase(clause.tokens, phrase.split(' '))
+      if (starts.some(start => acceptsNegation(rule, isNegatedAt(clause.tokens, start)))) {
+        return { rule, matched: phrase }
+      }
+    }
+    for (const pattern of rule.patterns ?? []) {
+      const match = clause.text.match(pattern)
+      if (!match || match.index === undefined) continue
+      // Negation is judged by the tokens before the match
+      const tokensBefore = clause.text.slice(0, match.index).match(TOKEN_PATTERN) ?? []
+      if (acceptsNegation(rule, isNegatedAt(tokensBefore, tokensBefore.length))) {
+        return { rule, matched: match[0].trim() }
+      }
+    }
+  }
+  return null
+}
+
+const YES_PHRASES = [
+  'yes', 'yeah', 'yep', 'yup', 'sure', 'ok', 'okay', 'sounds good', 'that works',
+  'go ahead', 'please do', 'call me', 'call back', 'reach out', 'contact me',
+  "i'm interested", 'interested', 'definitely', 'absolutely', 'of course',
+  'no problem', 'book me', 'book it'
+]
+
+// Checked in order; the first rule that matches wins
+export const classifierRules: ClassifierRule[] = [
+  {
+    name: 'dnc-request',
+    category: 'Do not contact',
+    confidence: 0.95,
+    // Opt-out phrases carry their own negation
+    negation: 'ignore',
+    phrases: [
+      'do not contact', "don't contact", 'dont contact', 'stop calling', 'stop texting', 'stop messaging',
+      'remove me', 'unsubscribe', 'opt out', 'do not call', "don't call", 'dont call', 'never call',
+      'no more calls', 'no more texts', 'take me off', 'remove from list', 'dnc', 'do not call list',
+      'leave me alone'
+    ]
+  },
+  {
+    // "maybe later" is a soft no, not a request for a specific time
+    name: 'no-vague-deferral',
+    category: 'No',
+    confidence: 0.7,
+    phrases: ['maybe later', 'some other time maybe']
+  },
+  {
+    name: 'time-clock',
+    category: 'Call at a different time',
+    confidence: 0.9,
+    patterns: [
+      /\b\d{1,2}(:\d{2})?\s*(am|pm|a\.m\.|p\.m\.)(?![a-z])/, // "3pm", "10:30 am"
+      /\b\d{1,2}:\d{2}\b/, // "3:30"
+      /\b(at|after|around|before|by)\s+\d{1,2}\b/ // "after 4"
+    ]
+  },
+  {
+    name: 'time-day',
+    category: 'Call at a different time',
+    confidence: 0.85,
+    phrases: [
+      'today', 'tonight', 'tomorrow', 'next week', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday',
+      'saturday', 'sunday', 'morning', 'afternoon', 'evening', 'noon', 'weekend'
+    ]
+  },
+  {
+    name: 'time-request',
+    category: 'Call at a different time',
+    confidence: 0.8,
+    phrases: [
+      'call at', 'call me at', 'call back at', 'different time', 'another time', 'better time',
+      'later', 'reschedule', 'schedule', 'appointment', 'when can', 'what time', 'what day',
+      'between', 'call me maybe'
+    ]
+  },
+  {
+    // "not okay", "not interested", "don't want"
+    name: 'no-negated-yes',
+    category: 'No',
+    confidence: 0.85,
+    negation: 'only',
+    phrases: [...YES_PHRASES, 'want', 'available', 'good time']
+  },
+  {
+    name: 'yes-affirmative',
+    category: 'Yes',
+    confidence: 0.85,
+    phrases: YES_PHRASES
+  },
+  {
+    name: 'no-decline',
+    category: 'No',
+    confidence: 0.8,
+    negation: 'ignore',
+    phrases: [
+      'no', 'nope', 'nah', 'not interested', 'not now', 'not right now', "can't", 'cant', 'cannot',
+      'busy', 'not available', 'not a good time', 'decline', 'pass', 'not at this time', 'no thanks'
+    ]
+  }
+]
+
+export function matchClassifierRules(userText: string, rules: ClassifierRule[] = classifierRules): RuleMatch | null {
+  const clauses = splitClauses(userText)
+  for (const rule of rules) {
+    const match = matchRule(rule, clauses)
+    if (match) return match
+  }
+  return null
+}
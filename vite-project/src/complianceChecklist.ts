@@ -0,0 +1,452 @@
+import type { AuditEntry } from './auditLog.ts'
+import { lintTranscript } from './scriptLinter.ts'
+import type { LintRule } from './scriptLinter.ts'
+import { escapeHtml } from './transcriptExport.ts'
+import type { Message } from './types.ts'
+
+/**
+ * The legal requirements for the two-way SMS launch as a tracked checklist:
+ * each requirement has a status, an owner, notes and, once a compliance
+ * reviewer signs it off, who signed it off and when. Requirements the demo
+ * implements are also checked against the last simulated conversation in the
+ * audit log. Tracking is kept in localStorage and exported as an HTML report.
+ */
+
+export type RequirementId =
+  | 'tcpa_consent'
+  | 'consent_provenance'
+  | 'ai_disclosure'
+  | 'rates_notice'
+  | 'stop_instructions'
+  | 'dnc_scrubbing'
+  | 'non_standard_responses'
+  | 'recording_retention'
+  | 'script_review'
+  | 'short_code'
+  | 'disclosure_frequency'
+  | 'nurture_diligence'
+  | 'reactive_checks'
+  | 'audit_trail'
+
+export type ComplianceRequirement = {
+  id: RequirementId
+  title: string
+  description: string
+  // Who the item is assigned to until someone else takes it over
+  defaultOwner?: string
+}
+
+export type RequirementStatus = 'not_started' | 'in_progress' | 'signed_off'
+
+export type RequirementTracking = {
+  status: RequirementStatus
+  owner: string
+  notes: string
+  // Username of the compliance reviewer who signed the item off
+  signedOffBy: string | null
+  signedOffAt: Date | null
+  updatedBy: string | null
+  updatedAt: Date | null
+}
+
+export type ChecklistItem = {
+  requirement: ComplianceRequirement
+  tracking: RequirementTracking
+}
+
+export type ChecklistStorage = {
+  load(): Partial<Record<RequirementId, RequirementTracking>>
+  save(tracking: Partial<Record<RequirementId, RequirementTracking>>): void
+}
+
+export type ComplianceChecklist = {
+  // In the order of the legal requirements list
+  list(): ChecklistItem[]
+  // Changing the status to signed_off records the actor and time as the sign-off; any other status clears it,
+  // and so does changing the owner or notes of a signed-off item (it goes back to in_progress)
+  update(id: RequirementId, changes: Partial<Pick<RequirementTracking, 'status' | 'owner' | 'notes'>>, actor: string, now?: Date): ChecklistItem
+}
+
+// 'not_run' when the last conversation didn't exercise the requirement
+export type AutomatedCheckResult = {
+  result: 'pass' | 'fail' | 'not_run'
+  detail: string
+}
+
+// The simulated conversation the automated checks ran on
+export type AutomatedCheckSource = {
+  conversationId: string
+  workflow: string
+  startedAt: Date
+}
+
+export type AutomatedChecks = {
+  source: AutomatedCheckSource | null
+  results: Partial<Record<RequirementId, AutomatedCheckResult>>
+}
+
+export const STATUS_LABELS: Record<RequirementStatus, string> = {
+  not_started: 'Not started',
+  in_progress: 'In progress',
+  signed_off: 'Signed off'
+}
+
+export const RESULT_LABELS: Record<AutomatedCheckResult['result'], string> = {
+  pass: 'Pass',
+  fail: 'Fail',
+  not_run: 'Not run'
+}
+
+export const COMPLIANCE_REQUIREMENTS: ComplianceRequirement[] = [
+  {
+    id: 'tcpa_consent',
+    title: 'TCPA consent on webforms',
+    description: 'Ensure each lead/webform includes explicit consent to be called and texted (covers prerecorded calls, autodialers, and SMS). Verify wording and that consent is captured.'
+  },
+  {
+    id: 'consent_provenance',
+    title: 'Verify provenance of consent before sending SMS',
+    description: 'Only send texts when the originating webform/lead contains the required consent; check consent status before each outbound texting campaign if not a one-time interaction.'
+  },
+  {
+    id: 'ai_disclosure',
+    title: 'AI disclosure',
+    description: "Clearly disclose that the customer is interacting with an AI/virtual agent in both voice and SMS channels (use the same language as ADT's digital assistant disclosure)."
+  },
+  {
+    id: 'rates_notice',
+    title: 'Message & data rates notice',
+    description: 'Include "message and data rates may apply" in the initial SMS message that starts a two-way conversation.'
+  },
+  {
+    id: 'stop_instructions',
+    title: 'STOP/opt-out instructions',
+    description: 'Include clear opt-out instructions (e.g., "Reply STOP to stop") in the initial SMS and ensure STOP requests are honored immediately.'
+  },
+  {
+    id: 'dnc_scrubbing',
+    title: 'DNC / DNT scrubbing and integration',
+    description: "Scrub all outbound calls and texts against the enterprise Do-Not-Call and Do-Not-Text lists; integrate Sierra with ADT's central DNC/DNT systems so updates (including ADNT/ADNC requests) are honored in real time."
+  },
+  {
+    id: 'non_standard_responses',
+    title: 'Handle non-standard responses',
+    description: 'Implement and sync a list of non-standard/trigger responses (e.g., "do not call/text") so those inputs on inbound messages are recognized and applied to DNC/DNT lists.'
+  },
+  {
+    id: 'recording_retention',
+    title: 'Recording retention & legal compliance',
+    description: 'Ensure recorded voice retention aligns with legal/retention schedules and that retention settings are configured per policy.'
+  },
+  {
+    id: 'script_review',
+    title: 'Script and disclosure review',
+    description: 'Obtain legal review/sign-off (Maria/Jamie) on outbound SMS and voice scripts, including required disclosures and AI wording, before production.',
+    defaultOwner: 'Maria, Jamie'
+  },
+  {
+    id: 'short_code',
+    title: 'Short code vs long code compliance',
+    description: 'Determine messaging channel (short code/long code); if using short code, allow time for carrier application/approval (often 3–4 months) and ensure compliance with carrier rules.'
+  },
+  {
+    id: 'disclosure_frequency',
+    title: 'Frequency/recurrence rules for disclosures',
+    description: 'Include required disclosures on the initial SMS that begins a conversation; re-send disclosures (message/data rates and STOP) when a new conversation is initiated after a period or when re-initiating contact (e.g., schedule-based follow-ups).'
+  },
+  {
+    id: 'nurture_diligence',
+    title: 'Diligence for nurture campaigns',
+    description: 'For ongoing or nurture SMS campaigns, ensure full integration with consent tracking and DNC/DNT systems to avoid re-contacting numbers that later opt out or were added to DNC.'
+  },
+  {
+    id: 'reactive_checks',
+    title: 'Real-time checks on reactive sends',
+    description: 'When Sierra/reactive systems initiate SMS in response to customer prompts (e.g., "text me"), perform a real-time DNC/DNT and consent check before sending.'
+  },
+  {
+    id: 'audit_trail',
+    title: 'Logging and audit trails',
+    description: 'Maintain logs of consent, opt-outs, message content, timestamps, and system checks to support compliance audits and defend against TCPA claims.'
+  }
+]
+
+const STORAGE_KEY = '2waySMS_compliance_checklist'
+
+function initialTracking(requirement: ComplianceRequirement): RequirementTracking {
+  return {
+    status: 'not_started',
+    owner: requirement.defaultOwner ?? '',
+    notes: '',
+    signedOffBy: null,
+    signedOffAt: null,
+    updatedBy: null,
+    updatedAt: null
+  }
+}
+
+export function createComplianceChecklist(storage?: ChecklistStorage): ComplianceChecklist {
+  const tracking = storage?.load() ?? {}
+
+  function getItem(requirement: ComplianceRequirement): ChecklistItem {
+    return { requirement, tracking: { ...(tracking[requirement.id] ?? initialTracking(requirement)) } }
+  }
+
+  return {
+    list: () => COMPLIANCE_REQUIREMENTS.map(getItem),
+    update(id, changes, actor, now = new Date()) {
+      const requirement = COMPLIANCE_REQUIREMENTS.find(candidate => candidate.id === id)
+      if (!requirement) {
+        throw new Error(`Unknown compliance requirement: ${id}`)
+      }
+      const current = tracking[id] ?? initialTracking(requirement)
+      const updated: RequirementTracking = { ...current, ...changes, updatedBy: actor, updatedAt: now }
+      const edited = (changes.owner !== undefined && changes.owner !== current.owner) || (changes.notes !== undefined && changes.notes !== current.notes)
+      if (!changes.status && current.status === 'signed_off' && edited) {
+        updated.status = 'in_progress'
+      }
+      if (updated.status !== current.status) {
+        updated.signedOffBy = updated.status === 'signed_off' ? actor : null
+        updated.signedOffAt = updated.status === 'signed_off' ? now : null
+      }
+      tracking[id] = updated
+      storage?.save(tracking)
+      return getItem(requirement)
+    }
+  }
+}
+
+export function createLocalChecklistStorage(): ChecklistStorage {
+  return {
+    load() {
+      try {
+        const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') as Record<RequirementId, Omit<RequirementTracking, 'signedOffAt' | 'updatedAt'> & { signedOffAt: string | null, updatedAt: string | null }>
+        return Object.fromEntries(Object.entries(saved).map(([id, item]) => [id, {
+          ...item,
+          signedOffAt: item.signedOffAt ? new Date(item.signedOffAt) : null,
+          updatedAt: item.updatedAt ? new Date(item.updatedAt) : null
+        }]))
+      } catch {
+        return {}
+      }
+    },
+    save(tracking) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(tracking))
+    }
+  }
+}
+
+// The texts of the conversation, as the linter reads them; ids are the entries'
+// seq, since sessions saved while message ids were timestamps can repeat one
+function getMessages(entries: AuditEntry[]): Message[] {
+  return entries
+    .filter(entry => entry.type === 'message_sent' || entry.type === 'message_received')
+    .map(entry => ({
+      id: String(entry.seq),
+      text: String(entry.details.text),
+      sender: entry.type === 'message_sent' ? 'bot' : 'user',
+      timestamp: entry.at
+    }))
+}
+
+function checkDisclosure(messages: Message[], rules: LintRule[], passDetail: string): AutomatedCheckResult {
+  const issues = [...lintTranscript(messages).values()].flat().filter(issue => rules.includes(issue.rule))
+  return issues.length
+    ? { result: 'fail', detail: issues.map(issue => issue.message).join('; ') }
+    : { result: 'pass', detail: passDetail }
+}
+
+// Texts after an opt-out (other than replies to keywords) until the customer opted back in
+function countSendsAfterOptOut(entries: AuditEntry[]): { optOuts: number, sends: number } {
+  let optedOut = false
+  let optOuts = 0
+  let sends = 0
+  entries.forEach(entry => {
+    if (entry.type === 'keyword') {
+      if (entry.details.action === 'opt_out') {
+        optedOut = true
+        optOuts++
+      } else if (entry.details.action === 'opt_in') {
+        optedOut = false
+      }
+    } else if (entry.type === 'message_sent' && optedOut && !entry.details.keywordReply) {
+      sends++
+    }
+  })
+  return { optOuts, sends }
+}
+
+function checkOptOut(entries: AuditEntry[], messages: Message[]): AutomatedCheckResult {
+  const instructions = checkDisclosure(messages, ['stop_instructions'], 'The first text says how to opt out')
+  if (instructions.result === 'fail') return instructions
+  const { optOuts, sends } = countSendsAfterOptOut(entries)
+  if (sends) {
+    return { result: 'fail', detail: `${sends} ${sends === 1 ? 'text' : 'texts'} sent after the customer opted out` }
+  }
+  return { result: 'pass', detail: optOuts ? `${instructions.detail}; nothing was sent after the opt-out` : instructions.detail }
+}
+
+// Every text (other than keyword replies) and call needs a DNC check of its channel that found the number unlisted
+function checkDncScrubbing(entries: AuditEntry[]): AutomatedCheckResult {
+  const lastCheck: Record<string, boolean | undefined> = {}
+  let contacts = 0
+  let unchecked = 0
+  let suppressed = 0
+  entries.forEach(entry => {
+    if (entry.type === 'dnc_check') {
+      lastCheck[String(entry.details.channel)] = !entry.details.listed
+      if (entry.details.listed) suppressed++
+    } else if ((entry.type === 'message_sent' && !entry.details.keywordReply) || entry.type === 'call_attempt') {
+      contacts++
+      if (!lastCheck[entry.type === 'call_attempt' ? 'voice' : 'sms']) unchecked++
+    }
+  })
+  if (!contacts && !suppressed) {
+    return { result: 'not_run', detail: 'No texts or calls went out' }
+  }
+  if (unchecked) {
+    return { result: 'fail', detail: `${unchecked} of ${contacts} texts and calls went out without a clear DNC/DNT check` }
+  }
+  return { result: 'pass', detail: `${contacts} texts and calls checked against the DNC/DNT lists${suppressed ? `, ${suppressed} suppressed` : ''}` }
+}
+
+// A "do not contact" reply has to put the number on the DNC/DNT list
+function checkNonStandardResponses(entries: AuditEntry[]): AutomatedCheckResult {
+  const requestIndex = entries.findIndex(entry => entry.type === 'classification' && entry.details.category === 'Do not contact')
+  if (requestIndex === -1) {
+    return { result: 'not_run', detail: 'The customer never asked not to be contacted' }
+  }
+  const listed = entries.slice(requestIndex).some(entry => entry.type === 'dnc_updated' && entry.details.change === 'listed' && entry.details.source === 'dnc_request')
+  return listed
+    ? { result: 'pass', detail: `"${entries[requestIndex].details.text}" put the number on the DNC/DNT list` }
+    : { result: 'fail', detail: `"${entries[requestIndex].details.text}" did not put the number on the DNC/DNT list` }
+}
+
+// Every text (other than keyword replies) and call needs a consent check of its channel that passed
+function checkConsentProvenance(entries: AuditEntry[]): AutomatedCheckResult {
+  if (!entries.some(entry => entry.type === 'consent_check')) {
+    return { result: 'not_run', detail: 'The workflow does not check consent (only the webform workflow does)' }
+  }
+  const lastCheck: Record<string, boolean | undefined> = {}
+  let contacts = 0
+  let unchecked = 0
+  entries.forEach(entry => {
+    if (entry.type === 'consent_check' && entry.details.channel) {
+      lastCheck[String(entry.details.channel)] = !!entry.details.allowed
+    } else if ((entry.type === 'message_sent' && !entry.details.keywordReply) || entry.type === 'call_attempt') {
+      contacts++
+      if (!lastCheck[entry.type === 'call_attempt' ? 'voice' : 'sms']) unchecked++
+    }
+  })
+  if (unchecked) {
+    return { result: 'fail', detail: `${unchecked} of ${contacts} texts and calls went out without consent to the channel` }
+  }
+  return contacts
+    ? { result: 'pass', detail: `Consent to the channel was checked before each of the ${contacts} texts and calls` }
+    : { result: 'pass', detail: 'Consent failed the check and the lead was not contacted' }
+}
+
+function checkAuditTrail(entries: AuditEntry[]): AutomatedCheckResult {
+  const count = (type: AuditEntry['type']) => entries.filter(entry => entry.type === type).length
+  if (!count('conversation_started')) {
+    return { result: 'fail', detail: 'The start of the conversation was not logged' }
+  }
+  const unsaved = entries.filter(entry => !entry.saved).length
+  if (unsaved) {
+    return { result: 'fail', detail: `${unsaved} of ${entries.length} entries could not be saved and are lost on reload` }
+  }
+  return {
+    result: 'pass',
+    detail: `${entries.length} entries (texts: ${count('message_sent') + count('message_received')}, DNC checks: ${count('dnc_check')}, consent checks: ${count('consent_check')}, keywords: ${count('keyword')})`
+  }
+}
+
+/**
+ * Pass/fail for the requirements the demo implements, from the audit log's
+ * latest conversation that sent a text. Requirements that need people or
+ * systems outside the demo (webform wording, retention, carrier approval) are
+ * left to the reviewers.
+ */
+export function runAutomatedChecks(log: readonly AuditEntry[]): AutomatedChecks {
+  const lastSent = [...log].reverse().find(entry => entry.type === 'message_sent')
+  if (!lastSent) {
+    return { source: null, results: {} }
+  }
+  const entries = log.filter(entry => entry.conversationId === lastSent.conversationId)
+  const messages = getMessages(entries)
+  return {
+    source: { conversationId: lastSent.conversationId, workflow: lastSent.workflow, startedAt: entries[0].at },
+    results: {
+      consent_provenance: checkConsentProvenance(entries),
+      ai_disclosure: checkDisclosure(messages, ['ai_disclosure'], 'The first text discloses the AI'),
+      rates_notice: checkDisclosure(messages, ['rates_disclosure'], 'The first text includes the message and data rates notice'),
+      stop_instructions: checkOptOut(entries, messages),
+      dnc_scrubbing: checkDncScrubbing(entries),
+      non_standard_responses: checkNonStandardResponses(entries),
+      disclosure_frequency: checkDisclosure(messages, ['disclosure_after_gap'], 'Every text after a day-long gap repeats the disclosures'),
+      audit_trail: checkAuditTrail(entries)
+    }
+  }
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit' })
+}
+
+const REPORT_STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; color: #1d1d1f; margin: 0; padding: 24px; }
+  .report { max-width: 900px; margin: 0 auto; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  .meta { font-size: 13px; color: #6e6e73; margin-bottom: 16px; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th, td { text-align: left; vertical-align: top; border-bottom: 1px solid #e5e5ea; padding: 8px 6px; }
+  th { font-size: 12px; color: #6e6e73; }
+  .description { color: #6e6e73; margin-top: 2px; }
+  .pass { color: #1e7b34; }
+  .fail { color: #c62828; font-weight: 600; }
+  .not_run { color: #6e6e73; }
+  .signed_off { color: #1e7b34; font-weight: 600; }
+`
+
+// Printable report of every requirement's tracking and automated check
+export function complianceReportToHtml(items: ChecklistItem[], automated: AutomatedChecks, exportedAt = new Date()): string {
+  const signedOff = items.filter(({ tracking }) => tracking.status === 'signed_off').length
+  const rows = items.map(({ requirement, tracking }) => {
+    const check = automated.results[requirement.id]
+    return `
+      <tr>
+        <td><strong>${escapeHtml(requirement.title)}</strong><div class="description">${escapeHtml(requirement.description)}</div></td>
+        <td class="${tracking.status}">${STATUS_LABELS[tracking.status]}${tracking.signedOffBy && tracking.signedOffAt ? `<div>by ${escapeHtml(tracking.signedOffBy)}, ${formatDate(tracking.signedOffAt)}</div>` : ''}</td>
+        <td>${escapeHtml(tracking.owner) || '—'}</td>
+        <td>${escapeHtml(tracking.notes).replace(/\n/g, '<br>') || '—'}</td>
+        <td>${check ? `<span class="${check.result}">${RESULT_LABELS[check.result]}</span><div class="description">${escapeHtml(check.detail)}</div>` : 'Manual'}</td>
+      </tr>`
+  }).join('')
+  const source = automated.source
+    ? `Automated checks from the ${escapeHtml(automated.source.workflow)} conversation started ${formatDate(automated.source.startedAt)}`
+    : 'No simulated conversation to run the automated checks on'
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Compliance report</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+  <div class="report">
+    <h1>Compliance report</h1>
+    <div class="meta">${signedOff} of ${items.length} requirements signed off · ${source} · exported ${formatDate(exportedAt)}</div>
+    <table>
+      <thead><tr><th>Requirement</th><th>Status</th><th>Owner</th><th>Notes</th><th>Automated check</th></tr></thead>
+      <tbody>${rows}</tbody>
+    </table>
+  </div>
+</body>
+</html>
+`
+}
+
+// e.g. "compliance-report-2026-10-19T14-05.html"
+export function getComplianceReportFileName(exportedAt = new Date()): string {
+  return `compliance-report-${exportedAt.toISOString().slice(0, 16).replace(':', '-')}.html`
+}
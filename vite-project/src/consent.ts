@@ -0,0 +1,92 @@
+import type { ContactChannel } from './dncRegistry.ts'
+
+/**
+ * TCPA consent captured with a lead: when and where it was given, which
+ * disclosure wording the lead agreed to and which channels it covers. The
+ * webform workflow only texts and calls a lead whose consent passes every check.
+ */
+
+export type ConsentRecord = {
+  grantedAt: Date
+  // Form the consent was given on, e.g. "adt.com/free-quote"
+  sourceForm: string
+  // Version of the consent disclosure shown next to the form's submit button
+  wordingVersion: string
+  channels: ContactChannel[]
+}
+
+export type ConsentCheck = {
+  label: string
+  passed: boolean
+  detail: string
+}
+
+export type ConsentVerdict = {
+  allowed: boolean
+  checks: ConsentCheck[]
+}
+
+// Disclosure versions by id; only approved ones count as consent
+export const CONSENT_WORDINGS: Record<string, { approved: boolean, text: string }> = {
+  'tcpa-2023-01': {
+    approved: false,
+    text: 'By submitting this form you agree that ADT may contact you.'
+  },
+  'tcpa-2024-06': {
+    approved: true,
+    text: 'By clicking Submit, I agree that ADT may call and text me at the number provided, including with autodialed and prerecorded calls and texts, about ADT products and offers. Consent is not a condition of purchase. Msg & data rates may apply. Reply STOP to opt out.'
+  }
+}
+
+// Consent older than this no longer covers a first contact
+export const CONSENT_MAX_AGE_DAYS = 90
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const CHANNEL_NAMES: Record<ContactChannel, string> = {
+  sms: 'texts',
+  voice: 'calls'
+}
+
+// Channels the consent covers right now (all of them pass every other check too)
+export function getConsentedChannels(consent: ConsentRecord | null, now: Date): ContactChannel[] {
+  return (['sms', 'voice'] as const).filter(channel => checkConsent(consent, now, [channel]).allowed)
+}
+
+// Every check the consent has to pass before the lead is texted or called on the given channels
+export function checkConsent(consent: ConsentRecord | null, now: Date, channels: ContactChannel[] = ['sms', 'voice']): ConsentVerdict {
+  if (!consent) {
+    return { allowed: false, checks: [{ label: 'Consent on file', passed: false, detail: 'The lead has no consent record' }] }
+  }
+
+  const wording = CONSENT_WORDINGS[consent.wordingVersion]
+  const ageDays = Math.max(0, Math.floor((now.getTime() - consent.grantedAt.getTime()) / DAY_MS))
+  const missing = channels.filter(channel => !consent.channels.includes(channel))
+  const checks: ConsentCheck[] = [
+    {
+      label: 'Consent on file',
+      passed: true,
+      detail: `Given ${consent.grantedAt.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })} on ${consent.sourceForm}`
+    },
+    {
+      label: 'Approved wording',
+      passed: !!wording?.approved,
+      detail: wording
+        ? `${consent.wordingVersion}${wording.approved ? '' : ' is no longer approved'}`
+        : `${consent.wordingVersion} is not a known disclosure`
+    },
+    {
+      label: 'Channels',
+      passed: missing.length === 0,
+      detail: missing.length
+        ? `Does not cover ${missing.map(channel => CHANNEL_NAMES[channel]).join(' or ')}`
+        : `Covers ${consent.channels.map(channel => CHANNEL_NAMES[channel]).join(' and ')}`
+    },
+    {
+      label: 'Recent',
+      passed: ageDays <= CONSENT_MAX_AGE_DAYS,
+      detail: `Given ${ageDays} ${ageDays === 1 ? 'day' : 'days'} ago (limit ${CONSENT_MAX_AGE_DAYS})`
+    }
+  ]
+  return { allowed: checks.every(check => check.passed), checks }
+}
@@ -0,0 +1,152 @@
+/**
+ * Do-Not-Contact registry: numbers that must not be texted (Do-Not-Text) or
+ * called (Do-Not-Call). The local list is updated when a customer opts out or
+ * asks not to be contacted and is passed on to the enterprise list, which
+ * stands in for ADT's central DNC/DNT systems. Lookups are synchronous so
+ * every text and call can be checked right before it goes out.
+ */
+
+export type ContactChannel = 'sms' | 'voice'
+
+// Why the number is listed: a STOP-style keyword, a "do not contact" reply, or the enterprise list
+export type DncSource = 'opt_out' | 'dnc_request' | 'enterprise'
+
+export type DncEntry = {
+  // E.164, e.g. "+15550100123"
+  phone: string
+  channels: ContactChannel[]
+  source: DncSource
+  reason: string
+  addedAt: Date
+}
+
+// Where the local list is kept between page loads
+export type DncStorage = {
+  load(): DncEntry[]
+  save(entries: DncEntry[]): void
+}
+
+// Central DNC/DNT list: looked up on every send, told about every local change
+export type EnterpriseDncList = {
+  name: string
+  lookup(phone: string, channel: ContactChannel): DncEntry | null
+  report(entry: DncEntry): void
+  withdraw(phone: string, source: DncSource): void
+}
+
+export type DncRegistry = {
+  // The entry that blocks contacting the number on the channel (local list first), or null
+  check(phone: string, channel: ContactChannel): DncEntry | null
+  // Lists the number; channels are merged into an existing entry from the same source
+  add(entry: DncEntry): void
+  // Takes the number's local entries from the source off the list (e.g. START after STOP)
+  remove(phone: string, source: DncSource): void
+  // Local entries, newest first
+  list(): DncEntry[]
+}
+
+const STORAGE_KEY = '2waySMS_dnc_registry'
+
+export const CHANNEL_LABELS: Record<ContactChannel, string> = {
+  sms: 'Do-Not-Text',
+  voice: 'Do-Not-Call'
+}
+
+export const SOURCE_LABELS: Record<DncSource, string> = {
+  opt_out: 'opted out',
+  dnc_request: 'asked not to be contacted',
+  enterprise: 'enterprise list'
+}
+
+export function normalizePhone(phone: string): string {
+  const digits = phone.replace(/\D/g, '')
+  // US numbers without the country code
+  return digits.length === 10 ? `+1${digits}` : `+${digits}`
+}
+
+export function createDncRegistry(options: { storage?: DncStorage, enterprise?: EnterpriseDncList | null } = {}): DncRegistry {
+  const { storage, enterprise } = options
+  let entries = storage?.load() ?? []
+
+  function save() {
+    storage?.save(entries)
+  }
+
+  return {
+    check(phone, channel) {
+      const normalized = normalizePhone(phone)
+      const local = entries.find(entry => entry.phone === normalized && entry.channels.includes(channel))
+      return local ?? enterprise?.lookup(normalized, channel) ?? null
+    },
+    add(entry) {
+      const listed = { ...entry, phone: normalizePhone(entry.phone) }
+      const existing = entries.find(candidate => candidate.phone === listed.phone && candidate.source === listed.source)
+      if (existing) {
+        existing.channels = [...new Set([...existing.channels, ...listed.channels])]
+        existing.reason = listed.reason
+        existing.addedAt = listed.addedAt
+      } else {
+        entries = [listed, ...entries]
+      }
+      save()
+      enterprise?.report(existing ?? listed)
+    },
+    remove(phone, source) {
+      const normalized = normalizePhone(phone)
+      entries = entries.filter(entry => !(entry.phone === normalized && entry.source === source))
+      save()
+      enterprise?.withdraw(normalized, source)
+    },
+    list: () => [...entries].sort((a, b) => b.addedAt.getTime() - a.addedAt.getTime())
+  }
+}
+
+export function createLocalDncStorage(): DncStorage {
+  return {
+    load() {
+      try {
+        const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]') as (Omit<DncEntry, 'addedAt'> & { addedAt: string })[]
+        return saved.map(entry => ({ ...entry, addedAt: new Date(entry.addedAt) }))
+      } catch {
+        return []
+      }
+    },
+    save(entries) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(entries))
+    }
+  }
+}
+
+// Numbers on the stand-in enterprise list from the start
+const MOCK_ENTERPRISE_NUMBERS: { phone: string, channels: ContactChannel[] }[] = [
+  { phone: '+1 (555) 010-0199', channels: ['sms', 'voice'] },
+  { phone: '+1 (555) 010-0142', channels: ['voice'] }
+]
+
+/**
+ * In-memory stand-in for the enterprise DNC/DNT service. Numbers reported by
+ * the local registry are listed until withdrawn, as the real service would
+ * sync them to every other sending system.
+ */
+export function createMockEnterpriseDncList(numbers = MOCK_ENTERPRISE_NUMBERS): EnterpriseDncList {
+  const listed = new Map<string, DncEntry[]>()
+  const seededAt = new Date(0)
+  numbers.forEach(({ phone, channels }) => {
+    const normalized = normalizePhone(phone)
+    listed.set(normalized, [{ phone: normalized, channels, source: 'enterprise', reason: 'On the enterprise DNC/DNT list', addedAt: seededAt }])
+  })
+
+  return {
+    name: 'mock',
+    lookup(phone, channel) {
+      return listed.get(phone)?.find(entry => entry.channels.includes(channel)) ?? null
+    },
+    report(entry) {
+      const current = listed.get(entry.phone) ?? []
+      listed.set(entry.phone, [...current.filter(candidate => candidate.source !== entry.source), { ...entry }])
+    },
+    withdraw(phone, source) {
+      listed.set(phone, (listed.get(phone) ?? []).filter(candidate => candidate.source !== source))
+    }
+  }
+}
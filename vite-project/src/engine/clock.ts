@@ -0,0 +1,86 @@
+/**
+ * Time source for the conversation engine. The browser uses the system clock;
+ * headless runs use a manual clock so step delays and the 24 hour wait pass
+ * without waiting. Either way the engine wraps it in a virtual clock that the
+ * time-passing waits move forward.
+ */
+export type Clock = {
+  now(): Date
+  setTimeout(callback: () => void, ms: number): void
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+  setTimeout: (callback, ms) => { setTimeout(callback, ms) }
+}
+
+// Simulated time on top of another clock, so "24 hours later" actually moves the time on
+export type VirtualClock = Clock & {
+  // Jump forward; timers already scheduled keep their remaining delay
+  skip(ms: number): void
+  // How far the simulated time is ahead of the underlying clock
+  getOffset(): number
+  setOffset(ms: number): void
+}
+
+export function createVirtualClock(base: Clock = systemClock): VirtualClock {
+  let offset = 0
+  return {
+    now: () => new Date(base.now().getTime() + offset),
+    setTimeout: (callback, ms) => base.setTimeout(callback, ms),
+    skip(ms) {
+      offset += Math.max(0, ms)
+    },
+    getOffset: () => offset,
+    setOffset(ms) {
+      offset = Math.max(0, ms)
+    }
+  }
+}
+
+export type ManualClock = Clock & {
+  // Move time forward, running the timers that come due on the way
+  advance(ms: number): void
+  // Run timers (including ones they schedule) until none are left; returns how many ran
+  runAll(limit?: number): number
+}
+
+export function createManualClock(start = new Date()): ManualClock {
+  let current = start.getTime()
+  let timers: { at: number, order: number, callback: () => void }[] = []
+  let order = 0
+
+  function takeNext(until: number) {
+    timers.sort((a, b) => a.at - b.at || a.order - b.order)
+    const next = timers[0]
+    if (!next || next.at > until) return undefined
+    timers = timers.slice(1)
+    return next
+  }
+
+  return {
+    now: () => new Date(current),
+    setTimeout(callback, ms) {
+      timers.push({ at: current + Math.max(0, ms), order: order++, callback })
+    },
+    advance(ms) {
+      const until = current + ms
+      for (let timer = takeNext(until); timer; timer = takeNext(until)) {
+        current = timer.at
+        timer.callback()
+      }
+      current = until
+    },
+    runAll(limit = 10_000) {
+      let count = 0
+      for (let timer = takeNext(Infinity); timer; timer = takeNext(Infinity)) {
+        if (++count > limit) {
+          throw new Error(`Timers kept scheduling new timers after ${limit} runs`)
+        }
+        current = timer.at
+        timer.callback()
+      }
+      return count
+    }
+  }
+}
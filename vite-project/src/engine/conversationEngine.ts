@@ -0,0 +1,730 @@
+import type { AuditEventType, AuditRecord } from '../auditLog.ts'
+import { categorizeUserResponse } from '../classifier.ts'
+import type { ClassificationResult } from '../classifier.ts'
+import { checkConsent, getConsentedChannels } from '../consent.ts'
+import { createDncRegistry } from '../dncRegistry.ts'
+import type { ContactChannel, DncEntry, DncRegistry, DncSource } from '../dncRegistry.ts'
+import { sampleLead } from '../leads.ts'
+import type { Lead } from '../leads.ts'
+import { getKeywordSettings, matchKeyword } from '../messagingKeywords.ts'
+import type { KeywordSettings } from '../messagingKeywords.ts'
+import { getNextSendingTime, isWithinSendingHours } from '../quietHours.ts'
+import { extractRequestedTime } from '../timeExtraction.ts'
+import type { RequestedTime } from '../timeExtraction.ts'
+import { fromWallClock, toWallClock } from '../timeZones.ts'
+import type { ConversationState, Message, MessageClassification, StateTransition } from '../types.ts'
+import { isConfirmVisitIntent } from '../workflows/confirmVisit.ts'
+import { findPathToNode, getFollowUpWaitDays, getMaxAttempts, getWorkflow, linkTarget, renderTemplate } from '../workflows/index.ts'
+import type { StepLink, WorkflowContext, WorkflowDefinition, WorkflowStep } from '../workflows/index.ts'
+import { createVirtualClock, systemClock } from './clock.ts'
+import type { Clock } from './clock.ts'
+
+/**
+ * The conversation state machine without the DOM: walks the workflow steps,
+ * sends the bot messages, categorizes typed replies and holds the state that
+ * the phone UI, the dataflow diagram and saved sessions are built from. Views
+ * subscribe to its events; all timing goes through the injected clock.
+ */
+
+// First message of every conversation, sent again after each 24 hour wait
+export const INTRO_MESSAGE = "Hi, I'm ADT's Digital Assistant powered by AI! This chat may be monitored or recorded. Msg&DataRatesApply. STOP2end"
+
+const OUTSIDE_BUSINESS_HOURS_MESSAGE = 'We can only call between 9:00 AM and 5:00 PM. Please pick a time in that window.'
+const END_CALL_MESSAGE = 'Thank you for calling us! We will keep in contact using this number.'
+// Step message delay and `next` link delay unless the workflow sets its own
+const DEFAULT_DELAY_MS = 500
+// How long "24 hours later" takes at 1x
+const TIME_PASSING_MS = 3500
+// Simulated time a follow-up wait (wait_24h) skips per day of its cadence
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Everything needed to rebuild a conversation (saved sessions add their id and owner)
+export type ConversationData = {
+  workflow: string
+  version: string
+  aiEnabled: boolean
+  currentState: ConversationState
+  currentStepId: string | null
+  // Whether the current step already sent its message and started its action
+  currentStepRan: boolean
+  scheduledDateTime: Date | null
+  userHasStopped: boolean
+  answers: Record<string, string>
+  // Follow-up attempts made so far, keyed by the follow-up step
+  followUpAttempts: Record<string, number>
+  messages: Message[]
+  stateTransitions: StateTransition[]
+  // Simulated time skipped so far (how far the conversation's clock is ahead of the real one)
+  timeOffsetMs: number
+}
+
+// Sessions saved before transitions, simulated time or follow-up attempts were tracked lack them
+type TrackedLater = 'stateTransitions' | 'timeOffsetMs' | 'followUpAttempts'
+export type SavedConversationData = Omit<ConversationData, TrackedLater> & Partial<Pick<ConversationData, TrackedLater>>
+
+export type StepAction = 'call' | 'call_screen' | 'pick_datetime'
+
+export type ConversationEvent =
+  // A conversation was started, restored or rebuilt; pending timers no longer fire
+  | { type: 'reset' }
+  // Messages were added, edited or removed
+  | { type: 'messages' }
+  // A step was entered (the state and the diagram's active node may have changed)
+  | { type: 'step', stepId: string }
+  // The current step needs the phone: ring, show the call screen or open the date picker
+  | { type: 'action', action: StepAction, requested: RequestedTime | null }
+  // Time passes: after durationMs the clock is skippedMs further on. The follow-up wait, the
+  // recipient's quiet hours (the step's messages are held until morning) or a manual skip
+  | { type: 'waiting', durationMs: number, skippedMs: number, reason: 'follow_up' | 'quiet_hours' | 'skip' }
+  // A typed reply is being categorized, and how it was categorized
+  | { type: 'classifying', text: string }
+  | { type: 'classified', result: ClassificationResult, recorded: boolean }
+  // The conversation switched workflow on its own (webform → confirm visit)
+  | { type: 'workflow', workflow: string, version: string }
+  // A text or call was blocked: the number is on the Do-Not-Contact registry (entry) or the lead's consent doesn't cover the channel
+  | { type: 'suppressed', channel: ContactChannel, entry: DncEntry | null, reason: string, text?: string }
+  // Something the compliance audit log records (sends, calls, checks, keywords, workflow switches)
+  | { type: 'audit', record: AuditRecord }
+
+export type ConversationListener = (event: ConversationEvent) => void
+
+export type ConversationEngineOptions = {
+  clock?: Clock
+  lead?: Lead
+  // Categorizes typed replies (default: the classifier, with the LLM when AI is on)
+  classify?: (text: string, useLlm: boolean) => Promise<ClassificationResult>
+  // Opt-out, opt-in and help keywords and their replies (default: the standard set plus VITE_* settings)
+  keywords?: KeywordSettings
+  // Checked before every text and call, updated on opt-outs and DNC outcomes (default: an empty in-memory list)
+  dnc?: DncRegistry
+}
+
+export type ConversationEngine = {
+  subscribe(listener: ConversationListener): () => void
+  // Live state; read it, change it through the methods below
+  getState(): Readonly<ConversationData>
+  // Copy of the state, for saving
+  getData(): ConversationData
+  getActiveWorkflow(): WorkflowDefinition
+  getCurrentStep(): WorkflowStep | undefined
+  getContext(): WorkflowContext
+  // The conversation's simulated time, used for message timestamps and scheduling
+  now(): Date
+  // Let time pass (as the follow-up wait does), e.g. to see how a reply lands a few days later
+  passTime(ms: number): void
+  // Settings for the next start(); the current conversation keeps running
+  configure(settings: { workflow?: string, version?: string, aiEnabled?: boolean, lead?: Lead }): void
+  // Divides every delay, e.g. 2 runs the conversation twice as fast
+  setSpeed(speed: number): void
+  getSpeed(): number
+  start(): void
+  restore(data: SavedConversationData): void
+  // Rebuild the conversation as if it had walked straight to a diagram node
+  jumpToNode(nodeId: string): boolean
+  // Typed replies and tapped options both honor the STOP, START and HELP keywords
+  submitText(text: string, recorded?: MessageClassification): Promise<void>
+  selectOption(option: string): void
+  answerCall(): void
+  declineCall(): void
+  endCall(): void
+  pickDateTime(date: Date): void
+  cancelDatePick(): void
+  editMessage(id: string, changes: Partial<Pick<Message, 'text' | 'options'>>): void
+  deleteMessage(id: string): void
+}
+
+export function createConversationEngine(options: ConversationEngineOptions = {}): ConversationEngine {
+  // Simulated time; waits skip it forward, a new conversation starts at the real time again
+  const clock = createVirtualClock(options.clock ?? systemClock)
+  let lead = options.lead ?? sampleLead
+  const classify = options.classify ?? ((text, useLlm) => categorizeUserResponse(text, { useLlm }))
+  const keywords = options.keywords ?? getKeywordSettings()
+  const dnc = options.dnc ?? createDncRegistry()
+  const listeners = new Set<ConversationListener>()
+
+  const state: ConversationData = {
+    workflow: 'webform',
+    version: 'A',
+    aiEnabled: false,
+    currentState: 'initial',
+    currentStepId: null,
+    currentStepRan: false,
+    scheduledDateTime: null,
+    userHasStopped: false,
+    answers: {},
+    followUpAttempts: {},
+    messages: [],
+    stateTransitions: [],
+    timeOffsetMs: 0
+  }
+  // Bumped whenever the conversation is replaced, so timers of the old one do nothing
+  let run = 0
+  let speed = 1
+  // Time the customer asked for in their last categorized reply, booked by the next date pick step
+  let requestedTime: RequestedTime | null = null
+  // When the step being held by quiet hours was first due to send
+  let heldSince: Date | null = null
+  // Messages created by this engine; several can share a timestamp under the simulated clock
+  let messageCount = 0
+
+  function emit(event: ConversationEvent) {
+    listeners.forEach(listener => listener(event))
+  }
+
+  function audit(type: AuditEventType, details: Record<string, unknown>) {
+    emit({ type: 'audit', record: { type, at: clock.now(), details } })
+  }
+
+  function getActiveWorkflow(): WorkflowDefinition {
+    // Workflows without a definition fall back to the webform script
+    return getWorkflow(state.workflow) ?? getWorkflow('webform')!
+  }
+
+  function getCurrentStep(): WorkflowStep | undefined {
+    return state.currentStepId ? getActiveWorkflow().steps[state.currentStepId] : undefined
+  }
+
+  function getContext(): WorkflowContext {
+    return { version: state.version, scheduledDateTime: state.scheduledDateTime, lead, answers: state.answers, attempts: state.followUpAttempts, now: clock.now() }
+  }
+
+  // Whether contacting the lead on the channel is blocked by the DNC registry or, for workflows
+  // that require consent, by consent that doesn't cover the channel; the block is reported
+  function checkSuppressed(channel: ContactChannel, text?: string): boolean {
+    const entry = dnc.check(lead.phone, channel)
+    audit('dnc_check', { channel, phone: lead.phone, listed: !!entry, ...(entry ? { source: entry.source, reason: entry.reason } : {}) })
+    if (entry) {
+      emit({ type: 'suppressed', channel, entry, reason: entry.reason, text })
+      return true
+    }
+    if (!getActiveWorkflow().requiresConsent) return false
+    const verdict = checkConsent(lead.consent, clock.now(), [channel])
+    audit('consent_check', { channel, allowed: verdict.allowed, checks: verdict.checks.map(({ label, passed, detail }) => ({ label, passed, detail })) })
+    if (!verdict.allowed) {
+      const failed = verdict.checks.filter(check => !check.passed).map(check => check.detail)
+      emit({ type: 'suppressed', channel, entry: null, reason: `Not covered by the lead's consent: ${failed.join('; ')}`, text })
+    }
+    return !verdict.allowed
+  }
+
+  // The counter keeps ids unique on this page, the random part across restored sessions
+  function createMessageId(now: Date): string {
+    messageCount++
+    return `${now.getTime().toString(36)}-${messageCount.toString(36)}-${Math.random().toString(36).slice(2, 6)}`
+  }
+
+  // Keyword replies (the opt-out confirmation, HELP) answer the customer's own text, so they
+  // go out even to a customer who opted out or is on the Do-Not-Text list
+  function addMessage(sender: 'bot' | 'user', text: string, messageOptions?: string[], keywordReply = false): Message | undefined {
+    if (sender === 'bot' && !keywordReply && checkSuppressed('sms', text)) return
+    // Once the customer opted out, do not send another message no matter what
+    if (sender === 'bot' && state.userHasStopped && !keywordReply) return
+
+    const now = clock.now()
+    // The intro goes first, before the first bot message
+    if (sender === 'bot' && state.messages.length === 0) {
+      const intro: Message = { id: createMessageId(now), text: INTRO_MESSAGE, sender: 'bot', timestamp: now, state: state.currentState }
+      state.messages.push(intro)
+      audit('message_sent', { messageId: intro.id, text: intro.text, state: intro.state })
+    }
+    const message: Message = { id: createMessageId(now), text, sender, timestamp: now, options: messageOptions, state: state.currentState }
+    if (sender === 'bot' && heldSince && !keywordReply) {
+      message.heldSince = heldSince
+    }
+    state.messages.push(message)
+    audit(sender === 'bot' ? 'message_sent' : 'message_received', {
+      messageId: message.id,
+      text,
+      state: message.state,
+      ...(message.heldSince ? { heldSince: message.heldSince.toISOString() } : {}),
+      ...(keywordReply ? { keywordReply } : {})
+    })
+    emit({ type: 'messages' })
+    return message
+  }
+
+  function skipTime(ms: number) {
+    clock.skip(ms)
+    state.timeOffsetMs = clock.getOffset()
+  }
+
+  // Runs a callback later unless the conversation was replaced or moved to another step meanwhile
+  function scheduleForCurrentStep(callback: () => void, delay: number) {
+    const scheduledRun = run
+    const stepId = state.currentStepId
+    clock.setTimeout(() => {
+      if (scheduledRun === run && stepId === state.currentStepId) {
+        callback()
+      }
+    }, delay / speed)
+  }
+
+  // Enter a workflow step: update the state, then send its message and run its action
+  function enterStep(stepId: string) {
+    const step = getActiveWorkflow().steps[stepId]
+    if (!step) return
+    // A follow-up that has used up its attempts closes the conversation instead
+    if (step.cadence && (state.followUpAttempts[stepId] ?? 0) >= getMaxAttempts(step.cadence)) {
+      enterStep(linkTarget(step.cadence.exhausted))
+      return
+    }
+    setCurrentStep(stepId)
+    beginStep(stepId)
+  }
+
+  // Make the step the current one, without waiting or running it yet
+  function setCurrentStep(stepId: string) {
+    const step = getActiveWorkflow().steps[stepId]
+    state.stateTransitions.push({ timestamp: clock.now(), from: state.currentState, to: step.state, workflow: state.workflow, stepId })
+    state.currentStepId = stepId
+    state.currentState = step.state
+    state.currentStepRan = false
+    countFollowUpAttempt(stepId)
+    emit({ type: 'step', stepId })
+  }
+
+  // Every time a follow-up step is entered counts as one of its attempts
+  function countFollowUpAttempt(stepId: string) {
+    if (getActiveWorkflow().steps[stepId].cadence) {
+      state.followUpAttempts[stepId] = (state.followUpAttempts[stepId] ?? 0) + 1
+    }
+  }
+
+  // Wait out the step's delay (or its follow-up wait), then run it
+  function beginStep(stepId: string) {
+    const step = getActiveWorkflow().steps[stepId]
+    if (step.action === 'wait_24h') {
+      const skippedMs = (step.cadence ? getFollowUpWaitDays(step.cadence, state.followUpAttempts[stepId] ?? 1) : 1) * DAY_MS
+      emit({ type: 'waiting', durationMs: TIME_PASSING_MS / speed, skippedMs, reason: 'follow_up' })
+      scheduleForCurrentStep(() => {
+        skipTime(skippedMs)
+        runStep(stepId, true)
+      }, TIME_PASSING_MS)
+      return
+    }
+
+    const delay = (step.message || step.action) ? (step.delay ?? DEFAULT_DELAY_MS) : 0
+    if (delay === 0) {
+      runStep(stepId)
+    } else {
+      scheduleForCurrentStep(() => runStep(stepId), delay)
+    }
+  }
+
+  // Whether running the step texts or calls the customer (those wait for the recipient's sending hours)
+  function contactsCustomer(step: WorkflowStep, afterWait: boolean): boolean {
+    return afterWait || step.action === 'call' || !!renderTemplate(step.message, getContext())
+  }
+
+  // Hold the step until sending hours start in the recipient's time zone, then run it
+  function holdForQuietHours(stepId: string, afterWait: boolean) {
+    const now = clock.now()
+    const sendAt = getNextSendingTime(now, lead.timeZone)
+    const skippedMs = sendAt.getTime() - now.getTime()
+    heldSince = heldSince ?? now
+    audit('send_held', { stepId, reason: 'quiet_hours', timeZone: lead.timeZone, until: sendAt.toISOString() })
+    emit({ type: 'waiting', durationMs: TIME_PASSING_MS / speed, skippedMs, reason: 'quiet_hours' })
+    scheduleForCurrentStep(() => {
+      skipTime(skippedMs)
+      runStep(stepId, afterWait)
+    }, TIME_PASSING_MS)
+  }
+
+  // Send the step's message and run its action; after a follow-up wait the intro goes out again first
+  function runStep(stepId: string, afterWait = false) {
+    const step = getActiveWorkflow().steps[stepId]
+    if (contactsCustomer(step, afterWait) && !isWithinSendingHours(clock.now(), lead.timeZone)) {
+      holdForQuietHours(stepId, afterWait)
+      return
+    }
+    state.currentStepRan = true
+    if (afterWait) {
+      addMessage('bot', INTRO_MESSAGE)
+    }
+
+    // A usable time from the customer's reply is booked directly instead of opening the picker
+    const requested = step.action === 'pick_datetime' ? requestedTime : null
+    requestedTime = null
+    if (requested?.hasTime && requested.withinBusinessHours && requested.date > clock.now()) {
+      state.scheduledDateTime = requested.date
+      followStepLink('picked')
+      return
+    }
+
+    if (step.recordSentAt) {
+      state.answers[step.recordSentAt] = clock.now().toISOString()
+    }
+    const text = renderTemplate(step.message, getContext())
+    if (text) {
+      // Free-text steps get an empty option list so the text box is shown
+      addMessage('bot', text, step.input === 'free_text' ? [] : step.options)
+    }
+    if (step.action === 'pick_datetime' && requested?.hasTime && !requested.withinBusinessHours) {
+      addMessage('bot', OUTSIDE_BUSINESS_HOURS_MESSAGE)
+    }
+    heldSince = null
+    if (step.outcome === 'dnc') {
+      listNumber(['sms', 'voice'], 'dnc_request', `Asked not to be contacted (${state.workflow})`)
+    }
+    if (startAction(step, requested)) {
+      followNextLink(step)
+    }
+  }
+
+  // Ring, show the call screen or open the date picker; false when the call was suppressed
+  function startAction(step: WorkflowStep, requested: RequestedTime | null): boolean {
+    // A call to a number on the Do-Not-Call list is not placed and the conversation stops there
+    if (step.action === 'call' && checkSuppressed('voice')) return false
+    // Opted-out customers aren't called or asked to pick a time either
+    if (step.action && step.action !== 'wait_24h' && !state.userHasStopped) {
+      if (step.action === 'call') {
+        audit('call_attempt', { stepId: state.currentStepId, phone: lead.phone })
+      }
+      emit({ type: 'action', action: step.action, requested })
+    }
+    return true
+  }
+
+  function listNumber(channels: ContactChannel[], source: DncSource, reason: string) {
+    dnc.add({ phone: lead.phone, channels, source, reason, addedAt: clock.now() })
+    audit('dnc_updated', { change: 'listed', phone: lead.phone, channels, source, reason })
+  }
+
+  function unlistNumber(source: DncSource) {
+    dnc.remove(lead.phone, source)
+    audit('dnc_updated', { change: 'unlisted', phone: lead.phone, source })
+  }
+
+  // Move on to the step's `next` (or `condition`) link, if it has one
+  function followNextLink(step: WorkflowStep) {
+    const next = step.condition
+      ? (step.condition.test(getContext()) ? step.condition.ifTrue : step.condition.ifFalse)
+      : step.next
+    if (next) {
+      const after = typeof next === 'string' ? DEFAULT_DELAY_MS : (next.after ?? DEFAULT_DELAY_MS)
+      if (after === 0) {
+        enterStep(linkTarget(next))
+      } else {
+        scheduleForCurrentStep(() => enterStep(linkTarget(next)), after)
+      }
+    }
+  }
+
+  // Follow the current step's call or date picker outcome
+  function followStepLink(outcome: 'answered' | 'declined' | 'picked' | 'cancelled') {
+    const link: StepLink | undefined = getCurrentStep()?.[outcome]
+    if (link) {
+      enterStep(linkTarget(link))
+    }
+  }
+
+  // The current step's options, offered again with a keyword reply so the conversation can carry on
+  function getCurrentOptions(): string[] | undefined {
+    const step = getCurrentStep()
+    if (!step || !state.currentStepRan) return undefined
+    return step.input === 'free_text' ? [] : step.options
+  }
+
+  // Handle a reply that is an opt-out, opt-in or help keyword; false when it is none of them
+  function handleKeyword(text: string): boolean {
+    const action = matchKeyword(text, keywords)
+    if (!action) return false
+
+    addMessage('user', text)
+    audit('keyword', { keyword: text.trim(), action, alreadyOptedOut: state.userHasStopped })
+    if (action === 'opt_out') {
+      // One confirmation, then nothing more; repeating the keyword gets no further reply
+      if (!state.userHasStopped) {
+        addMessage('bot', keywords.optOutConfirmation, undefined, true)
+        state.userHasStopped = true
+      }
+      listNumber(['sms'], 'opt_out', `Texted ${text.trim().toUpperCase()}`)
+    } else if (action === 'opt_in') {
+      state.userHasStopped = false
+      unlistNumber('opt_out')
+      addMessage('bot', keywords.optInConfirmation, getCurrentOptions())
+    } else {
+      addMessage('bot', keywords.helpMessage, state.userHasStopped ? undefined : getCurrentOptions(), true)
+    }
+    return true
+  }
+
+  function selectOption(option: string) {
+    if (handleKeyword(option)) return
+    chooseOption(option)
+  }
+
+  function chooseOption(option: string) {
+    addMessage('user', option)
+    const step = getCurrentStep()
+    if (step?.record) {
+      state.answers[step.record] = option
+    }
+    const link = step?.transitions?.[option] ?? step?.otherwise
+    if (link) {
+      enterStep(linkTarget(link))
+    }
+  }
+
+  // Skip simulated time forward, shown with the time-passing overlay
+  function passTime(ms: number) {
+    if (ms <= 0) return
+    emit({ type: 'waiting', durationMs: TIME_PASSING_MS / speed, skippedMs: ms, reason: 'skip' })
+    const scheduledRun = run
+    clock.setTimeout(() => {
+      if (scheduledRun === run) {
+        skipTime(ms)
+      }
+    }, TIME_PASSING_MS / speed)
+  }
+
+  // Swaps to Confirm Visit on the fly without clearing the conversation
+  function switchToConfirmVisitWorkflow() {
+    audit('workflow_switch', { from: state.workflow, to: 'confirm visit', reason: 'Customer asked to confirm a visit' })
+    state.workflow = 'confirm visit'
+    state.version = 'A'
+    emit({ type: 'workflow', workflow: state.workflow, version: state.version })
+    enterStep(getActiveWorkflow().start)
+  }
+
+  async function submitText(userText: string, recorded?: MessageClassification) {
+    if (handleKeyword(userText)) return
+
+    // In webform flow with AI: if user says they want to confirm a visit, swap workflow on the fly
+    if (state.workflow === 'webform' && isConfirmVisitIntent(userText)) {
+      addMessage('user', userText)
+      switchToConfirmVisitWorkflow()
+      return
+    }
+
+    // Free-text answers (e.g. survey feedback) are taken verbatim
+    const step = getCurrentStep()
+    if (step?.input === 'free_text') {
+      chooseOption(userText)
+      return
+    }
+
+    // A typed slot number picks that slot; words ("yes", "DNC") are categorized like any other reply
+    const matchedOption = step?.options?.find(option => /^\d+$/.test(option) && option === userText)
+    if (matchedOption) {
+      chooseOption(matchedOption)
+      return
+    }
+
+    const userMessage = addMessage('user', userText)
+    const replyRun = run
+    if (!recorded) {
+      emit({ type: 'classifying', text: userText })
+    }
+    // Categorize using AI (with fallback to pattern matching)
+    const result: ClassificationResult = recorded
+      ? { ...recorded, latencyMs: 0 }
+      : await classify(userText, state.aiEnabled)
+    // The conversation was replaced while the classifier was busy
+    if (replyRun !== run) return
+
+    const { category } = result
+    // Day and time words mean the customer's own time zone
+    const requested = category === 'Call at a different time' ? extractRequestedTime(userText, toWallClock(clock.now(), lead.timeZone)) : null
+    requestedTime = requested && { ...requested, date: fromWallClock(requested.date, lead.timeZone) }
+    if (userMessage) {
+      userMessage.classification = { category, confidence: result.confidence, source: result.source, rule: result.rule, provider: result.provider }
+    }
+    audit('classification', {
+      text: userText,
+      category,
+      confidence: result.confidence,
+      source: result.source,
+      ...(result.rule ? { rule: result.rule } : {}),
+      ...(result.provider ? { provider: result.provider } : {}),
+      ...(result.lowConfidenceCategory ? { lowConfidenceCategory: result.lowConfidenceCategory } : {}),
+      recorded: !!recorded
+    })
+    emit({ type: 'classified', result, recorded: !!recorded })
+    chooseOption(category)
+  }
+
+  function resetState() {
+    run++
+    requestedTime = null
+    heldSince = null
+    state.currentState = 'initial'
+    state.currentStepId = null
+    state.currentStepRan = false
+    state.scheduledDateTime = null
+    state.userHasStopped = false
+    state.answers = {}
+    state.followUpAttempts = {}
+    state.messages.length = 0
+    state.stateTransitions = []
+    clock.setOffset(0)
+    state.timeOffsetMs = 0
+  }
+
+  function start() {
+    resetState()
+    emit({ type: 'reset' })
+    emit({ type: 'messages' })
+    audit('conversation_started', { workflow: state.workflow, version: state.version, aiEnabled: state.aiEnabled, phone: lead.phone, timeZone: lead.timeZone })
+    // The workflow's own condition refuses contact; this records what the check found
+    if (getActiveWorkflow().requiresConsent) {
+      const verdict = checkConsent(lead.consent, clock.now())
+      const channels = getConsentedChannels(lead.consent, clock.now())
+      audit('consent_check', { allowed: channels.length > 0, channels, checks: verdict.checks.map(({ label, passed, detail }) => ({ label, passed, detail })) })
+    }
+    enterStep(getActiveWorkflow().start)
+  }
+
+  // Pick a restored conversation up where it stopped: waiting for a reply, a call, a date pick or the next step
+  function resumeCurrentStep() {
+    const step = getCurrentStep()
+    if (!step || !state.currentStepId) return
+
+    // Saved before the step's message went out (e.g. during its delay or the follow-up wait)
+    if (!state.currentStepRan) {
+      beginStep(state.currentStepId)
+      return
+    }
+    if (startAction(step, null)) {
+      followNextLink(step)
+    }
+  }
+
+  function restore(data: SavedConversationData) {
+    resetState()
+    state.workflow = data.workflow
+    state.version = data.version
+    state.aiEnabled = data.aiEnabled
+    state.currentState = data.currentState
+    state.currentStepId = data.currentStepId
+    state.currentStepRan = data.currentStepRan
+    state.scheduledDateTime = data.scheduledDateTime
+    state.userHasStopped = data.userHasStopped
+    state.answers = { ...data.answers }
+    state.followUpAttempts = { ...data.followUpAttempts }
+    // Sessions saved while ids were timestamps can repeat one; the repeats get new ids
+    const ids = new Set<string>()
+    state.messages.push(...data.messages.map(message => {
+      const id = ids.has(message.id) ? createMessageId(message.timestamp) : message.id
+      ids.add(id)
+      return id === message.id ? message : { ...message, id }
+    }))
+    state.stateTransitions = [...(data.stateTransitions ?? [])]
+    clock.setOffset(data.timeOffsetMs ?? 0)
+    state.timeOffsetMs = clock.getOffset()
+    emit({ type: 'reset' })
+    emit({ type: 'messages' })
+    if (state.currentStepId) {
+      emit({ type: 'step', stepId: state.currentStepId })
+    }
+    resumeCurrentStep()
+  }
+
+  function jumpToNode(nodeId: string): boolean {
+    const workflow = getActiveWorkflow()
+    const path = findPathToNode(workflow, nodeId)
+    if (!path) return false
+
+    resetState()
+    emit({ type: 'reset' })
+    emit({ type: 'messages' })
+    audit('jump_to_node', { nodeId, steps: path.map(({ stepId }) => stepId) })
+
+    // Replay the messages along the path, then run the clicked step live (without waiting 24 hours)
+    const ctx = getContext()
+    path.forEach(({ stepId, reply }, index) => {
+      if (reply) {
+        addMessage('user', reply)
+        const record = workflow.steps[path[index - 1].stepId].record
+        if (record) {
+          state.answers[record] = reply
+        }
+      }
+      if (index === path.length - 1) {
+        setCurrentStep(stepId)
+        runStep(stepId)
+        return
+      }
+      countFollowUpAttempt(stepId)
+      const text = renderTemplate(workflow.steps[stepId].message, ctx)
+      if (text) {
+        addMessage('bot', text)
+      }
+    })
+    return true
+  }
+
+  return {
+    subscribe(listener) {
+      listeners.add(listener)
+      return () => { listeners.delete(listener) }
+    },
+    getState: () => state,
+    getData: () => ({
+      ...state,
+      answers: { ...state.answers },
+      followUpAttempts: { ...state.followUpAttempts },
+      messages: state.messages.map(message => ({ ...message, options: message.options && [...message.options] })),
+      stateTransitions: [...state.stateTransitions]
+    }),
+    getActiveWorkflow,
+    getCurrentStep,
+    getContext,
+    now: () => clock.now(),
+    passTime,
+    configure(settings) {
+      state.workflow = settings.workflow ?? state.workflow
+      state.version = settings.version ?? state.version
+      state.aiEnabled = settings.aiEnabled ?? state.aiEnabled
+      lead = settings.lead ?? lead
+    },
+    setSpeed(value) {
+      speed = value > 0 ? value : 1
+    },
+    getSpeed: () => speed,
+    start,
+    restore,
+    jumpToNode,
+    submitText,
+    selectOption,
+    answerCall() {
+      audit('call_outcome', { stepId: state.currentStepId, outcome: 'answered' })
+      followStepLink('answered')
+    },
+    declineCall() {
+      audit('call_outcome', { stepId: state.currentStepId, outcome: 'declined' })
+      followStepLink('declined')
+    },
+    endCall() {
+      addMessage('bot', END_CALL_MESSAGE)
+    },
+    pickDateTime(date) {
+      state.scheduledDateTime = date
+      // The picked step's confirmation message reads scheduledDateTime
+      followStepLink('picked')
+    },
+    cancelDatePick: () => followStepLink('cancelled'),
+    editMessage(id, changes) {
+      const message = state.messages.find(m => m.id === id)
+      if (!message) return
+      if (changes.text !== undefined) {
+        message.text = changes.text
+      }
+      if ('options' in changes) {
+        if (changes.options?.length) {
+          message.options = changes.options
+        } else {
+          delete message.options
+        }
+      }
+      emit({ type: 'messages' })
+    },
+    deleteMessage(id) {
+      const index = state.messages.findIndex(m => m.id === id)
+      if (index !== -1) {
+        state.messages.splice(index, 1)
+        emit({ type: 'messages' })
+      }
+    }
+  }
+}
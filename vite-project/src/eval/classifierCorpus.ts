@@ -0,0 +1,128 @@
+import type { ResponseCategory } from '../types.ts'
+
+export type LabeledReply = {
+  text: string
+  expected: ResponseCategory
+  // Why the reply is tricky (mixed signals, substrings of keywords, ...)
+  note?: string
+}
+
+/**
+ * Sample SMS replies to "Would you like us to call you back?"-style questions,
+ * labeled with the category the workflow should act on. Add a case here
+ * whenever a real reply is misrouted. The held-out cases at the end were not
+ * used to write the pattern rules; don't tune the rules to them one by one.
+ */
+export const classifierCorpus: LabeledReply[] = [
+  // Yes
+  { text: 'yes', expected: 'Yes' },
+  { text: 'Yes please', expected: 'Yes' },
+  { text: 'yeah sure', expected: 'Yes' },
+  { text: 'yep', expected: 'Yes' },
+  { text: 'ok', expected: 'Yes' },
+  { text: 'Okay go ahead', expected: 'Yes' },
+  { text: 'sounds good', expected: 'Yes' },
+  { text: 'sure, call me', expected: 'Yes' },
+  { text: "I'm interested", expected: 'Yes' },
+  { text: 'absolutely', expected: 'Yes' },
+  { text: 'of course, please do', expected: 'Yes' },
+  { text: 'that works for me', expected: 'Yes' },
+  { text: 'yes I am available now', expected: 'Yes', note: '"am" is not a time' },
+  { text: 'please book me in', expected: 'Yes', note: '"book" contains "ok"' },
+  { text: 'no problem, go ahead', expected: 'Yes', note: 'starts with "no"' },
+
+  // Call at a different time
+  { text: 'call me at 3pm', expected: 'Call at a different time' },
+  { text: 'call tomorrow morning', expected: 'Call at a different time' },
+  { text: 'can you call me Thursday at 3pm', expected: 'Call at a different time' },
+  { text: 'after 4 works better', expected: 'Call at a different time' },
+  { text: 'next week would be better', expected: 'Call at a different time' },
+  { text: 'call me later', expected: 'Call at a different time' },
+  { text: 'another time please', expected: 'Call at a different time' },
+  { text: 'try me at 10:30', expected: 'Call at a different time' },
+  { text: 'Friday afternoon', expected: 'Call at a different time' },
+  { text: 'no, call me tomorrow', expected: 'Call at a different time', note: 'starts with "no" but asks for another time' },
+  { text: 'not now, maybe 3pm', expected: 'Call at a different time', note: 'declines now but names a time' },
+  { text: "I'm busy, call me in the evening", expected: 'Call at a different time', note: '"busy" plus a time' },
+  { text: 'can we schedule something for monday', expected: 'Call at a different time' },
+  { text: 'call me maybe', expected: 'Call at a different time', note: 'prompt example' },
+
+  // No
+  { text: 'no', expected: 'No' },
+  { text: 'nope', expected: 'No' },
+  { text: 'No thanks', expected: 'No' },
+  { text: 'not interested', expected: 'No' },
+  { text: 'I am not interested', expected: 'No', note: '"am" is not a time, "interested" is negated' },
+  { text: 'not okay', expected: 'No', note: 'negated "okay"' },
+  { text: "I can't right now", expected: 'No' },
+  { text: "I'll pass", expected: 'No' },
+  { text: 'not a good time', expected: 'No' },
+  { text: 'maybe later', expected: 'No', note: 'vague "later" without wanting a callback' },
+  { text: 'I am busy', expected: 'No', note: '"am" is not a time' },
+  { text: 'no I do not want a call', expected: 'No' },
+  { text: "I'm not sure, no", expected: 'No', note: 'negated "sure"' },
+
+  // Do not contact
+  { text: 'stop calling me', expected: 'Do not contact' },
+  { text: 'unsubscribe', expected: 'Do not contact' },
+  { text: 'remove me from your list', expected: 'Do not contact' },
+  { text: 'do not contact me again', expected: 'Do not contact' },
+  { text: 'DNC', expected: 'Do not contact' },
+  { text: 'please take me off your list', expected: 'Do not contact' },
+  { text: "don't call me at 3 or ever", expected: 'Do not contact', note: 'mentions a time but opts out' },
+  { text: 'no more calls', expected: 'Do not contact', note: 'starts with "no"' },
+  { text: 'opt out', expected: 'Do not contact' },
+  { text: "don't call me at 3", expected: 'Do not contact', note: 'names a time but is not a time request' },
+
+  // 24 hours later (No response)
+  { text: '', expected: '24 hours later (No response)' },
+  { text: ' ', expected: '24 hours later (No response)' },
+  { text: '.', expected: '24 hours later (No response)' },
+  { text: 'k', expected: '24 hours later (No response)' },
+  { text: '?', expected: '24 hours later (No response)' },
+  { text: 'Y', expected: '24 hours later (No response)', note: 'a single character counts as no reply, even "Y"' },
+
+  // Unknown message
+  { text: 'what?', expected: 'Unknown message' },
+  { text: 'idk', expected: 'Unknown message' },
+  { text: 'who is this', expected: 'Unknown message' },
+  { text: 'asdfgh', expected: 'Unknown message' },
+  { text: 'I know', expected: 'Unknown message', note: '"know" contains "no"' },
+  { text: 'what is the price of the camera', expected: 'Unknown message' },
+  { text: 'my compass is broken', expected: 'Unknown message', note: '"compass" contains "pass"' },
+  { text: 'this is spam', expected: 'Unknown message', note: '"spam" contains "am"' },
+  { text: 'maybe', expected: 'Unknown message' },
+
+  // Held out: phrasings collected after the rules were written and never tuned against.
+  // Some are known misses; they keep the accuracy honest and show when a rule change helps or hurts.
+  { text: 'Yes ma\'am', expected: 'Yes', note: 'held out' },
+  { text: 'go for it', expected: 'Yes', note: 'held out' },
+  { text: 'please call', expected: 'Yes', note: 'held out' },
+  { text: 'definitely', expected: 'Yes', note: 'held out' },
+  { text: 'I guess so', expected: 'Yes', note: 'held out' },
+  { text: 'ya', expected: 'Yes', note: 'held out' },
+  { text: 'Sí', expected: 'Yes', note: 'held out, Spanish' },
+  { text: '👍', expected: 'Yes', note: 'held out, emoji' },
+  { text: 'ring me now', expected: 'Yes', note: 'held out' },
+  { text: 'can u call around noon', expected: 'Call at a different time', note: 'held out' },
+  { text: 'im at work til 5', expected: 'Call at a different time', note: 'held out' },
+  { text: 'wknd is better', expected: 'Call at a different time', note: 'held out, abbreviation' },
+  { text: 'give me a few hours', expected: 'Call at a different time', note: 'held out' },
+  { text: 'in an hour', expected: 'Call at a different time', note: 'held out' },
+  { text: 'tmrw pls', expected: 'Call at a different time', note: 'held out, abbreviation' },
+  { text: 'nah', expected: 'No', note: 'held out' },
+  { text: 'no thank you', expected: 'No', note: 'held out' },
+  { text: 'already have a security system', expected: 'No', note: 'held out' },
+  { text: 'we went with another company', expected: 'No', note: 'held out' },
+  { text: "don't need it", expected: 'No', note: 'held out' },
+  { text: 'not anymore', expected: 'No', note: 'held out' },
+  { text: 'lose my number', expected: 'Do not contact', note: 'held out' },
+  { text: 'quit texting me', expected: 'Do not contact', note: 'held out' },
+  { text: 'leave me alone', expected: 'Do not contact', note: 'held out' },
+  { text: 'wrong number', expected: 'Do not contact', note: 'held out' },
+  { text: 'I never signed up for this', expected: 'Do not contact', note: 'held out' },
+  { text: 'is this a scam', expected: 'Unknown message', note: 'held out' },
+  { text: 'how much does it cost per month', expected: 'Unknown message', note: 'held out' },
+  { text: 'can I text instead', expected: 'Unknown message', note: 'held out' },
+  { text: 'my wife handles this', expected: 'Unknown message', note: 'held out' }
+]
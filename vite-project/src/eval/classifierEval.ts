@@ -0,0 +1,171 @@
+import { categorizeUserResponse, RESPONSE_CATEGORIES } from '../classifier.ts'
+import type { ClassificationResult } from '../classifier.ts'
+import type { ResponseCategory } from '../types.ts'
+import { createLlmProvider, getLlmConfig } from '../llmProviders.ts'
+import type { LlmProvider } from '../llmProviders.ts'
+import { classifierCorpus } from './classifierCorpus.ts'
+import type { LabeledReply } from './classifierCorpus.ts'
+
+/**
+ * Offline evaluation of the reply classifier against the labeled corpus.
+ *
+ *   npm run eval:classifier                      # pattern matcher
+ *   npm run eval:classifier -- --backend llm     # configured LLM provider (VITE_LLM_PROVIDER)
+ *   npm run eval:classifier -- --backend llm --provider local
+ *   npm run eval:classifier -- --backend all --min-accuracy 0.8
+ *
+ * Exits with 1 when a backend's accuracy is below --min-accuracy, so keyword
+ * or prompt changes that cause regressions show up in the exit code.
+ */
+
+type Backend = 'patterns' | 'llm'
+
+export type CategoryMetrics = {
+  precision: number
+  recall: number
+  f1: number
+  // Number of corpus replies labeled with the category
+  support: number
+}
+
+export type EvalReport = {
+  backend: Backend
+  accuracy: number
+  // confusion[expected][predicted] = count
+  confusion: Record<ResponseCategory, Record<ResponseCategory, number>>
+  metrics: Record<ResponseCategory, CategoryMetrics>
+  misses: { reply: LabeledReply, result: ClassificationResult }[]
+  // Replies the LLM backend answered from another source (no key, API error)
+  fallbacks: number
+}
+
+function emptyConfusion(): Record<ResponseCategory, Record<ResponseCategory, number>> {
+  const confusion = {} as Record<ResponseCategory, Record<ResponseCategory, number>>
+  RESPONSE_CATEGORIES.forEach(expected => {
+    confusion[expected] = {} as Record<ResponseCategory, number>
+    RESPONSE_CATEGORIES.forEach(predicted => {
+      confusion[expected][predicted] = 0
+    })
+  })
+  return confusion
+}
+
+// The classifier logs every decision; keep the report readable
+export async function withoutClassifierLogs<T>(run: () => Promise<T>): Promise<T> {
+  const { log, warn, error } = console
+  console.log = console.warn = console.error = () => {}
+  try {
+    return await run()
+  } finally {
+    Object.assign(console, { log, warn, error })
+  }
+}
+
+export async function evaluateClassifier(backend: Backend, corpus: LabeledReply[] = classifierCorpus, provider?: LlmProvider | null): Promise<EvalReport> {
+  const confusion = emptyConfusion()
+  const misses: EvalReport['misses'] = []
+  let fallbacks = 0
+
+  for (const reply of corpus) {
+    const result = await withoutClassifierLogs(() => categorizeUserResponse(reply.text, { useLlm: backend === 'llm', provider }))
+    confusion[reply.expected][result.category]++
+    if (result.category !== reply.expected) {
+      misses.push({ reply, result })
+    }
+    if (backend === 'llm' && result.source !== 'llm' && result.source !== 'rule') {
+      fallbacks++
+    }
+  }
+
+  const metrics = {} as Record<ResponseCategory, CategoryMetrics>
+  RESPONSE_CATEGORIES.forEach(category => {
+    const truePositives = confusion[category][category]
+    const predicted = RESPONSE_CATEGORIES.reduce((sum, expected) => sum + confusion[expected][category], 0)
+    const support = RESPONSE_CATEGORIES.reduce((sum, actual) => sum + confusion[category][actual], 0)
+    const precision = predicted ? truePositives / predicted : 0
+    const recall = support ? truePositives / support : 0
+    const f1 = precision + recall ? (2 * precision * recall) / (precision + recall) : 0
+    metrics[category] = { precision, recall, f1, support }
+  })
+
+  const correct = RESPONSE_CATEGORIES.reduce((sum, category) => sum + confusion[category][category], 0)
+  return { backend, accuracy: corpus.length ? correct / corpus.length : 0, confusion, metrics, misses, fallbacks }
+}
+
+// Short column names for the confusion matrix
+const SHORT_NAMES: Record<ResponseCategory, string> = {
+  'Yes': 'Yes',
+  'Call at a different time': 'Time',
+  'No': 'No',
+  '24 hours later (No response)': 'NoResp',
+  'Do not contact': 'DNC',
+  'Unknown message': 'Unknown'
+}
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`.padStart(7)
+}
+
+export function formatReport(report: EvalReport): string {
+  const lines: string[] = []
+  lines.push(`=== ${report.backend} — accuracy ${percent(report.accuracy).trim()} ===`)
+  if (report.fallbacks) {
+    lines.push(`⚠️ ${report.fallbacks} replies fell back to pattern matching (provider not configured or API errors)`)
+  }
+
+  lines.push('')
+  lines.push(`${'Category'.padEnd(30)}${'Precision'.padStart(10)}${'Recall'.padStart(10)}${'F1'.padStart(10)}${'Support'.padStart(9)}`)
+  RESPONSE_CATEGORIES.forEach(category => {
+    const m = report.metrics[category]
+    lines.push(`${category.padEnd(30)}${percent(m.precision).padStart(10)}${percent(m.recall).padStart(10)}${percent(m.f1).padStart(10)}${String(m.support).padStart(9)}`)
+  })
+
+  lines.push('')
+  lines.push('Confusion matrix (rows = expected, columns = predicted)')
+  lines.push(`${''.padEnd(10)}${RESPONSE_CATEGORIES.map(c => SHORT_NAMES[c].padStart(9)).join('')}`)
+  RESPONSE_CATEGORIES.forEach(expected => {
+    lines.push(`${SHORT_NAMES[expected].padEnd(10)}${RESPONSE_CATEGORIES.map(predicted => String(report.confusion[expected][predicted]).padStart(9)).join('')}`)
+  })
+
+  if (report.misses.length) {
+    lines.push('')
+    lines.push('Misclassified replies')
+    report.misses.forEach(({ reply, result }) => {
+      const pattern = result.matchedPattern ? ` via "${result.matchedPattern}"` : ''
+      const note = reply.note ? ` (${reply.note})` : ''
+      lines.push(`  ${JSON.stringify(reply.text)}: expected ${reply.expected}, got ${result.category}${pattern}${note}`)
+    })
+  }
+  return lines.join('\n')
+}
+
+function getArg(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name)
+  return index >= 0 ? args[index + 1] : undefined
+}
+
+export async function main(args: string[]): Promise<number> {
+  const backendArg = getArg(args, '--backend') ?? 'patterns'
+  const backends: Backend[] = backendArg === 'all' ? ['patterns', 'llm'] : [backendArg as Backend]
+  if (!backends.every(backend => backend === 'patterns' || backend === 'llm')) {
+    console.error(`Unknown backend "${backendArg}" (expected patterns, llm or all)`)
+    return 1
+  }
+  const minAccuracy = parseFloat(getArg(args, '--min-accuracy') ?? '0')
+  const providerArg = getArg(args, '--provider')
+  // --provider overrides VITE_LLM_PROVIDER; the provider's other settings still come from .env
+  const env = import.meta.env as Record<string, string | undefined>
+  const provider = providerArg ? createLlmProvider(getLlmConfig({ ...env, VITE_LLM_PROVIDER: providerArg })) : undefined
+
+  let exitCode = 0
+  for (const backend of backends) {
+    const report = await evaluateClassifier(backend, classifierCorpus, provider)
+    console.log(formatReport(report))
+    console.log('')
+    if (report.accuracy < minAccuracy) {
+      console.error(`❌ ${backend} accuracy ${percent(report.accuracy).trim()} is below the minimum of ${percent(minAccuracy).trim()}`)
+      exitCode = 1
+    }
+  }
+  return exitCode
+}
@@ -0,0 +1,50 @@
+import type { ConsentRecord } from './consent.ts'
+
+export type Lead = {
+  firstName: string
+  phone: string
+  // Lead ticked the marketing texts box on the webform
+  marketingOptIn: boolean
+  // IANA time zone the lead's quiet hours and callback times are in
+  timeZone: string
+  // Consent to be called and texted given on the webform; null when the form didn't capture any
+  consent: ConsentRecord | null
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Sample lead data - in production, this would come from the CRM
+export const sampleLead: Lead = {
+  firstName: 'John',
+  phone: '+1 (555) 010-0123',
+  marketingOptIn: true,
+  timeZone: 'America/Los_Angeles',
+  // Submitted the free quote form just now
+  consent: {
+    grantedAt: new Date(),
+    sourceForm: 'adt.com/free-quote',
+    wordingVersion: 'tcpa-2024-06',
+    channels: ['sms', 'voice']
+  }
+}
+
+// Variations of the sample lead's consent, to see which ones the webform workflow refuses
+export const simulatedLeads: { id: string, label: string, lead: Lead }[] = [
+  { id: 'valid', label: 'Valid consent', lead: sampleLead },
+  { id: 'none', label: 'No consent captured', lead: { ...sampleLead, consent: null } },
+  {
+    id: 'stale',
+    label: 'Consent 4 months old',
+    lead: { ...sampleLead, consent: { ...sampleLead.consent!, grantedAt: new Date(Date.now() - 120 * DAY_MS) } }
+  },
+  {
+    id: 'old_wording',
+    label: 'Retired consent wording',
+    lead: { ...sampleLead, consent: { ...sampleLead.consent!, wordingVersion: 'tcpa-2023-01' } }
+  },
+  {
+    id: 'texts_only',
+    label: 'Consent to texts only',
+    lead: { ...sampleLead, consent: { ...sampleLead.consent!, channels: ['sms'] } }
+  }
+]
@@ -0,0 +1,220 @@
+import { matchClassifierRules } from './classifierRules.ts'
+
+/**
+ * LLM providers for reply categorization. Every provider takes a system prompt
+ * plus the customer's reply and returns the model's answer; which one is used
+ * is picked by configuration (VITE_LLM_PROVIDER), not by editing the request.
+ *
+ *   openai - api.openai.com (VITE_OPENAI_API_KEY)
+ *   local  - any OpenAI-compatible server, e.g. Ollama or llama.cpp on localhost
+ *   azure  - an Azure OpenAI deployment
+ *   mock   - deterministic answers from the rule engine, no network
+ */
+
+export type LlmRequest = {
+  system: string
+  user: string
+  temperature: number
+  maxTokens: number
+}
+
+export type LlmCompletion = {
+  text: string
+  // Log probabilities of the answer's tokens, when the provider returns them
+  tokenLogprobs?: number[]
+}
+
+export type LlmProvider = {
+  name: string
+  complete: (request: LlmRequest) => Promise<LlmCompletion>
+}
+
+export type LlmProviderName = 'openai' | 'local' | 'azure' | 'mock'
+
+export type LlmConfig = {
+  provider: LlmProviderName
+  apiKey?: string
+  // Base URL of an OpenAI-compatible API (…/v1), or the Azure resource endpoint
+  baseUrl?: string
+  model?: string
+  // Azure only
+  deployment?: string
+  apiVersion?: string
+}
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1'
+const OPENAI_MODEL = 'gpt-3.5-turbo'
+// Ollama's OpenAI-compatible endpoint; llama.cpp's server uses http://localhost:8080/v1
+const LOCAL_BASE_URL = 'http://localhost:11434/v1'
+const LOCAL_MODEL = 'llama3.1'
+const AZURE_API_VERSION = '2024-06-01'
+
+const PROVIDER_NAMES: LlmProviderName[] = ['openai', 'local', 'azure', 'mock']
+
+/**
+ * Reads the provider configuration from VITE_* variables. The classifier proxy
+ * passes its process env with an empty prefix (OPENAI_API_KEY, LLM_PROVIDER, ...)
+ * so the keys never need a VITE_ name that would embed them in the bundle.
+ */
+export function getLlmConfig(env: Record<string, string | undefined> = import.meta.env ?? {}, prefix = 'VITE_'): LlmConfig {
+  const read = (name: string) => env[`${prefix}${name}`]
+  const provider = (read('LLM_PROVIDER') ?? 'openai').toLowerCase() as LlmProviderName
+  if (!PROVIDER_NAMES.includes(provider)) {
+    console.warn(`⚠️ Unknown ${prefix}LLM_PROVIDER "${read('LLM_PROVIDER')}" - using openai`)
+    return getLlmConfig({ ...env, [`${prefix}LLM_PROVIDER`]: 'openai' }, prefix)
+  }
+
+  switch (provider) {
+    case 'azure':
+      return {
+        provider,
+        apiKey: read('AZURE_OPENAI_API_KEY'),
+        baseUrl: read('AZURE_OPENAI_ENDPOINT'),
+        deployment: read('AZURE_OPENAI_DEPLOYMENT'),
+        apiVersion: read('AZURE_OPENAI_API_VERSION') ?? AZURE_API_VERSION
+      }
+    case 'local':
+      return {
+        provider,
+        apiKey: read('LLM_API_KEY'),
+        baseUrl: read('LLM_BASE_URL') ?? LOCAL_BASE_URL,
+        model: read('LLM_MODEL') ?? LOCAL_MODEL
+      }
+    case 'mock':
+      return { provider }
+    default:
+      return {
+        provider,
+        apiKey: read('OPENAI_API_KEY'),
+        baseUrl: read('LLM_BASE_URL') ?? OPENAI_BASE_URL,
+        model: read('LLM_MODEL') ?? OPENAI_MODEL
+      }
+  }
+}
+
+function isPlaceholderKey(apiKey: string | undefined): boolean {
+  return !apiKey || apiKey === 'YOUR_API_KEY' || apiKey === 'your-api-key-here'
+}
+
+// The parts of an OpenAI chat completion response that are read
+type ChatCompletionResponse = {
+  choices?: {
+    message?: { content?: string }
+    logprobs?: { content?: { logprob: number }[] }
+  }[]
+}
+
+// POSTs a chat completion request and reads the answer; shared by all OpenAI-style APIs
+async function postChatCompletion(providerName: string, url: string, headers: Record<string, string>, body: Record<string, unknown>): Promise<LlmCompletion> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body)
+  })
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    let errorData
+    try {
+      errorData = JSON.parse(errorText)
+    } catch {
+      errorData = { error: { message: errorText } }
+    }
+
+    console.error(`${providerName} API error response:`, response.status, errorData)
+
+    // Handle specific error cases
+    if (response.status === 429) {
+      if (errorData.error?.code === 'insufficient_quota') {
+        console.warn(`⚠️ ${providerName} API quota exceeded`)
+      } else {
+        console.warn(`⚠️ ${providerName} API rate limit exceeded`)
+      }
+    }
+
+    throw new Error(`${providerName} API error: ${response.status}`)
+  }
+
+  const data = await response.json() as ChatCompletionResponse
+  const tokens = data.choices?.[0]?.logprobs?.content
+  return {
+    text: data.choices?.[0]?.message?.content?.trim() || '',
+    tokenLogprobs: tokens?.map(token => token.logprob)
+  }
+}
+
+function chatBody(request: LlmRequest, model?: string): Record<string, unknown> {
+  return {
+    ...(model ? { model } : {}),
+    messages: [
+      { role: 'system', content: request.system },
+      { role: 'user', content: request.user }
+    ],
+    temperature: request.temperature,
+    max_tokens: request.maxTokens,
+    // Token log probabilities give the answer's confidence
+    logprobs: true
+  }
+}
+
+function createOpenAiCompatibleProvider(name: string, baseUrl: string, model: string, apiKey?: string): LlmProvider {
+  const url = `${baseUrl.replace(/\/+$/, '')}/chat/completions`
+  const headers: Record<string, string> = apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}
+  return {
+    name,
+    complete: request => postChatCompletion(name, url, headers, chatBody(request, model))
+  }
+}
+
+function createAzureProvider(config: LlmConfig): LlmProvider {
+  const endpoint = (config.baseUrl ?? '').replace(/\/+$/, '')
+  const url = `${endpoint}/openai/deployments/${encodeURIComponent(config.deployment ?? '')}/chat/completions?api-version=${config.apiVersion ?? AZURE_API_VERSION}`
+  return {
+    name: 'azure',
+    // The deployment decides the model, so none is sent
+    complete: request => postChatCompletion('azure', url, { 'api-key': config.apiKey ?? '' }, chatBody(request))
+  }
+}
+
+/**
+ * Deterministic provider for tests and offline demos: answers with the rule
+ * engine's category (or "Unknown message") after `latencyMs`, always with the
+ * same log probability.
+ */
+export function createMockProvider(answer?: (userText: string) => string, latencyMs = 0): LlmProvider {
+  const answerFor = answer ?? (userText => matchClassifierRules(userText)?.rule.category ?? 'Unknown message')
+  return {
+    name: 'mock',
+    complete: async request => {
+      if (latencyMs > 0) {
+        await new Promise(resolve => setTimeout(resolve, latencyMs))
+      }
+      return { text: answerFor(request.user), tokenLogprobs: [-0.05] }
+    }
+  }
+}
+
+/**
+ * Creates the configured provider, or returns null (with the reason logged)
+ * when it is missing required settings such as an API key.
+ */
+export function createLlmProvider(config: LlmConfig = getLlmConfig()): LlmProvider | null {
+  switch (config.provider) {
+    case 'mock':
+      return createMockProvider()
+    case 'local':
+      return createOpenAiCompatibleProvider('local', config.baseUrl ?? LOCAL_BASE_URL, config.model ?? LOCAL_MODEL, config.apiKey)
+    case 'azure':
+      if (isPlaceholderKey(config.apiKey) || !config.baseUrl || !config.deployment) {
+        console.log('⚠️ Azure OpenAI needs AZURE_OPENAI_API_KEY, AZURE_OPENAI_ENDPOINT and AZURE_OPENAI_DEPLOYMENT')
+        return null
+      }
+      return createAzureProvider(config)
+    default:
+      if (isPlaceholderKey(config.apiKey)) {
+        console.log('⚠️ No API key found or using placeholder')
+        return null
+      }
+      return createOpenAiCompatibleProvider('openai', config.baseUrl ?? OPENAI_BASE_URL, config.model ?? OPENAI_MODEL, config.apiKey)
+  }
+}
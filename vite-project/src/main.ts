@@ -1,53 +1,84 @@
 import './style.css'
 import { initApp } from './app.ts'
+import { isAuthConfigured, isDevAuth, login, logout, restoreSession, takeLoginNotice, watchSessionExpiry } from './auth/session.ts'
 
-const AUTH_KEY = '2waySMS_authenticated'
-const PASSWORD = '2waySMS'
+function startApp() {
+  watchSessionExpiry(async () => {
+    await logout('Your session has expired. Please sign in again.')
+    window.location.reload()
+  })
+  initApp()
+}
 
-function showPasswordGate() {
+function showLoginForm() {
   const app = document.querySelector<HTMLDivElement>('#app')!
+  const notice = takeLoginNotice()
   app.innerHTML = `
     <div class="password-gate">
       <div class="password-gate-card">
-        <h1 class="password-gate-title">Enter password</h1>
-        <form id="passwordForm" class="password-gate-form">
+        <h1 class="password-gate-title">Sign in</h1>
+        <form id="loginForm" class="password-gate-form">
+          <input
+            type="text"
+            id="usernameInput"
+            class="password-gate-input"
+            placeholder="Username"
+            autocomplete="username"
+            autofocus
+          />
           <input
             type="password"
             id="passwordInput"
             class="password-gate-input"
             placeholder="Password"
-            autocomplete="off"
-            autofocus
+            autocomplete="current-password"
           />
-          <p id="passwordError" class="password-gate-error" aria-live="polite"></p>
-          <button type="submit" class="password-gate-btn">Continue</button>
+          <p id="passwordError" class="password-gate-error" aria-live="polite">${notice ?? ''}</p>
+          <button type="submit" class="password-gate-btn" id="loginBtn">Continue</button>
+          ${isDevAuth() ? '<p class="password-gate-hint">Dev sign-in: viewer, editor or reviewer (password = username)</p>' : ''}
         </form>
       </div>
     </div>
   `
 
-  const form = document.getElementById('passwordForm')!
-  const input = document.getElementById('passwordInput') as HTMLInputElement
+  const form = document.getElementById('loginForm')!
+  const usernameInput = document.getElementById('usernameInput') as HTMLInputElement
+  const passwordInput = document.getElementById('passwordInput') as HTMLInputElement
+  const loginBtn = document.getElementById('loginBtn') as HTMLButtonElement
   const errorEl = document.getElementById('passwordError')!
 
-  form.addEventListener('submit', (e) => {
+  if (!isAuthConfigured()) {
+    errorEl.textContent = 'Sign-in is not configured. Set VITE_AUTH_URL to the auth server.'
+    loginBtn.disabled = true
+    return
+  }
+
+  form.addEventListener('submit', async (e) => {
     e.preventDefault()
-    const value = input.value.trim()
     errorEl.textContent = ''
-    if (value === PASSWORD) {
-      sessionStorage.setItem(AUTH_KEY, '1')
-      app.innerHTML = ''
-      initApp()
-    } else {
-      errorEl.textContent = 'Incorrect password. Please try again.'
-      input.value = ''
-      input.focus()
+    loginBtn.disabled = true
+    try {
+      const session = await login(usernameInput.value.trim(), passwordInput.value)
+      if (session) {
+        app.innerHTML = ''
+        startApp()
+        return
+      }
+      errorEl.textContent = 'Incorrect username or password. Please try again.'
+    } catch (error) {
+      console.error('❌ Sign-in failed:', error)
+      errorEl.textContent = error instanceof Error ? error.message : 'Sign-in failed. Please try again.'
     }
+    loginBtn.disabled = false
+    passwordInput.value = ''
+    passwordInput.focus()
   })
 }
 
-if (sessionStorage.getItem(AUTH_KEY)) {
-  initApp()
-} else {
-  showPasswordGate()
-}
+restoreSession().then(session => {
+  if (session) {
+    startApp()
+  } else {
+    showLoginForm()
+  }
+})
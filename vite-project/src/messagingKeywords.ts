@@ -0,0 +1,52 @@
+/**
+ * Carrier-standard SMS keywords. A reply that is just one of these words (any
+ * case, surrounding punctuation ignored) opts the customer out, back in or asks
+ * for help, whatever step the conversation is on and whether it was typed or tapped.
+ */
+
+export type KeywordAction = 'opt_out' | 'opt_in' | 'help'
+
+export type KeywordSettings = {
+  optOut: string[]
+  optIn: string[]
+  help: string[]
+  // The single reply an opt-out gets; nothing is sent after it until the customer opts back in
+  optOutConfirmation: string
+  optInConfirmation: string
+  helpMessage: string
+}
+
+export const OPT_OUT_KEYWORDS = ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT']
+export const OPT_IN_KEYWORDS = ['START', 'UNSTOP']
+export const HELP_KEYWORDS = ['HELP']
+
+const DEFAULT_OPT_OUT_CONFIRMATION = "You're unsubscribed from ADT messages and will receive no further texts. Reply START to resubscribe."
+const DEFAULT_OPT_IN_CONFIRMATION = "You're resubscribed to ADT messages. Msg&DataRatesApply. Reply HELP for help, STOP to opt out."
+const DEFAULT_HELP_MESSAGE = 'ADT Digital Assistant: for help call 1-800-238-2727 or visit adt.com. Msg&DataRatesApply. Reply STOP to opt out.'
+
+function normalizeKeyword(text: string): string {
+  return text.trim().replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '').toUpperCase()
+}
+
+// VITE_OPT_OUT_EXTRA_KEYWORDS adds comma-separated opt-out words to the standard set;
+// VITE_OPT_OUT_CONFIRMATION, VITE_OPT_IN_CONFIRMATION and VITE_HELP_MESSAGE replace the replies
+export function getKeywordSettings(env: Record<string, string | undefined> = import.meta.env ?? {}): KeywordSettings {
+  const extras = (env.VITE_OPT_OUT_EXTRA_KEYWORDS ?? '').split(',').map(normalizeKeyword).filter(Boolean)
+  return {
+    optOut: [...new Set([...OPT_OUT_KEYWORDS, ...extras])],
+    optIn: OPT_IN_KEYWORDS,
+    help: HELP_KEYWORDS,
+    optOutConfirmation: env.VITE_OPT_OUT_CONFIRMATION?.trim() || DEFAULT_OPT_OUT_CONFIRMATION,
+    optInConfirmation: env.VITE_OPT_IN_CONFIRMATION?.trim() || DEFAULT_OPT_IN_CONFIRMATION,
+    helpMessage: env.VITE_HELP_MESSAGE?.trim() || DEFAULT_HELP_MESSAGE
+  }
+}
+
+export function matchKeyword(text: string, settings: KeywordSettings): KeywordAction | null {
+  const word = normalizeKeyword(text)
+  if (!word) return null
+  if (settings.optOut.includes(word)) return 'opt_out'
+  if (settings.optIn.includes(word)) return 'opt_in'
+  if (settings.help.includes(word)) return 'help'
+  return null
+}
@@ -0,0 +1,19 @@
+import { getZonedParts, zonedTimeToDate } from './timeZones.ts'
+
+// Texts and calls may go out from 8:00 AM up to (but not including) 9:00 PM in the recipient's time zone
+export const SENDING_HOURS_START = 8
+export const SENDING_HOURS_END = 21
+
+export function isWithinSendingHours(date: Date, timeZone: string): boolean {
+  const { hours } = getZonedParts(date, timeZone)
+  return hours >= SENDING_HOURS_START && hours < SENDING_HOURS_END
+}
+
+// The first moment at or after `date` when a text or call may go out
+export function getNextSendingTime(date: Date, timeZone: string): Date {
+  if (isWithinSendingHours(date, timeZone)) return date
+  const { year, month, day, hours } = getZonedParts(date, timeZone)
+  // Late evening waits for the next morning; Date.UTC rolls the day over month and year ends
+  const morning = new Date(Date.UTC(year, month - 1, hours >= SENDING_HOURS_END ? day + 1 : day))
+  return zonedTimeToDate(morning.getUTCFullYear(), morning.getUTCMonth() + 1, morning.getUTCDate(), SENDING_HOURS_START, 0, timeZone)
+}
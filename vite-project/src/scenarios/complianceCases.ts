@@ -0,0 +1,171 @@
+import { createAuditLog } from '../auditLog.ts'
+import type { AuditEntry } from '../auditLog.ts'
+import { createComplianceChecklist, runAutomatedChecks } from '../complianceChecklist.ts'
+import { INTRO_MESSAGE } from '../engine/conversationEngine.ts'
+import { sampleLead } from '../leads.ts'
+import { lintTranscript, lintWorkflow, MAX_MESSAGE_LENGTH, SMS_SEGMENT_LENGTH } from '../scriptLinter.ts'
+import type { LintIssue } from '../scriptLinter.ts'
+import type { Message } from '../types.ts'
+import type { WorkflowDefinition } from '../workflows/index.ts'
+import { simulateConversation } from './simulator.ts'
+import type { ScenarioInput } from './simulator.ts'
+
+/**
+ * Cases for the script linter and the compliance checklist, which read texts
+ * and audit entries instead of running a conversation step by step. Each
+ * case returns what it found wrong, nothing when it passes; the scenario
+ * runner runs them after the workflow scenarios.
+ */
+
+export type ComplianceCase = {
+  name: string
+  check: () => string[] | Promise<string[]>
+}
+
+const START = new Date('2030-01-14T18:00:00Z')
+const MINUTE_MS = 60 * 1000
+
+// Every text shares one id, as in sessions saved while ids were timestamps; issues are found by position
+function text(sender: 'bot' | 'user', body: string, minutes: number): Message {
+  return { id: 'same', text: body, sender, timestamp: new Date(START.getTime() + minutes * MINUTE_MS) }
+}
+
+// e.g. ["0: ai_disclosure, rates_disclosure", "3: length (warning)"]
+function describeIssues(issues: Map<number | string, LintIssue[]>): string[] {
+  return [...issues]
+    .sort(([a], [b]) => String(a).localeCompare(String(b), undefined, { numeric: true }))
+    .map(([key, found]) => `${key}: ${found.map(issue => issue.severity === 'warning' ? `${issue.rule} (warning)` : issue.rule).join(', ')}`)
+}
+
+function expectIssues(label: string, issues: Map<number | string, LintIssue[]>, expected: string[]): string[] {
+  const found = describeIssues(issues)
+  return JSON.stringify(found) === JSON.stringify(expected)
+    ? []
+    : [`${label}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(found)}`]
+}
+
+const QUESTION = 'Can we call you now to go over your request?'
+const FOLLOW_UP = 'Just checking in: can we call you now to go over your request?'
+const DAY_MINUTES = 24 * 60
+
+// A question, a follow-up step after the 24 hour wait and a step with an over-long text
+const lintCaseWorkflow: WorkflowDefinition = {
+  id: 'lint case',
+  start: 'ask',
+  steps: {
+    ask: { state: 'waiting_for_response', node: 'ask', message: QUESTION, transitions: { 'No': 'follow_up', 'Yes': 'details' } },
+    follow_up: { state: 'waiting_for_response', node: 'follow_up', message: FOLLOW_UP, action: 'wait_24h' },
+    details: { state: 'waiting_for_response', node: 'details', message: 'a'.repeat(MAX_MESSAGE_LENGTH + 1) }
+  },
+  diagram: { viewBox: '0 0 100 100', fontSize: { oval: 14, rect: 14 }, nodes: [] }
+}
+
+const SOURCE: Pick<AuditEntry, 'conversationId' | 'workflow' | 'actor'> = { conversationId: 'case', workflow: 'webform', actor: 'scenarios' }
+
+// The audit log of a webform conversation with the given inputs
+async function auditConversation(inputs: ScenarioInput[]) {
+  const result = await simulateConversation({ workflow: 'webform', start: '2030-01-14T10:00', inputs })
+  const log = createAuditLog()
+  result.audit.forEach(record => log.append(record, SOURCE))
+  return log
+}
+
+export const complianceCases: ComplianceCase[] = [
+  // Script linter
+  {
+    name: 'lint: an opening text without the disclosures misses all three',
+    check: () => expectIssues('issues', lintTranscript([text('bot', 'Hi Alex, thanks for your request!', 0)]), [
+      '0: ai_disclosure, rates_disclosure, stop_instructions'
+    ])
+  },
+  {
+    name: 'lint: the intro and the question sent right after it open the conversation together',
+    check: () => expectIssues('issues', lintTranscript([text('bot', INTRO_MESSAGE, 0), text('bot', QUESTION, 0.5)]), [])
+  },
+  {
+    name: 'lint: a text a day after the last one needs the disclosures again, from its own burst',
+    check: () => [
+      ...expectIssues('with the intro', lintTranscript([
+        text('bot', INTRO_MESSAGE, 0),
+        text('bot', QUESTION, 0.5),
+        text('user', 'No', 5),
+        text('bot', INTRO_MESSAGE, DAY_MINUTES + 5),
+        text('bot', FOLLOW_UP, DAY_MINUTES + 5.5)
+      ]), []),
+      ...expectIssues('without the intro', lintTranscript([
+        text('bot', INTRO_MESSAGE, 0),
+        text('bot', QUESTION, 0.5),
+        text('user', 'No', 5),
+        text('bot', FOLLOW_UP, DAY_MINUTES + 5)
+      ]), ['3: disclosure_after_gap']),
+      ...expectIssues('less than a day later', lintTranscript([
+        text('bot', INTRO_MESSAGE, 0),
+        text('bot', QUESTION, 0.5),
+        text('user', 'No', 5),
+        text('bot', FOLLOW_UP, DAY_MINUTES - 1)
+      ]), [])
+    ]
+  },
+  {
+    name: 'lint: texts past one SMS segment get a warning, past three an error',
+    check: () => expectIssues('issues', lintTranscript([
+      text('bot', INTRO_MESSAGE, 0),
+      text('bot', 'a'.repeat(SMS_SEGMENT_LENGTH), 1),
+      text('bot', 'a'.repeat(SMS_SEGMENT_LENGTH + 1), 2),
+      text('bot', 'a'.repeat(MAX_MESSAGE_LENGTH), 3),
+      text('bot', 'a'.repeat(MAX_MESSAGE_LENGTH + 1), 4)
+    ]), ['2: length (warning)', '3: length (warning)', '4: length'])
+  },
+  {
+    name: 'lint: workflow templates are read with the intro the engine sends before them',
+    check: () => expectIssues('issues', lintWorkflow(lintCaseWorkflow, {
+      version: 'A',
+      scheduledDateTime: null,
+      lead: sampleLead,
+      answers: {},
+      attempts: {},
+      now: START
+    }), ['details: length'])
+  },
+
+  // Compliance checklist
+  {
+    name: 'compliance: a conversation that stops after the opt-out passes the STOP check',
+    check: async () => {
+      const log = await auditConversation([{ call: 'decline' }, 'STOP'])
+      const check = runAutomatedChecks(log.list()).results.stop_instructions
+      return check?.result === 'pass' ? [] : [`STOP check: expected pass, got ${JSON.stringify(check)}`]
+    }
+  },
+  {
+    name: 'compliance: a text sent after the opt-out fails the STOP check',
+    check: async () => {
+      const log = await auditConversation([{ call: 'decline' }, 'STOP'])
+      log.append({ type: 'message_sent', at: new Date(), details: { messageId: 'late', text: QUESTION } }, SOURCE)
+      const check = runAutomatedChecks(log.list()).results.stop_instructions
+      return check?.result === 'fail' && check.detail === '1 text sent after the customer opted out'
+        ? []
+        : [`STOP check: expected a fail for 1 text, got ${JSON.stringify(check)}`]
+    }
+  },
+  {
+    name: 'compliance: changing the owner or notes of a signed-off item takes the sign-off back',
+    check: () => {
+      const checklist = createComplianceChecklist()
+      const failures: string[] = []
+      const signedOff = checklist.update('ai_disclosure', { status: 'signed_off', notes: 'Intro checked' }, 'reviewer', START)
+      if (signedOff.tracking.signedOffBy !== 'reviewer' || signedOff.tracking.signedOffAt !== START) {
+        failures.push(`sign-off: expected reviewer at ${START.toISOString()}, got ${signedOff.tracking.signedOffBy} at ${signedOff.tracking.signedOffAt?.toISOString()}`)
+      }
+      const unchanged = checklist.update('ai_disclosure', { notes: 'Intro checked' }, 'editor')
+      if (unchanged.tracking.status !== 'signed_off') {
+        failures.push(`saving the same notes: expected signed_off, got ${unchanged.tracking.status}`)
+      }
+      const edited = checklist.update('ai_disclosure', { owner: 'editor' }, 'editor')
+      if (edited.tracking.status !== 'in_progress' || edited.tracking.signedOffBy !== null || edited.tracking.signedOffAt !== null) {
+        failures.push(`changing the owner: expected in_progress without a sign-off, got ${edited.tracking.status} signed off by ${edited.tracking.signedOffBy}`)
+      }
+      return failures
+    }
+  }
+]
@@ -0,0 +1,186 @@
+import { categorizeUserResponse } from '../classifier.ts'
+import { withoutClassifierLogs } from '../eval/classifierEval.ts'
+import { parseReplayScript } from '../transcriptImport.ts'
+import { complianceCases } from './complianceCases.ts'
+import type { ComplianceCase } from './complianceCases.ts'
+import { simulateConversation } from './simulator.ts'
+import type { SimulationOptions, SimulationResult } from './simulator.ts'
+import { workflowScenarios } from './workflowScenarios.ts'
+import type { Scenario } from './workflowScenarios.ts'
+
+/**
+ * Runs the workflow scenarios headlessly and checks the states and bot
+ * messages each conversation produces, then the script linter and compliance
+ * checklist cases.
+ *
+ *   npm run test:scenarios                        # all scenarios
+ *   npm run test:scenarios -- --filter webform    # scenarios whose name contains "webform"
+ *   npm run test:scenarios -- --llm               # categorize typed replies with the configured LLM provider
+ *   npm run test:scenarios -- --verbose           # print every conversation, not only failing ones
+ *
+ * Typed replies are categorized by pattern matching unless --llm is given, so
+ * the default run is deterministic. Exits with 1 when any scenario fails.
+ */
+
+export type ScenarioReport = {
+  scenario: Scenario
+  result?: SimulationResult
+  failures: string[]
+}
+
+// "a → b" with a state repeated on consecutive steps shown once
+function collapseRepeats<T>(values: T[]): T[] {
+  return values.filter((value, index) => index === 0 || value !== values[index - 1])
+}
+
+function formatPath(states: string[]): string {
+  return states.length ? states.join(' → ') : '(none)'
+}
+
+function matchesMessage(expected: string | RegExp, text: string): boolean {
+  return typeof expected === 'string' ? text.includes(expected) : expected.test(text)
+}
+
+export function checkScenario(scenario: Scenario, result: SimulationResult): string[] {
+  const { expect } = scenario
+  const failures: string[] = []
+
+  if (expect.states) {
+    const states = collapseRepeats(result.states)
+    if (formatPath(states) !== formatPath(expect.states)) {
+      failures.push(`states: expected ${formatPath(expect.states)}\n            got ${formatPath(states)}`)
+    }
+  }
+  if (expect.finalState && result.finalState !== expect.finalState) {
+    failures.push(`final state: expected ${expect.finalState}, got ${result.finalState}`)
+  }
+  if (expect.outcome && result.outcome !== expect.outcome) {
+    failures.push(`outcome: expected ${expect.outcome}, got ${result.outcome ?? 'none'}`)
+  }
+  if (expect.waitingFor !== undefined && result.waitingFor !== expect.waitingFor) {
+    failures.push(`waiting for: expected ${expect.waitingFor ?? 'nothing'}, got ${result.waitingFor ?? 'nothing'}`)
+  }
+  if (expect.workflow && result.workflow !== expect.workflow) {
+    failures.push(`workflow: expected ${expect.workflow}, got ${result.workflow}`)
+  }
+  if (expect.hoursPassed !== undefined && result.skippedMs !== expect.hoursPassed * 60 * 60 * 1000) {
+    failures.push(`hours passed: expected ${expect.hoursPassed}, got ${result.skippedMs / (60 * 60 * 1000)}`)
+  }
+  if (expect.heldMessages !== undefined) {
+    const held = result.messages.filter(message => message.heldSince).length
+    if (held !== expect.heldMessages) {
+      failures.push(`held messages: expected ${expect.heldMessages}, got ${held}`)
+    }
+  }
+  if (expect.optedOut !== undefined && result.userHasStopped !== expect.optedOut) {
+    failures.push(`opted out: expected ${expect.optedOut}, got ${result.userHasStopped}`)
+  }
+  if (expect.suppressed !== undefined && result.suppressed.length !== expect.suppressed) {
+    failures.push(`suppressed sends: expected ${expect.suppressed}, got ${result.suppressed.length}`)
+  }
+  if (expect.dncChannels && expect.dncChannels.join(', ') !== result.dncChannels.join(', ')) {
+    failures.push(`DNC channels: expected ${expect.dncChannels.join(', ') || 'none'}, got ${result.dncChannels.join(', ') || 'none'}`)
+  }
+  if (expect.audited) {
+    // Each expected entry type must come after the previous one
+    let position = 0
+    const missing = expect.audited.find(type => {
+      const index = result.audit.findIndex((record, i) => i >= position && record.type === type)
+      position = index + 1
+      return index === -1
+    })
+    if (missing) {
+      failures.push(`audit log: expected ${expect.audited.join(' → ')}, ${missing} missing; got ${result.audit.map(record => record.type).join(' → ')}`)
+    }
+  }
+  Object.entries(expect.answers ?? {}).forEach(([key, value]) => {
+    if (result.answers[key] !== value) {
+      failures.push(`answer ${key}: expected ${JSON.stringify(value)}, got ${JSON.stringify(result.answers[key])}`)
+    }
+  })
+  if (expect.userMessages) {
+    const userMessages = result.messages.filter(message => message.sender === 'user').map(message => message.text)
+    if (JSON.stringify(userMessages) !== JSON.stringify(expect.userMessages)) {
+      failures.push(`customer messages: expected ${JSON.stringify(expect.userMessages)}, got ${JSON.stringify(userMessages)}`)
+    }
+  }
+  if (expect.botMessages) {
+    const botMessages = result.messages.filter(message => message.sender === 'bot').map(message => message.text)
+    if (botMessages.length !== expect.botMessages.length) {
+      failures.push(`bot messages: expected ${expect.botMessages.length}, got ${botMessages.length}`)
+    }
+    expect.botMessages.forEach((expected, index) => {
+      const text = botMessages[index]
+      if (text === undefined || !matchesMessage(expected, text)) {
+        failures.push(`bot message ${index + 1}: expected ${expected instanceof RegExp ? expected : JSON.stringify(expected)}, got ${JSON.stringify(text)}`)
+      }
+    })
+  }
+  return failures
+}
+
+export async function runScenario(scenario: Scenario, classify?: SimulationOptions['classify']): Promise<ScenarioReport> {
+  try {
+    const replies = scenario.replay ? parseReplayScript(scenario.replay).replies.map(reply => reply.text) : []
+    const result = await withoutClassifierLogs(() => simulateConversation({ ...scenario, inputs: [...scenario.inputs, ...replies], classify }))
+    return { scenario, result, failures: checkScenario(scenario, result) }
+  } catch (error) {
+    return { scenario, failures: [error instanceof Error ? error.message : String(error)] }
+  }
+}
+
+export async function runComplianceCase(testCase: ComplianceCase): Promise<string[]> {
+  try {
+    return await withoutClassifierLogs(async () => testCase.check())
+  } catch (error) {
+    return [error instanceof Error ? error.message : String(error)]
+  }
+}
+
+function formatConversation(result: SimulationResult): string[] {
+  return result.messages.map(message => `      ${message.sender.padEnd(4)} [${message.state}] ${message.text}`)
+}
+
+export function formatScenarioReport(report: ScenarioReport, verbose = false): string {
+  const lines = [`${report.failures.length ? '✗' : '✓'} ${report.scenario.name}`]
+  report.failures.forEach(failure => lines.push(`    ${failure}`))
+  if (report.result && (verbose || report.failures.length)) {
+    lines.push(...formatConversation(report.result))
+  }
+  return lines.join('\n')
+}
+
+function getArg(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name)
+  return index >= 0 ? args[index + 1] : undefined
+}
+
+export async function main(args: string[]): Promise<number> {
+  const filter = getArg(args, '--filter')?.toLowerCase()
+  const verbose = args.includes('--verbose')
+  const classify: SimulationOptions['classify'] = args.includes('--llm')
+    ? text => categorizeUserResponse(text, { useLlm: true })
+    : undefined
+
+  const scenarios = workflowScenarios.filter(scenario => !filter || scenario.name.toLowerCase().includes(filter))
+  const cases = complianceCases.filter(testCase => !filter || testCase.name.toLowerCase().includes(filter))
+  if (scenarios.length + cases.length === 0) {
+    console.error(`No scenarios match "${filter}"`)
+    return 1
+  }
+
+  let failed = 0
+  for (const scenario of scenarios) {
+    const report = await runScenario(scenario, classify)
+    if (report.failures.length) failed++
+    console.log(formatScenarioReport(report, verbose))
+  }
+  for (const testCase of cases) {
+    const failures = await runComplianceCase(testCase)
+    if (failures.length) failed++
+    console.log([`${failures.length ? '✗' : '✓'} ${testCase.name}`, ...failures.map(failure => `    ${failure}`)].join('\n'))
+  }
+  console.log('')
+  console.log(`${scenarios.length + cases.length - failed} passed, ${failed} failed`)
+  return failed ? 1 : 0
+}
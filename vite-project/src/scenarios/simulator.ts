@@ -0,0 +1,255 @@
+import type { AuditRecord } from '../auditLog.ts'
+import { categorizeUserResponse } from '../classifier.ts'
+import type { ClassificationResult } from '../classifier.ts'
+import { createManualClock } from '../engine/clock.ts'
+import { createDncRegistry } from '../dncRegistry.ts'
+import type { ContactChannel } from '../dncRegistry.ts'
+import { createConversationEngine, INTRO_MESSAGE } from '../engine/conversationEngine.ts'
+import { sampleLead } from '../leads.ts'
+import type { Lead } from '../leads.ts'
+import { getKeywordSettings, matchKeyword } from '../messagingKeywords.ts'
+import { isWithinBusinessHours } from '../timeExtraction.ts'
+import { fromWallClock, getZonedParts, zonedTimeToDate } from '../timeZones.ts'
+import type { ConversationState } from '../types.ts'
+import { getWorkflow } from '../workflows/index.ts'
+import type { WorkflowOutcome } from '../workflows/index.ts'
+
+/**
+ * Headless conversation simulator: runs the conversation engine the phone UI
+ * uses on a manual clock, so step delays and the 24 hour wait pass instantly,
+ * and answers calls and date pickers with the scenario's inputs. The intro
+ * message the phone shows first (and after each 24 hour wait) is left out.
+ */
+
+// What the customer does next: a reply, answering or missing the call, picking a time on
+// their own wall clock (null closes the picker), or nothing for a number of hours
+export type ScenarioInput =
+  | string
+  | { call: 'answer' | 'decline' }
+  | { pick: string | null }
+  | { wait: number }
+
+export type SimulationOptions = {
+  workflow: string
+  // Defaults to 'A'
+  version?: string
+  // With AI off only the offered options and the STOP, START and HELP keywords can be sent, as on the phone
+  aiEnabled?: boolean
+  inputs: ScenarioInput[]
+  // Defaults to the sample lead, who gave consent on the webform right as the conversation starts
+  lead?: Lead
+  // Channels the lead's number is already on the Do-Not-Contact list for
+  dnc?: ContactChannel[]
+  // When the conversation starts, on the lead's wall clock (e.g. '2030-01-14T23:30'); defaults to 10:00 AM today
+  start?: string
+  // Categorizes typed replies (default: pattern matching)
+  classify?: (text: string) => Promise<ClassificationResult>
+}
+
+export type SimulatedMessage = {
+  sender: 'bot' | 'user'
+  text: string
+  state: ConversationState
+  // Held back by the recipient's quiet hours since then
+  heldSince?: Date
+}
+
+export type SimulationResult = {
+  // The conversation can switch workflows (webform → confirm visit)
+  workflow: string
+  // Every step entered and its state, in order
+  stepIds: string[]
+  states: ConversationState[]
+  messages: SimulatedMessage[]
+  finalState: ConversationState
+  // Outcome of the last step, when it ends the conversation
+  outcome?: WorkflowOutcome
+  answers: Record<string, string>
+  scheduledDateTime: Date | null
+  // Simulated time the conversation's waits skipped
+  skippedMs: number
+  // What the conversation is waiting for after the last input (null once it has ended)
+  waitingFor: 'reply' | 'call' | 'date' | null
+  userHasStopped: boolean
+  // Texts and calls the Do-Not-Contact registry blocked
+  suppressed: { channel: ContactChannel, text?: string }[]
+  // Channels the lead's number is on the Do-Not-Contact list for at the end
+  dncChannels: ContactChannel[]
+  // What the compliance audit log would have recorded
+  audit: AuditRecord[]
+}
+
+function getStartTime(start: string | undefined, timeZone: string): Date {
+  if (start) {
+    const wallClock = new Date(start)
+    if (isNaN(wallClock.getTime())) {
+      throw new Error(`"${start}" is not a date and time`)
+    }
+    return fromWallClock(wallClock, timeZone)
+  }
+  // A fixed time of day keeps quiet hours out of scenarios that don't ask for them
+  const { year, month, day } = getZonedParts(new Date(), timeZone)
+  return zonedTimeToDate(year, month, day, 10, 0, timeZone)
+}
+
+function describeInput(input: ScenarioInput): string {
+  if (typeof input === 'string') return `reply "${input}"`
+  if ('call' in input) return `call ${input.call}`
+  if ('wait' in input) return `waiting ${input.wait} hours`
+  return input.pick === null ? 'closing the date picker' : `pick ${input.pick}`
+}
+
+export async function simulateConversation(options: SimulationOptions): Promise<SimulationResult> {
+  if (!getWorkflow(options.workflow)) {
+    throw new Error(`Unknown workflow "${options.workflow}"`)
+  }
+  const classify = options.classify ?? (text => categorizeUserResponse(text, { useLlm: false }))
+  const start = getStartTime(options.start, (options.lead ?? sampleLead).timeZone)
+  const lead = options.lead ?? { ...sampleLead, consent: sampleLead.consent && { ...sampleLead.consent, grantedAt: start } }
+  const clock = createManualClock(start)
+  const keywords = getKeywordSettings()
+  const dnc = createDncRegistry()
+  if (options.dnc?.length) {
+    dnc.add({ phone: lead.phone, channels: options.dnc, source: 'enterprise', reason: 'Listed before the conversation', addedAt: clock.now() })
+  }
+  const conversation = createConversationEngine({ clock, lead, classify: text => classify(text), keywords, dnc })
+  const suppressed: SimulationResult['suppressed'] = []
+  const audit: AuditRecord[] = []
+  // The step whose call the registry blocked; it never rings
+  let suppressedCallStep: string | null = null
+  conversation.subscribe(event => {
+    if (event.type === 'audit') {
+      audit.push(event.record)
+    }
+    if (event.type === 'suppressed') {
+      suppressed.push({ channel: event.channel, text: event.text })
+      if (event.channel === 'voice') {
+        suppressedCallStep = conversation.getState().currentStepId
+      }
+    }
+  })
+  conversation.configure({ workflow: options.workflow, version: options.version ?? 'A', aiEnabled: options.aiEnabled ?? false })
+
+  // What the current step is waiting for once its delays have passed
+  function getWaitingFor(): SimulationResult['waitingFor'] {
+    const step = conversation.getCurrentStep()
+    if (!step || !conversation.getState().currentStepRan) return null
+    if (step.action === 'call') return suppressedCallStep === getStepId() ? null : 'call'
+    if (step.action === 'pick_datetime') return 'date'
+    return step.transitions || step.otherwise ? 'reply' : null
+  }
+
+  function getStepId(): string {
+    return conversation.getState().currentStepId ?? ''
+  }
+
+  // Mirrors handleTextInput in app.ts (typed replies) and the option buttons (AI off)
+  async function reply(text: string) {
+    // Keywords are honored whatever the conversation is waiting for, even after it ended
+    if (matchKeyword(text, keywords)) {
+      if (conversation.getState().aiEnabled) {
+        await conversation.submitText(text)
+      } else {
+        conversation.selectOption(text)
+      }
+      return
+    }
+    // A reply while the phone rings means the customer let the call go
+    if (getWaitingFor() === 'call') {
+      conversation.declineCall()
+      clock.runAll()
+    }
+    const waitingFor = getWaitingFor()
+    if (waitingFor === 'date') {
+      throw new Error(`Step "${getStepId()}" is waiting for a date pick, not reply "${text}"`)
+    }
+    if (waitingFor !== 'reply') {
+      throw new Error(`The conversation ended on step "${getStepId()}" before reply "${text}"`)
+    }
+
+    const step = conversation.getCurrentStep()
+    if (!conversation.getState().aiEnabled && step?.input !== 'free_text') {
+      const matchedOption = step?.options?.find(option => option.toLowerCase() === text.toLowerCase())
+      if (!matchedOption) {
+        throw new Error(`"${text}" is not an option on step "${getStepId()}" (${(step?.options ?? []).join(', ')}); turn AI on to type other replies`)
+      }
+      conversation.selectOption(matchedOption)
+      return
+    }
+    await conversation.submitText(text)
+  }
+
+  function answerCall(outcome: 'answer' | 'decline') {
+    if (getWaitingFor() !== 'call') {
+      throw new Error(`Step "${getStepId()}" is not calling the customer`)
+    }
+    if (outcome === 'answer') {
+      conversation.answerCall()
+    } else {
+      conversation.declineCall()
+    }
+  }
+
+  function pickDateTime(value: string | null) {
+    if (getWaitingFor() !== 'date') {
+      throw new Error(`Step "${getStepId()}" has no date picker open`)
+    }
+    if (value === null) {
+      conversation.cancelDatePick()
+      return
+    }
+    const wallClock = new Date(value)
+    if (isNaN(wallClock.getTime())) {
+      throw new Error(`"${value}" is not a date and time`)
+    }
+    // The picker only offers times between 9:00 AM and 5:00 PM in the customer's time zone
+    if (!isWithinBusinessHours(wallClock.getHours())) {
+      throw new Error(`${value} is outside the 9:00 AM - 5:00 PM window the date picker allows`)
+    }
+    const date = fromWallClock(wallClock, lead.timeZone)
+    if (date <= conversation.now()) {
+      throw new Error(`${value} is before the conversation's current time (${conversation.now().toISOString()})`)
+    }
+    conversation.pickDateTime(date)
+  }
+
+  conversation.start()
+  clock.runAll()
+  for (const input of options.inputs) {
+    try {
+      if (typeof input === 'string') {
+        await reply(input)
+      } else if ('call' in input) {
+        answerCall(input.call)
+      } else if ('wait' in input) {
+        conversation.passTime(input.wait * 60 * 60 * 1000)
+      } else {
+        pickDateTime(input.pick)
+      }
+      clock.runAll()
+    } catch (error) {
+      throw new Error(`At ${describeInput(input)}: ${error instanceof Error ? error.message : error}`)
+    }
+  }
+
+  const state = conversation.getData()
+  return {
+    workflow: state.workflow,
+    stepIds: state.stateTransitions.map(transition => transition.stepId),
+    states: state.stateTransitions.map(transition => transition.to),
+    messages: state.messages
+      .filter(message => !(message.sender === 'bot' && message.text === INTRO_MESSAGE))
+      // The engine stamps every message with the state it was sent in
+      .map(message => ({ sender: message.sender, text: message.text, state: message.state!, heldSince: message.heldSince })),
+    finalState: state.currentState,
+    outcome: conversation.getCurrentStep()?.outcome,
+    answers: state.answers,
+    scheduledDateTime: state.scheduledDateTime,
+    skippedMs: state.timeOffsetMs,
+    waitingFor: getWaitingFor(),
+    userHasStopped: state.userHasStopped,
+    suppressed,
+    dncChannels: (['sms', 'voice'] as const).filter(channel => dnc.check(lead.phone, channel)),
+    audit
+  }
+}
@@ -0,0 +1,383 @@
+import type { AuditEventType } from '../auditLog.ts'
+import type { ContactChannel } from '../dncRegistry.ts'
+import { sampleLead } from '../leads.ts'
+import type { Lead } from '../leads.ts'
+import type { ConversationState } from '../types.ts'
+import type { WorkflowOutcome } from '../workflows/index.ts'
+import type { ScenarioInput, SimulationResult } from './simulator.ts'
+
+export type Scenario = {
+  name: string
+  workflow: string
+  // Defaults to 'A'
+  version?: string
+  aiEnabled?: boolean
+  // Lead's wall-clock time the conversation starts at (defaults to 10:00 AM today)
+  start?: string
+  // Defaults to the sample lead, with consent given as the conversation starts
+  lead?: Lead
+  // Channels the lead's number is on the Do-Not-Contact list for before the conversation starts
+  dnc?: ContactChannel[]
+  inputs: ScenarioInput[]
+  // Replay script as loaded from a file (see transcriptImport.ts); its replies are sent after the inputs
+  replay?: string
+  expect: {
+    // States the conversation moved through (the same state several steps in a row counts once)
+    states?: ConversationState[]
+    finalState?: ConversationState
+    outcome?: WorkflowOutcome
+    // Every bot message in order; a string must appear in the message, a RegExp must match it
+    botMessages?: (string | RegExp)[]
+    // Every customer message in order, exactly as sent
+    userMessages?: string[]
+    answers?: Record<string, string>
+    waitingFor?: SimulationResult['waitingFor']
+    // Workflow the conversation ends in, when it switches
+    workflow?: string
+    // Simulated hours that passed (follow-up waits and quiet hours)
+    hoursPassed?: number
+    // Bot messages held back by quiet hours
+    heldMessages?: number
+    // Whether the customer is opted out at the end
+    optedOut?: boolean
+    // Texts and calls blocked by the Do-Not-Contact registry
+    suppressed?: number
+    // Channels the number is on the Do-Not-Contact list for at the end
+    dncChannels?: ContactChannel[]
+    // Audit log entries that must be recorded in this order (others may come in between)
+    audited?: AuditEventType[]
+  }
+}
+
+const WEBFORM_RECEIVED = 'We received your interest form!'
+const WEBFORM_CALLBACK = 'Would you like us to call you back?'
+const WEBFORM_FOLLOWUP = 'we called yesterday'
+const OPTED_OUT = /unsubscribed/
+const OPTED_IN = /resubscribed/
+const HELP = /for help call/
+
+/**
+ * Conversations through each workflow with the states and bot messages they
+ * must produce. Add a scenario here whenever a flow is changed or a reported
+ * conversation went somewhere it shouldn't.
+ */
+export const workflowScenarios: Scenario[] = [
+  // Webform
+  {
+    name: 'webform: answered call ends the flow',
+    workflow: 'webform',
+    inputs: [{ call: 'answer' }],
+    expect: { states: ['initial', 'calling', 'call_accepted'], outcome: 'answered', botMessages: [WEBFORM_RECEIVED], waitingFor: null }
+  },
+  {
+    name: 'webform: No → No → 24h later → Yes lands on scheduling',
+    workflow: 'webform',
+    inputs: [{ call: 'decline' }, 'No', 'No', 'Yes'],
+    expect: {
+      states: ['initial', 'calling', 'call_declined', 'waiting_for_response', 'asking_better_time', 'followup_next_day', 'scheduling_time'],
+      botMessages: [WEBFORM_RECEIVED, WEBFORM_CALLBACK, 'Is there a better time that we can call you?', WEBFORM_FOLLOWUP],
+      waitingFor: 'date'
+    }
+  },
+  {
+    name: 'webform: No at the day 1 follow-up tries again on day 3',
+    workflow: 'webform',
+    inputs: [{ call: 'decline' }, '24 hours later (No response)', 'No'],
+    expect: {
+      states: ['initial', 'calling', 'call_declined', 'waiting_for_response', 'followup_next_day'],
+      botMessages: [WEBFORM_RECEIVED, WEBFORM_CALLBACK, WEBFORM_FOLLOWUP, WEBFORM_FOLLOWUP],
+      waitingFor: 'reply',
+      hoursPassed: 3 * 24
+    }
+  },
+  {
+    name: 'webform: no answer to the day 7 follow-up closes the conversation',
+    workflow: 'webform',
+    inputs: [{ call: 'decline' }, '24 hours later (No response)', 'No', 'No', 'No'],
+    expect: {
+      states: ['initial', 'calling', 'call_declined', 'waiting_for_response', 'followup_next_day', 'max_attempts_reached'],
+      botMessages: [WEBFORM_RECEIVED, WEBFORM_CALLBACK, WEBFORM_FOLLOWUP, WEBFORM_FOLLOWUP, WEBFORM_FOLLOWUP, "won't reach out again"],
+      outcome: 'max_attempts',
+      waitingFor: null,
+      hoursPassed: 7 * 24
+    }
+  },
+  {
+    name: 'webform: picked time is confirmed',
+    workflow: 'webform',
+    inputs: [{ call: 'decline' }, 'Call at a different time', { pick: '2030-01-15T10:00' }],
+    expect: {
+      finalState: 'time_scheduled',
+      outcome: 'scheduled',
+      botMessages: [WEBFORM_RECEIVED, WEBFORM_CALLBACK, 'We will call you again on Tuesday, January 15, 2030 at 10:00 AM.']
+    }
+  },
+  {
+    name: 'webform: closing the date picker asks again',
+    workflow: 'webform',
+    inputs: [{ call: 'decline' }, 'Call at a different time', { pick: null }, 'No'],
+    expect: {
+      states: ['initial', 'calling', 'call_declined', 'waiting_for_response', 'scheduling_time', 'asking_after_cancel', 'followup_next_day'],
+      waitingFor: 'reply'
+    }
+  },
+  {
+    name: 'webform: a lead arriving at 11:30 PM is texted and called at 8:00 AM',
+    workflow: 'webform',
+    start: '2030-01-14T23:30',
+    inputs: [{ call: 'decline' }],
+    expect: { botMessages: [WEBFORM_RECEIVED, WEBFORM_CALLBACK], finalState: 'waiting_for_response', hoursPassed: 8.5, heldMessages: 1 }
+  },
+  {
+    name: 'webform B: no SMS before the call',
+    workflow: 'webform',
+    version: 'B',
+    inputs: [{ call: 'decline' }],
+    expect: { botMessages: [WEBFORM_CALLBACK], finalState: 'waiting_for_response' }
+  },
+  {
+    name: 'webform AI: "yes please" redials the lead',
+    workflow: 'webform',
+    aiEnabled: true,
+    inputs: [{ call: 'decline' }, 'yes please'],
+    expect: { states: ['initial', 'calling', 'call_declined', 'waiting_for_response', 'calling'], waitingFor: 'call' }
+  },
+  {
+    name: 'webform AI: a requested time in business hours is booked without the picker',
+    workflow: 'webform',
+    aiEnabled: true,
+    inputs: [{ call: 'decline' }, 'can you call me tomorrow at 10am'],
+    expect: { finalState: 'time_scheduled', outcome: 'scheduled', botMessages: [WEBFORM_RECEIVED, WEBFORM_CALLBACK, /^We will call you again on .* at 10:00 AM\.$/] }
+  },
+  {
+    name: 'webform AI: a requested time outside business hours opens the picker',
+    workflow: 'webform',
+    aiEnabled: true,
+    inputs: [{ call: 'decline' }, 'call me tomorrow at 8pm'],
+    expect: { finalState: 'scheduling_time', botMessages: [WEBFORM_RECEIVED, WEBFORM_CALLBACK, 'We can only call between 9:00 AM and 5:00 PM'], waitingFor: 'date' }
+  },
+  {
+    name: 'webform AI: asking to confirm a visit switches workflows',
+    workflow: 'webform',
+    aiEnabled: true,
+    inputs: [{ call: 'decline' }, 'I actually want to confirm my visit', 'yes'],
+    expect: { workflow: 'confirm visit', finalState: 'confirm_visit_confirmed', outcome: 'confirmed', audited: ['message_received', 'workflow_switch'] }
+  },
+  {
+    name: 'webform AI: STOP confirms once, then silences the bot',
+    workflow: 'webform',
+    aiEnabled: true,
+    inputs: [{ call: 'decline' }, 'STOP', 'No', 'stop'],
+    expect: {
+      finalState: 'asking_better_time',
+      botMessages: [WEBFORM_RECEIVED, WEBFORM_CALLBACK, OPTED_OUT],
+      optedOut: true,
+      dncChannels: ['sms'],
+      audited: ['message_received', 'keyword', 'message_sent', 'dnc_updated', 'message_received', 'dnc_check']
+    }
+  },
+  {
+    name: 'webform: lowercase stop opts out with AI off too',
+    workflow: 'webform',
+    inputs: [{ call: 'decline' }, 'stop.'],
+    expect: { botMessages: [WEBFORM_RECEIVED, WEBFORM_CALLBACK, OPTED_OUT], optedOut: true }
+  },
+  {
+    name: 'webform AI: UNSUBSCRIBE opts out',
+    workflow: 'webform',
+    aiEnabled: true,
+    inputs: [{ call: 'decline' }, 'Unsubscribe'],
+    expect: { botMessages: [WEBFORM_RECEIVED, WEBFORM_CALLBACK, OPTED_OUT], optedOut: true }
+  },
+  {
+    name: 'webform: START re-subscribes and the conversation carries on',
+    workflow: 'webform',
+    inputs: [{ call: 'decline' }, 'QUIT', 'START', 'Yes'],
+    expect: {
+      states: ['initial', 'calling', 'call_declined', 'waiting_for_response', 'calling'],
+      botMessages: [WEBFORM_RECEIVED, WEBFORM_CALLBACK, OPTED_OUT, OPTED_IN],
+      waitingFor: 'call',
+      optedOut: false,
+      dncChannels: []
+    }
+  },
+  {
+    name: 'webform: HELP is answered, even after opting out',
+    workflow: 'webform',
+    inputs: [{ call: 'decline' }, 'help', 'END', 'HELP'],
+    expect: { finalState: 'waiting_for_response', botMessages: [WEBFORM_RECEIVED, WEBFORM_CALLBACK, HELP, OPTED_OUT, HELP], optedOut: true }
+  },
+  {
+    name: 'webform AI: do not contact ends on DNC',
+    workflow: 'webform',
+    aiEnabled: true,
+    inputs: [{ call: 'decline' }, 'stop texting me'],
+    expect: { finalState: 'ended', outcome: 'dnc', waitingFor: null, dncChannels: ['sms', 'voice'], audited: ['classification', 'message_sent', 'dnc_updated'] }
+  },
+  {
+    name: 'webform: a lead without consent is neither texted nor called',
+    workflow: 'webform',
+    lead: { ...sampleLead, consent: null },
+    inputs: [],
+    expect: { states: ['initial', 'consent_missing'], outcome: 'suppressed', botMessages: [], waitingFor: null, audited: ['conversation_started', 'consent_check'] }
+  },
+  {
+    name: 'webform: consent older than 90 days is refused',
+    workflow: 'webform',
+    start: '2030-06-01T10:00',
+    lead: { ...sampleLead, consent: { ...sampleLead.consent!, grantedAt: new Date('2030-01-15T18:00:00Z') } },
+    inputs: [],
+    expect: { finalState: 'consent_missing', outcome: 'suppressed', botMessages: [] }
+  },
+  {
+    name: 'webform: consent to texts only does not cover the call',
+    workflow: 'webform',
+    lead: { ...sampleLead, consent: { ...sampleLead.consent!, channels: ['sms'] } },
+    inputs: [],
+    expect: { finalState: 'calling', botMessages: [WEBFORM_RECEIVED], suppressed: 1, waitingFor: null, audited: ['consent_check', 'message_sent', 'consent_check'] }
+  },
+  {
+    name: 'webform: consent given 89 days before is still valid',
+    workflow: 'webform',
+    start: '2030-06-01T10:00',
+    lead: { ...sampleLead, consent: { ...sampleLead.consent!, grantedAt: new Date('2030-03-04T18:00:00Z') } },
+    inputs: [{ call: 'answer' }],
+    expect: { outcome: 'answered', botMessages: [WEBFORM_RECEIVED] }
+  },
+  {
+    name: 'webform: a number on the DNC list is neither texted nor called',
+    workflow: 'webform',
+    dnc: ['sms', 'voice'],
+    inputs: [],
+    expect: { finalState: 'calling', botMessages: [], suppressed: 2, waitingFor: null }
+  },
+  {
+    name: 'webform: Do-Not-Call only still texts, but never rings',
+    workflow: 'webform',
+    dnc: ['voice'],
+    inputs: [],
+    expect: { finalState: 'calling', botMessages: [WEBFORM_RECEIVED], suppressed: 1, waitingFor: null }
+  },
+
+  // Confirm visit
+  {
+    name: 'confirm visit: Yes confirms',
+    workflow: 'confirm visit',
+    inputs: ['Yes'],
+    expect: { states: ['confirm_visit_initial', 'confirm_visit_waiting', 'confirm_visit_confirmed'], outcome: 'confirmed', botMessages: ['you have a consultation scheduled for', 'Great! We will see you then.'] }
+  },
+  {
+    name: 'confirm visit: reschedule, close the picker, then cancel',
+    workflow: 'confirm visit',
+    inputs: ['No', 'Yes', { pick: null }, 'No'],
+    expect: {
+      states: [
+        'confirm_visit_initial',
+        'confirm_visit_waiting',
+        'confirm_visit_reschedule_question',
+        'confirm_visit_reschedule_waiting',
+        'confirm_visit_reschedule_selecting_time',
+        'confirm_visit_reschedule_waiting',
+        'confirm_visit_cancelled'
+      ],
+      outcome: 'cancelled'
+    }
+  },
+  {
+    name: 'confirm visit: rescheduled time is confirmed',
+    workflow: 'confirm visit',
+    inputs: ['Cancel Appointment', 'Yes', { pick: '2030-01-15T14:30' }],
+    expect: { finalState: 'confirm_visit_confirmed', botMessages: [/consultation scheduled/, 'Is there a better time', 'rescheduled for Tuesday, January 15, 2030 at 2:30 PM'] }
+  },
+  {
+    name: 'confirm visit: DNC puts the number on the Do-Not-Contact list after the goodbye',
+    workflow: 'confirm visit',
+    inputs: ['DNC'],
+    expect: { finalState: 'confirm_visit_dnc', outcome: 'dnc', suppressed: 0, dncChannels: ['sms', 'voice'] }
+  },
+
+  // Offer
+  {
+    name: 'offer: question, then accept',
+    workflow: 'offer',
+    inputs: ['Ask a question', 'Accept offer'],
+    expect: { states: ['offer_initial', 'offer_opt_in_check', 'offer_waiting', 'offer_question', 'offer_accepted'], outcome: 'redeemed' }
+  },
+  {
+    name: 'offer: accepted days later, the code and expiry are the ones the offer quoted',
+    workflow: 'offer',
+    start: '2030-01-14T10:00',
+    inputs: [{ wait: 72 }, 'Accept offer'],
+    expect: {
+      botMessages: ['Offer expires Monday, January 21.', /ADT20-01230121\b.*by Monday, January 21\./],
+      outcome: 'redeemed',
+      hoursPassed: 72
+    }
+  },
+  {
+    name: 'offer: a number on the Do-Not-Text list gets no offer',
+    workflow: 'offer',
+    dnc: ['sms'],
+    inputs: [],
+    expect: { finalState: 'offer_waiting', botMessages: [], suppressed: 1 }
+  },
+  {
+    name: 'offer AI: anything unclear is a question for a specialist',
+    workflow: 'offer',
+    aiEnabled: true,
+    inputs: ['what does it cost per month?'],
+    expect: { finalState: 'offer_question', waitingFor: 'reply' }
+  },
+
+  // Schedule consultation
+  {
+    name: 'schedule consultation: offered slot is booked',
+    workflow: 'schedule consultation',
+    inputs: ['2'],
+    expect: { finalState: 'schedule_consultation_booked', outcome: 'scheduled' }
+  },
+  {
+    name: 'schedule consultation: own time is booked',
+    workflow: 'schedule consultation',
+    inputs: ['None of these', { pick: '2030-01-15T16:30' }],
+    expect: { states: ['schedule_consultation_initial', 'schedule_consultation_offering', 'schedule_consultation_selecting_time', 'schedule_consultation_booked'], outcome: 'scheduled' }
+  },
+
+  // Customer satisfaction check-in
+  {
+    name: 'csat: high score says thanks',
+    workflow: 'customer satisfaction check-in',
+    inputs: ['5'],
+    expect: { finalState: 'csat_completed', outcome: 'completed', answers: { rating: '5' } }
+  },
+  {
+    name: 'csat: low score collects feedback and calls back',
+    workflow: 'customer satisfaction check-in',
+    inputs: ['2', 'The technician was two hours late', 'Yes', { call: 'answer' }],
+    expect: {
+      states: ['csat_initial', 'csat_rating_waiting', 'csat_feedback_waiting', 'csat_callback_offer', 'csat_calling', 'csat_call_accepted'],
+      answers: { rating: '2', feedback: 'The technician was two hours late', callback: 'Yes' },
+      outcome: 'answered'
+    }
+  },
+  {
+    name: 'csat AI: a reply that is not a rating asks again',
+    workflow: 'customer satisfaction check-in',
+    aiEnabled: true,
+    inputs: ['pretty good I guess', '4'],
+    expect: { finalState: 'csat_completed', botMessages: ['how satisfied are you', 'Please reply with a number from 1 to 5', 'Thank you, John!'], answers: { rating: '4' } }
+  },
+  {
+    name: 'csat AI: markup in an imported reply is kept as plain text',
+    workflow: 'customer satisfaction check-in',
+    aiEnabled: true,
+    inputs: ['2'],
+    replay: JSON.stringify(['<img src=x onerror="alert(1)">', '</textarea><script>alert(1)</script>']),
+    expect: {
+      // The unclear reply is followed by the category it was routed as
+      userMessages: ['2', '<img src=x onerror="alert(1)">', '</textarea><script>alert(1)</script>', 'Unknown message'],
+      finalState: 'csat_completed',
+      answers: { rating: '2', feedback: '<img src=x onerror="alert(1)">' }
+    }
+  }
+]
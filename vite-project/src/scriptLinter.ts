@@ -0,0 +1,128 @@
+import { INTRO_MESSAGE } from './engine/conversationEngine.ts'
+import type { Message } from './types.ts'
+import { getStepLinks, linkTarget, renderTemplate } from './workflows/index.ts'
+import type { WorkflowContext, WorkflowDefinition } from './workflows/index.ts'
+
+/**
+ * Checks bot messages against the script rules from the legal requirements:
+ * a message that starts a conversation (or picks it up again after a gap)
+ * must disclose the AI, message and data rates and how to opt out, and no
+ * text may run past the SMS length limits. Workflow templates are checked
+ * for the dataflow diagram, the conversation's messages for the dialogue editor.
+ */
+
+export type LintRule = 'ai_disclosure' | 'rates_disclosure' | 'stop_instructions' | 'disclosure_after_gap' | 'length'
+
+export type LintIssue = {
+  rule: LintRule
+  severity: 'error' | 'warning'
+  message: string
+}
+
+// One SMS segment; longer texts are split and may arrive out of order
+export const SMS_SEGMENT_LENGTH = 160
+// Longer than three segments is refused
+export const MAX_MESSAGE_LENGTH = 3 * SMS_SEGMENT_LENGTH
+// A bot message this long after the previous one starts the conversation over and needs the disclosures again
+export const DISCLOSURE_GAP_MS = 24 * 60 * 60 * 1000
+// Bot messages sent this close together are read as one (e.g. the intro and the first question)
+const BURST_MS = 60 * 1000
+
+const DISCLOSURES: { rule: LintRule, pattern: RegExp, missing: string }[] = [
+  { rule: 'ai_disclosure', pattern: /\bAI\b|artificial intelligence|automated/i, missing: 'the AI disclosure' },
+  { rule: 'rates_disclosure', pattern: /msg\s*&\s*data\s*rates|message and data rates/i, missing: '"Msg&Data rates may apply"' },
+  { rule: 'stop_instructions', pattern: /\bSTOP/, missing: 'how to opt out (STOP)' }
+]
+
+function lintLength(text: string): LintIssue[] {
+  if (text.length > MAX_MESSAGE_LENGTH) {
+    return [{ rule: 'length', severity: 'error', message: `${text.length} characters; texts may be at most ${MAX_MESSAGE_LENGTH}` }]
+  }
+  if (text.length > SMS_SEGMENT_LENGTH) {
+    const segments = Math.ceil(text.length / SMS_SEGMENT_LENGTH)
+    return [{ rule: 'length', severity: 'warning', message: `${text.length} characters; sent as ${segments} SMS segments` }]
+  }
+  return []
+}
+
+// Disclosures missing from the texts that open (or reopen) a conversation
+function lintDisclosures(texts: string[], afterGap: boolean): LintIssue[] {
+  const combined = texts.join('\n')
+  const missing = DISCLOSURES.filter(({ pattern }) => !pattern.test(combined))
+  if (afterGap) {
+    return missing.length
+      ? [{ rule: 'disclosure_after_gap', severity: 'error', message: `Picks the conversation up again after a day without ${missing.map(({ missing }) => missing).join(', ')}` }]
+      : []
+  }
+  return missing.map(({ rule, missing }) => ({ rule, severity: 'error', message: `Starts the conversation without ${missing}` }))
+}
+
+/**
+ * Issues per bot message, keyed by its index in messages. The first bot
+ * message, and any bot message sent a day or more after the previous one,
+ * opens a conversation together with the bot messages sent right after it.
+ */
+export function lintTranscript(messages: Message[]): Map<number, LintIssue[]> {
+  const issues = new Map<number, LintIssue[]>()
+  const botMessages = messages.flatMap((message, position) => message.sender === 'bot' ? [{ ...message, position }] : [])
+  botMessages.forEach((message, index) => {
+    const found = lintLength(message.text)
+    const previous = botMessages[index - 1]
+    const gap = previous ? message.timestamp.getTime() - previous.timestamp.getTime() : Infinity
+    if (gap >= DISCLOSURE_GAP_MS) {
+      const burst = [message]
+      for (let next = botMessages[index + burst.length]; next && next.timestamp.getTime() - message.timestamp.getTime() <= BURST_MS; next = botMessages[index + burst.length]) {
+        burst.push(next)
+      }
+      found.push(...lintDisclosures(burst.map(({ text }) => text), !!previous))
+    }
+    if (found.length) {
+      issues.set(message.position, found)
+    }
+  })
+  return issues
+}
+
+// Steps whose message can be the conversation's first: reached from the start without another message on the way
+function getOpeningSteps(workflow: WorkflowDefinition, ctx: WorkflowContext): Set<string> {
+  const opening = new Set<string>()
+  const visited = new Set<string>()
+  const queue = [workflow.start]
+  while (queue.length) {
+    const stepId = queue.shift()!
+    const step = workflow.steps[stepId]
+    if (!step || visited.has(stepId)) continue
+    visited.add(stepId)
+    if (renderTemplate(step.message, ctx)) {
+      opening.add(stepId)
+      continue
+    }
+    getStepLinks(step).forEach(({ link }) => queue.push(linkTarget(link)))
+  }
+  return opening
+}
+
+/**
+ * Issues per diagram node for the workflow's message templates. The engine
+ * sends the intro before the first message and again after every follow-up
+ * wait, so those messages are checked together with it.
+ */
+export function lintWorkflow(workflow: WorkflowDefinition, ctx: WorkflowContext): Map<string, LintIssue[]> {
+  const issues = new Map<string, LintIssue[]>()
+  const opening = getOpeningSteps(workflow, ctx)
+  Object.entries(workflow.steps).forEach(([stepId, step]) => {
+    const text = renderTemplate(step.message, ctx)
+    if (!text) return
+    const found = lintLength(text)
+    if (opening.has(stepId)) {
+      found.push(...lintLength(INTRO_MESSAGE), ...lintDisclosures([INTRO_MESSAGE, text], false))
+    }
+    if (step.action === 'wait_24h') {
+      found.push(...lintDisclosures([INTRO_MESSAGE, text], true))
+    }
+    if (found.length) {
+      issues.set(step.node, [...(issues.get(step.node) ?? []), ...found])
+    }
+  })
+  return issues
+}
@@ -0,0 +1,96 @@
+import type { ConversationState, Message, StateTransition } from './types.ts'
+
+/**
+ * Saved conversation sessions, kept in IndexedDB so a page refresh or a
+ * workflow switch doesn't lose a demo run. Each snapshot holds everything the
+ * phone UI and the dataflow diagram need to be rebuilt.
+ */
+
+export type ConversationSnapshot = {
+  id: string
+  // Username of whoever ran the conversation
+  owner: string
+  createdAt: Date
+  updatedAt: Date
+  workflow: string
+  version: string
+  aiEnabled: boolean
+  currentState: ConversationState
+  currentStepId: string | null
+  // Whether the current step already sent its message and started its action
+  currentStepRan: boolean
+  scheduledDateTime: Date | null
+  userHasStopped: boolean
+  answers: Record<string, string>
+  // Follow-up attempts made, keyed by the follow-up step; missing in sessions saved before they were counted
+  followUpAttempts?: Record<string, number>
+  messages: Message[]
+  // Missing in sessions saved before transitions were tracked
+  stateTransitions?: StateTransition[]
+  // Simulated time skipped by "24 hours later" waits; missing in sessions saved before it was tracked
+  timeOffsetMs?: number
+  // Simulated lead the conversation ran with (see simulatedLeads); missing in sessions saved before leads could be picked
+  leadId?: string
+}
+
+const DB_NAME = '2waySMS'
+const DB_VERSION = 1
+const STORE = 'conversations'
+const LAST_CONVERSATION_KEY = '2waySMS_last_conversation'
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' })
+        store.createIndex('owner', 'owner')
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+    // Let a later call retry if opening failed (e.g. private browsing)
+    dbPromise.catch(() => { dbPromise = null })
+  }
+  return dbPromise
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb()
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE, mode).objectStore(STORE))
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export function createConversationId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+export async function saveConversation(snapshot: ConversationSnapshot): Promise<void> {
+  await withStore('readwrite', store => store.put(snapshot))
+  localStorage.setItem(`${LAST_CONVERSATION_KEY}:${snapshot.owner}`, snapshot.id)
+}
+
+export function loadConversation(id: string): Promise<ConversationSnapshot | undefined> {
+  return withStore('readonly', store => store.get(id) as IDBRequest<ConversationSnapshot | undefined>)
+}
+
+// The owner's conversations, most recently updated first
+export async function listConversations(owner: string): Promise<ConversationSnapshot[]> {
+  const snapshots = await withStore('readonly', store => store.index('owner').getAll(owner) as IDBRequest<ConversationSnapshot[]>)
+  return snapshots.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+}
+
+export async function deleteConversation(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id))
+}
+
+// The conversation the owner had open last, to resume after a reload
+export async function loadLastConversation(owner: string): Promise<ConversationSnapshot | undefined> {
+  const id = localStorage.getItem(`${LAST_CONVERSATION_KEY}:${owner}`)
+  return id ? loadConversation(id) : undefined
+}
@@ -0,0 +1,130 @@
+// Callbacks can be scheduled from 9:00 AM up to (but not including) 5:00 PM
+export const BUSINESS_HOURS_START = 9
+export const BUSINESS_HOURS_END = 17
+
+export function isWithinBusinessHours(hours24: number): boolean {
+  return hours24 >= BUSINESS_HOURS_START && hours24 < BUSINESS_HOURS_END
+}
+
+// Date/time the customer asked for in a free-text reply such as "call me Thursday at 3pm"
+export type RequestedTime = {
+  // Requested day, with the time of day set when `hasTime` is true
+  date: Date
+  // Whether the reply named a time of day ("3pm", "after 4", "morning") or only a day
+  hasTime: boolean
+  // Whether the time of day falls inside the business window
+  withinBusinessHours: boolean
+}
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat']
+
+// Time of day assumed when only a part of the day is named
+const DAY_PARTS: Record<string, number> = {
+  'morning': 10,
+  'noon': 12,
+  'midday': 12,
+  'lunch': 12,
+  'afternoon': 14,
+  'evening': 18,
+  'tonight': 18
+}
+
+const NUMBER_WORDS: Record<string, number> = { 'a': 1, 'one': 1, 'two': 2, 'three': 3, 'four': 4, 'five': 5 }
+
+// Days from today, or null when the reply names no day
+function extractDayOffset(text: string, now: Date): number | null {
+  if (/\bday after tomorrow\b/.test(text)) return 2
+  if (/\b(tomorrow|tmrw|tmr)\b/.test(text)) return 1
+  if (/\b(today|tonight|this (morning|afternoon|evening))\b/.test(text)) return 0
+
+  const inDays = text.match(/\bin (\d+|a|one|two|three|four|five) days?\b/)
+  if (inDays) return NUMBER_WORDS[inDays[1]] ?? parseInt(inDays[1])
+
+  const weekday = text.match(/\b(monday|tuesday|wednesday|thursday|friday|saturday|sunday|mon|tues?|wed|thu(?:rs?)?|fri|sat|sun)\b/)
+  if (weekday) {
+    const target = WEEKDAYS.indexOf(weekday[1].slice(0, 3))
+    // The same weekday as today means next week's
+    return ((target - now.getDay() + 7) % 7) || 7
+  }
+
+  if (/\bnext week\b/.test(text)) {
+    // Monday of next week
+    return ((1 - now.getDay() + 7) % 7) || 7
+  }
+
+  return null
+}
+
+// Hour/minute (24-hour clock) named in the reply, or null when none is named
+function extractTimeOfDay(text: string): { hours: number, minutes: number } | null {
+  const dayPart = Object.keys(DAY_PARTS).find(part => new RegExp(`\\b${part}\\b`).test(text))
+
+  // A bare number only counts as a time with am/pm, minutes or a lead-in word ("at 3", "after 4")
+  const timePattern = /\b(after|around|at|by|before|about)?\s*(\d{1,2})(?::(\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)?(?![\w:])/g
+  for (const match of text.matchAll(timePattern)) {
+    const [, leadIn, hourText, minuteText, meridiem] = match
+    if (!leadIn && !minuteText && !meridiem) continue
+
+    let hours = parseInt(hourText)
+    let minutes = minuteText ? parseInt(minuteText) : 0
+    if (hours > 23 || minutes > 59) continue
+
+    if (meridiem) {
+      const isPm = meridiem.startsWith('p')
+      if (isPm && hours < 12) hours += 12
+      if (!isPm && hours === 12) hours = 0
+    } else if (hours <= 12) {
+      // No am/pm: the part of the day decides, otherwise assume business hours (1-7 are afternoon)
+      if (dayPart === 'morning') {
+        if (hours === 12) hours = 0
+      } else if (dayPart && dayPart !== 'noon' && dayPart !== 'midday' && dayPart !== 'lunch') {
+        if (hours < 12) hours += 12
+      } else if (hours >= 1 && hours <= 7) {
+        hours += 12
+      }
+    }
+
+    // "after 4" is taken as half past, "before 11" as an hour earlier
+    if (leadIn === 'after' && !minuteText) {
+      minutes = 30
+    } else if (leadIn === 'before' && !minuteText) {
+      hours = Math.max(0, hours - 1)
+    }
+
+    return { hours, minutes }
+  }
+
+  if (dayPart) {
+    return { hours: DAY_PARTS[dayPart], minutes: 0 }
+  }
+  return null
+}
+
+/**
+ * Extracts the requested date/time from a free-text reply. Replies that name
+ * only a time refer to today, or tomorrow if that time has already passed.
+ * Returns null when the reply names neither a day nor a time.
+ */
+export function extractRequestedTime(userText: string, now: Date = new Date()): RequestedTime | null {
+  const text = userText.toLowerCase()
+  const dayOffset = extractDayOffset(text, now)
+  const timeOfDay = extractTimeOfDay(text)
+  if (dayOffset === null && !timeOfDay) return null
+
+  const date = new Date(now)
+  date.setHours(0, 0, 0, 0)
+  date.setDate(date.getDate() + (dayOffset ?? 0))
+
+  if (timeOfDay) {
+    date.setHours(timeOfDay.hours, timeOfDay.minutes)
+    if (dayOffset === null && date <= now) {
+      date.setDate(date.getDate() + 1)
+    }
+  }
+
+  return {
+    date,
+    hasTime: timeOfDay !== null,
+    withinBusinessHours: timeOfDay !== null && isWithinBusinessHours(timeOfDay.hours)
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Wall-clock time in a lead's IANA time zone (e.g. "America/Los_Angeles"),
+ * worked out with Intl so no time zone data has to be bundled.
+ */
+
+export type ZonedParts = {
+  year: number
+  // 1-12
+  month: number
+  day: number
+  hours: number
+  minutes: number
+  seconds: number
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    })
+    formatters.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone)
+    return true
+  } catch {
+    return false
+  }
+}
+
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts: Record<string, number> = {}
+  getFormatter(timeZone).formatToParts(date).forEach(({ type, value }) => {
+    if (type !== 'literal') parts[type] = parseInt(value)
+  })
+  return { year: parts.year, month: parts.month, day: parts.day, hours: parts.hour, minutes: parts.minute, seconds: parts.second }
+}
+
+// How far the zone's wall clock is ahead of UTC at `date` (negative west of Greenwich)
+export function getTimeZoneOffsetMs(date: Date, timeZone: string): number {
+  const { year, month, day, hours, minutes, seconds } = getZonedParts(date, timeZone)
+  const wholeSeconds = Math.floor(date.getTime() / 1000) * 1000
+  return Date.UTC(year, month - 1, day, hours, minutes, seconds) - wholeSeconds
+}
+
+// The moment the zone's wall clock shows the given date and time
+export function zonedTimeToDate(year: number, month: number, day: number, hours: number, minutes: number, timeZone: string): Date {
+  const asUtc = Date.UTC(year, month - 1, day, hours, minutes)
+  const guess = asUtc - getTimeZoneOffsetMs(new Date(asUtc), timeZone)
+  // Again from the guess, in case a daylight saving change lies between the two
+  return new Date(asUtc - getTimeZoneOffsetMs(new Date(guess), timeZone))
+}
+
+// A Date whose local fields show the zone's wall clock, for code that works in local time (e.g. extractRequestedTime)
+export function toWallClock(date: Date, timeZone: string): Date {
+  const { year, month, day, hours, minutes, seconds } = getZonedParts(date, timeZone)
+  return new Date(year, month - 1, day, hours, minutes, seconds, date.getMilliseconds())
+}
+
+// Reverse of toWallClock: the moment a wall-clock Date's local fields stand for in the zone
+export function fromWallClock(wallClock: Date, timeZone: string): Date {
+  return zonedTimeToDate(wallClock.getFullYear(), wallClock.getMonth() + 1, wallClock.getDate(), wallClock.getHours(), wallClock.getMinutes(), timeZone)
+}
+
+// e.g. "PST" or "GMT+2"
+export function getTimeZoneAbbreviation(date: Date, timeZone: string): string {
+  const part = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+    .formatToParts(date)
+    .find(({ type }) => type === 'timeZoneName')
+  return part?.value ?? timeZone
+}
@@ -0,0 +1,232 @@
+import type { Message, MessageClassification, StateTransition } from './types.ts'
+
+/**
+ * Conversation transcripts for stakeholder review: JSON (complete, and what the
+ * importer reads back), CSV (one row per message or state change, for
+ * spreadsheets) and a printable HTML page styled like the phone bubbles.
+ */
+
+export const TRANSCRIPT_FORMAT = '2waysms-transcript'
+
+export type TranscriptMessage = {
+  id: string
+  sender: 'bot' | 'user'
+  text: string
+  // ISO 8601
+  timestamp: string
+  state?: string
+  options?: string[]
+  classification?: MessageClassification
+}
+
+export type TranscriptTransition = {
+  timestamp: string
+  from: string
+  to: string
+  workflow: string
+  stepId: string
+}
+
+export type Transcript = {
+  format: typeof TRANSCRIPT_FORMAT
+  formatVersion: 1
+  exportedAt: string
+  workflow: string
+  version: string
+  aiEnabled: boolean
+  answers: Record<string, string>
+  // Time booked through the date picker (ISO 8601)
+  scheduledDateTime: string | null
+  messages: TranscriptMessage[]
+  stateTransitions: TranscriptTransition[]
+}
+
+export type TranscriptSource = {
+  workflow: string
+  version: string
+  aiEnabled: boolean
+  answers: Record<string, string>
+  scheduledDateTime: Date | null
+  messages: Message[]
+  stateTransitions: StateTransition[]
+}
+
+export type TranscriptFormat = 'json' | 'csv' | 'html'
+
+export function buildTranscript(source: TranscriptSource, exportedAt = new Date()): Transcript {
+  return {
+    format: TRANSCRIPT_FORMAT,
+    formatVersion: 1,
+    exportedAt: exportedAt.toISOString(),
+    workflow: source.workflow,
+    version: source.version,
+    aiEnabled: source.aiEnabled,
+    answers: { ...source.answers },
+    scheduledDateTime: source.scheduledDateTime?.toISOString() ?? null,
+    messages: source.messages.map(message => ({
+      id: message.id,
+      sender: message.sender,
+      text: message.text,
+      timestamp: message.timestamp.toISOString(),
+      ...(message.state ? { state: message.state } : {}),
+      ...(message.options?.length ? { options: [...message.options] } : {}),
+      ...(message.classification ? { classification: { ...message.classification } } : {})
+    })),
+    stateTransitions: source.stateTransitions.map(transition => ({
+      timestamp: transition.timestamp.toISOString(),
+      from: transition.from,
+      to: transition.to,
+      workflow: transition.workflow,
+      stepId: transition.stepId
+    }))
+  }
+}
+
+export function transcriptToJson(transcript: Transcript): string {
+  return JSON.stringify(transcript, null, 2)
+}
+
+// Text starting with = + - @ (or a tab or CR) would run as a formula in a spreadsheet, so it gets a leading '
+function csvField(value: string | number | undefined): string {
+  let text = value === undefined ? '' : String(value)
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+type TimelineEntry =
+  | { kind: 'message', timestamp: string, message: TranscriptMessage }
+  | { kind: 'transition', timestamp: string, transition: TranscriptTransition }
+
+// Messages and state changes in the order they happened (a state change sorts before a message sent at the same time)
+function getTimeline(transcript: Transcript): TimelineEntry[] {
+  const entries: TimelineEntry[] = [
+    ...transcript.stateTransitions.map(transition => ({ kind: 'transition' as const, timestamp: transition.timestamp, transition })),
+    ...transcript.messages.map(message => ({ kind: 'message' as const, timestamp: message.timestamp, message }))
+  ]
+  // Array sort is stable, so entries with the same time keep transitions first and messages in order
+  return entries.sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+}
+
+const CSV_COLUMNS = ['timestamp', 'type', 'sender', 'text', 'options', 'category', 'confidence', 'classifier', 'state', 'from_state', 'to_state', 'step']
+
+export function transcriptToCsv(transcript: Transcript): string {
+  const rows = getTimeline(transcript).map(entry => {
+    if (entry.kind === 'transition') {
+      const { transition } = entry
+      return [transition.timestamp, 'state_change', '', '', '', '', '', '', '', transition.from, transition.to, transition.stepId]
+    }
+    const { message } = entry
+    const classification = message.classification
+    return [
+      message.timestamp,
+      'message',
+      message.sender,
+      message.text,
+      message.options?.join(' | '),
+      classification?.category,
+      classification ? classification.confidence.toFixed(2) : undefined,
+      classification ? [classification.source, classification.rule ?? classification.provider].filter(Boolean).join(':') : undefined,
+      message.state,
+      '', '', ''
+    ]
+  })
+  // CRLF line endings, as spreadsheet apps expect
+  return [CSV_COLUMNS, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n'
+}
+
+// Text from messages, imported transcripts or saved sessions, safe to put in HTML
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+}
+
+const TRANSCRIPT_STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; margin: 0; background: #f2f2f7; color: #000; }
+  .transcript { max-width: 640px; margin: 0 auto; padding: 24px 16px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  .meta { font-size: 13px; color: #6e6e73; margin-bottom: 16px; }
+  .answers { font-size: 13px; margin-bottom: 16px; }
+  .message { display: flex; margin-bottom: 8px; }
+  .message-sent { justify-content: flex-end; }
+  .message-received { justify-content: flex-start; }
+  .bubble { max-width: 75%; padding: 8px 12px; border-radius: 18px; font-size: 15px; line-height: 1.35; break-inside: avoid; }
+  .message-sent .bubble { background: #007AFF; color: #fff; border-bottom-right-radius: 4px; }
+  .message-received .bubble { background: #e5e5ea; color: #000; border-bottom-left-radius: 4px; }
+  .time { font-size: 11px; opacity: 0.7; margin-top: 4px; }
+  .options { margin-top: 6px; display: flex; flex-wrap: wrap; gap: 4px; }
+  .option { font-size: 12px; border: 1px solid #007AFF; color: #007AFF; background: #fff; border-radius: 12px; padding: 2px 8px; }
+  .classification { font-size: 11px; margin-top: 4px; opacity: 0.85; }
+  .transition { text-align: center; font-size: 11px; color: #6e6e73; margin: 10px 0; }
+  @media print {
+    body { background: #fff; }
+    .bubble { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  }
+`
+
+export function transcriptToHtml(transcript: Transcript): string {
+  const timeline = getTimeline(transcript).map(entry => {
+    if (entry.kind === 'transition') {
+      const { transition } = entry
+      return `<div class="transition">${escapeHtml(transition.from)} → <strong>${escapeHtml(transition.to)}</strong> · ${formatTime(transition.timestamp)}</div>`
+    }
+    const { message } = entry
+    const options = message.options?.length
+      ? `<div class="options">${message.options.map(option => `<span class="option">${escapeHtml(option)}</span>`).join('')}</div>`
+      : ''
+    const classification = message.classification
+      ? `<div class="classification">Categorized as <strong>${escapeHtml(message.classification.category)}</strong> (${message.classification.source}, ${Math.round(message.classification.confidence * 100)}%)</div>`
+      : ''
+    return `
+      <div class="message ${message.sender === 'bot' ? 'message-received' : 'message-sent'}">
+        <div class="bubble">
+          <div>${escapeHtml(message.text)}</div>
+          ${options}
+          ${classification}
+          <div class="time">${formatTime(message.timestamp)}</div>
+        </div>
+      </div>`
+  }).join('')
+
+  const answers = Object.entries(transcript.answers)
+  const title = `Transcript: ${transcript.workflow} (version ${transcript.version})`
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${TRANSCRIPT_STYLES}</style>
+</head>
+<body>
+  <div class="transcript">
+    <h1>${escapeHtml(title)}</h1>
+    <div class="meta">AI ${transcript.aiEnabled ? 'on' : 'off'} · ${transcript.messages.length} messages · exported ${formatTime(transcript.exportedAt)}</div>
+    ${answers.length ? `<div class="answers">${answers.map(([key, value]) => `<div><strong>${escapeHtml(key)}:</strong> ${escapeHtml(value)}</div>`).join('')}</div>` : ''}
+    ${timeline}
+  </div>
+</body>
+</html>
+`
+}
+
+const FORMAT_TYPES: Record<TranscriptFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv',
+  html: 'text/html'
+}
+
+export function formatTranscript(transcript: Transcript, format: TranscriptFormat): { fileName: string, mimeType: string, content: string } {
+  const content = format === 'json' ? transcriptToJson(transcript) : format === 'csv' ? transcriptToCsv(transcript) : transcriptToHtml(transcript)
+  // e.g. transcript-confirm-visit-A-2026-10-19T14-05-00.json
+  const stamp = transcript.exportedAt.slice(0, 19).replace(/:/g, '-')
+  const workflow = transcript.workflow.replace(/[^a-z0-9]+/gi, '-').toLowerCase()
+  return { fileName: `transcript-${workflow}-${transcript.version}-${stamp}.${format}`, mimeType: FORMAT_TYPES[format], content }
+}
@@ -0,0 +1,158 @@
+import { TRANSCRIPT_FORMAT } from './transcriptExport.ts'
+import type { Transcript } from './transcriptExport.ts'
+import type { MessageClassification } from './types.ts'
+
+/**
+ * Replay scripts: the customer's side of a conversation, played back through
+ * the phone simulation to reproduce reported conversations and demo flows.
+ *
+ * Accepted input:
+ * - a JSON transcript exported from the chat view (transcriptExport.ts)
+ * - a JSON array of replies (strings, or { text, classification } objects)
+ * - a JSON object { workflow?, version?, aiEnabled?, replies: [...] }
+ * - plain text with one reply per line (blank lines and # comments are skipped)
+ */
+
+export type ReplayReply = {
+  text: string
+  // Recorded categorization, used instead of calling the classifier again
+  classification?: MessageClassification
+}
+
+export type ReplayStep = { workflow: string, stepId: string }
+
+export type ReplayScript = {
+  // Settings to replay with (hand-written lists keep the current ones)
+  workflow?: string
+  version?: string
+  aiEnabled?: boolean
+  replies: ReplayReply[]
+  // Steps the original conversation entered, in order; decides call and date picker outcomes
+  path: ReplayStep[]
+  // Time the original conversation booked through the date picker
+  scheduledDateTime?: Date
+}
+
+const CLASSIFIER_SOURCES: MessageClassification['source'][] = ['llm', 'patterns', 'rule']
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function parseClassification(value: unknown): MessageClassification | undefined {
+  if (!isRecord(value)) return undefined
+  const { category, confidence, source, rule, provider } = value
+  if (typeof category !== 'string' || typeof confidence !== 'number' || !CLASSIFIER_SOURCES.includes(source as MessageClassification['source'])) {
+    return undefined
+  }
+  return {
+    category: category as MessageClassification['category'],
+    confidence,
+    source: source as MessageClassification['source'],
+    ...(typeof rule === 'string' ? { rule } : {}),
+    ...(typeof provider === 'string' ? { provider } : {})
+  }
+}
+
+function parseReply(value: unknown, index: number): ReplayReply {
+  if (typeof value === 'string') return { text: value }
+  if (isRecord(value) && typeof value.text === 'string') {
+    const classification = parseClassification(value.classification)
+    return classification ? { text: value.text, classification } : { text: value.text }
+  }
+  throw new Error(`Reply ${index + 1} is not text or an object with a "text" field`)
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value ? value : undefined
+}
+
+function fromTranscript(transcript: Transcript): ReplayScript {
+  if (!Array.isArray(transcript.messages)) {
+    throw new Error('The transcript has no messages')
+  }
+
+  // A categorized reply is followed by the category it was routed as; the replay sends that again itself
+  const replies: ReplayReply[] = []
+  let echo: string | null = null
+  transcript.messages.forEach((message, index) => {
+    if (message.sender !== 'user') return
+    if (typeof message.text !== 'string') {
+      throw new Error(`Message ${index + 1} has no text`)
+    }
+    const isEcho = echo !== null && message.text === echo
+    echo = null
+    if (isEcho) return
+
+    const classification = parseClassification(message.classification)
+    replies.push(classification ? { text: message.text, classification } : { text: message.text })
+    echo = classification?.category ?? null
+  })
+
+  const path = (Array.isArray(transcript.stateTransitions) ? transcript.stateTransitions : [])
+    .filter(transition => typeof transition?.stepId === 'string')
+    .map(transition => ({ workflow: optionalString(transition.workflow) ?? transcript.workflow, stepId: transition.stepId }))
+
+  const scheduled = transcript.scheduledDateTime ? new Date(transcript.scheduledDateTime) : null
+  return {
+    // The conversation may have switched workflows, so start where the first step was
+    workflow: path[0]?.workflow ?? optionalString(transcript.workflow),
+    version: optionalString(transcript.version),
+    aiEnabled: typeof transcript.aiEnabled === 'boolean' ? transcript.aiEnabled : undefined,
+    replies,
+    path,
+    ...(scheduled && !isNaN(scheduled.getTime()) ? { scheduledDateTime: scheduled } : {})
+  }
+}
+
+function fromJson(data: unknown): ReplayScript {
+  if (Array.isArray(data)) {
+    return { replies: data.map(parseReply), path: [] }
+  }
+  if (isRecord(data) && data.format === TRANSCRIPT_FORMAT) {
+    return fromTranscript(data as Transcript)
+  }
+  if (isRecord(data) && Array.isArray(data.replies)) {
+    return {
+      workflow: optionalString(data.workflow),
+      version: optionalString(data.version),
+      aiEnabled: typeof data.aiEnabled === 'boolean' ? data.aiEnabled : undefined,
+      replies: data.replies.map(parseReply),
+      path: []
+    }
+  }
+  throw new Error('Expected an exported transcript, an array of replies or an object with a "replies" list')
+}
+
+/**
+ * Reads a transcript or reply list. Throws with a message meant for the user
+ * when the content can't be replayed.
+ */
+export function parseReplayScript(content: string): ReplayScript {
+  const text = content.trim()
+  if (!text) {
+    throw new Error('Nothing to replay: the script is empty')
+  }
+
+  let script: ReplayScript
+  if (text.startsWith('{') || text.startsWith('[')) {
+    let data: unknown
+    try {
+      data = JSON.parse(text)
+    } catch (error) {
+      throw new Error(`The script is not valid JSON (${error instanceof Error ? error.message : error})`)
+    }
+    script = fromJson(data)
+  } else {
+    const replies = text.split(/\r?\n/)
+      .map(line => line.trim())
+      .filter(line => line && !line.startsWith('#'))
+      .map(line => ({ text: line }))
+    script = { replies, path: [] }
+  }
+
+  if (script.replies.length === 0 && script.path.length === 0) {
+    throw new Error('Nothing to replay: the script has no customer replies')
+  }
+  return script
+}
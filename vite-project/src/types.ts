@@ -0,0 +1,84 @@
+export type Message = {
+  id: string
+  text: string
+  sender: 'bot' | 'user'
+  timestamp: Date
+  options?: string[]
+  // Conversation state when the message was sent
+  state?: ConversationState
+  // How a typed user reply was categorized
+  classification?: MessageClassification
+  // Bot message held back by the recipient's quiet hours: when it was first due to go out
+  heldSince?: Date
+}
+
+export type MessageClassification = {
+  category: ResponseCategory
+  confidence: number
+  source: 'llm' | 'patterns' | 'rule'
+  rule?: string
+  provider?: string
+}
+
+export type StateTransition = {
+  timestamp: Date
+  from: ConversationState
+  to: ConversationState
+  // Workflow step that was entered, and the workflow it belongs to (a conversation can switch workflows)
+  workflow: string
+  stepId: string
+}
+
+export type ConversationState =
+  | 'initial'
+  // Webform lead without valid consent; nothing is sent
+  | 'consent_missing'
+  | 'calling'
+  | 'call_accepted'
+  | 'call_declined'
+  | 'asking_if_wants_call'
+  | 'waiting_for_response'
+  | 'scheduling_time'
+  | 'time_scheduled'
+  | 'asking_better_time'
+  | 'asking_after_cancel'
+  | 'followup_next_day'
+  | 'max_attempts_reached'
+  | 'unknown'
+  | 'ended'
+  // Confirm visit workflow states
+  | 'confirm_visit_initial'
+  | 'confirm_visit_waiting'
+  | 'confirm_visit_confirmed'
+  | 'confirm_visit_reschedule_question'
+  | 'confirm_visit_reschedule_waiting'
+  | 'confirm_visit_reschedule_selecting_time'
+  | 'confirm_visit_cancelled'
+  | 'confirm_visit_dnc'
+  // Offer workflow states
+  | 'offer_initial'
+  | 'offer_opt_in_check'
+  | 'offer_not_opted_in'
+  | 'offer_waiting'
+  | 'offer_question'
+  | 'offer_accepted'
+  | 'offer_declined'
+  | 'offer_dnc'
+  // Schedule consultation workflow states
+  | 'schedule_consultation_initial'
+  | 'schedule_consultation_offering'
+  | 'schedule_consultation_selecting_time'
+  | 'schedule_consultation_booked'
+  | 'schedule_consultation_dnc'
+  // Customer satisfaction check-in workflow states
+  | 'csat_initial'
+  | 'csat_rating_waiting'
+  | 'csat_feedback_waiting'
+  | 'csat_callback_offer'
+  | 'csat_calling'
+  | 'csat_call_accepted'
+  | 'csat_completed'
+  | 'csat_dnc'
+
+// AI Categorization Types
+export type ResponseCategory = 'Yes' | 'Call at a different time' | 'No' | '24 hours later (No response)' | 'Do not contact' | 'Unknown message'
@@ -0,0 +1,199 @@
+import { getConsentedChannels } from '../consent.ts'
+import { getMaxAttempts } from './schema.ts'
+import type { DiagramNode, DiagramRoute, FollowUpCadence, WorkflowContext, WorkflowDefinition, WorkflowStep } from './schema.ts'
+
+type CallbackWorkflowCopy = {
+  id: string
+  receivedLabel: string
+  // Initial SMS; return '' to skip it (the diagram label follows the same template)
+  initialMessage: (ctx: WorkflowContext) => string
+  initialLabel: (ctx: WorkflowContext) => string
+  callbackMessage: string
+  callbackLabel: string
+  scheduleLabel: string
+  followupMessage: string
+  // Days after the first contact the follow-up is sent on; the conversation closes after the last one
+  followUpDays: number[]
+  // Check the lead's consent before the first text or call (webform leads)
+  requiresConsent?: boolean
+}
+
+// In the customer's time zone when one is given (otherwise the browser's)
+export function formatScheduledDateTime(date: Date | null, timeZone?: string): { formattedDate: string, formattedTime: string } {
+  const value = date ?? new Date()
+  const formattedDate = value.toLocaleDateString('en-US', {
+    timeZone,
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  })
+  const formattedTime = value.toLocaleTimeString('en-US', {
+    timeZone,
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true
+  })
+  return { formattedDate, formattedTime }
+}
+
+/**
+ * Inbound lead → outbound call → SMS callback question, shared by the webform
+ * and product question workflows (they only differ in their copy).
+ */
+export function createCallbackWorkflow(copy: CallbackWorkflowCopy): WorkflowDefinition {
+  const cadence: FollowUpCadence = {
+    days: copy.followUpDays,
+    exhausted: { to: 'max_attempts', label: 'Max attempts' }
+  }
+  const received: WorkflowStep = copy.requiresConsent
+    ? {
+        state: 'initial',
+        node: 'received',
+        condition: {
+          // Texts and calls the consent doesn't cover are suppressed one by one as they go out
+          test: ctx => getConsentedChannels(ctx.lead.consent, ctx.now).length > 0,
+          ifTrue: { to: 'sms_initial', label: 'Consent valid', after: 0 },
+          ifFalse: { to: 'no_consent', label: 'No valid consent', after: 0 }
+        }
+      }
+    : { state: 'initial', node: 'received', next: { to: 'sms_initial', after: 0 } }
+  const consentSteps: Record<string, WorkflowStep> = copy.requiresConsent
+    ? { no_consent: { state: 'consent_missing', node: 'no_consent', outcome: 'suppressed' } }
+    : {}
+  const consentNodes: DiagramNode[] = copy.requiresConsent
+    ? [{ id: 'no_consent', label: 'No valid consent\nNo SMS or call', type: 'red', x: 950, y: 40, width: 170 }]
+    : []
+  const consentRoutes: DiagramRoute[] = copy.requiresConsent
+    ? [{ from: 'received', to: 'no_consent', start: { fx: 1, fy: 0.5 }, end: { fx: 0, fy: 0.5, dy: 12 } }]
+    : []
+  return {
+    id: copy.id,
+    start: 'received',
+    requiresConsent: copy.requiresConsent,
+    steps: {
+      received,
+      ...consentSteps,
+      sms_initial: { state: 'initial', node: 'sms_initial', message: copy.initialMessage, delay: 0, next: { to: 'outbound_call', after: 1500 } },
+      outbound_call: { state: 'calling', node: 'outbound_call', action: 'call', delay: 0, answered: 'does_answer', declined: 'lead_no_answer' },
+      does_answer: { state: 'call_accepted', node: 'does_answer', action: 'call_screen', delay: 0, outcome: 'answered' },
+      lead_no_answer: { state: 'call_declined', node: 'lead_no_answer', next: 'sms_followup' },
+      sms_followup: {
+        state: 'waiting_for_response',
+        node: 'sms_followup',
+        message: copy.callbackMessage,
+        options: ['Yes', 'Call at a different time', 'No', '24 hours later (No response)', 'Do not contact', 'Unknown message'],
+        delay: 0,
+        transitions: {
+          'Yes': 'redial_lead',
+          'Call at a different time': { to: 'schedule_call', label: copy.scheduleLabel },
+          'No': 'better_time',
+          '24 hours later (No response)': { to: 'followup_next_day', label: 'No response' },
+          'Do not contact': 'dnc',
+          'Unknown message': { to: 'unknown', label: 'Unknown message sent' }
+        }
+      },
+      redial_lead: { state: 'calling', node: 'redial_lead', next: 'outbound_call' },
+      schedule_call: {
+        state: 'scheduling_time',
+        node: 'schedule_call',
+        action: 'pick_datetime',
+        delay: 0,
+        picked: 'time_scheduled',
+        // Closing the date picker is a UI path, not part of the drawn flow
+        cancelled: { to: 'after_cancel', hidden: true }
+      },
+      time_scheduled: {
+        state: 'time_scheduled',
+        node: 'schedule_call',
+        delay: 0,
+        message: ctx => {
+          const { formattedDate, formattedTime } = formatScheduledDateTime(ctx.scheduledDateTime, ctx.lead.timeZone)
+          return `We will call you again on ${formattedDate} at ${formattedTime}.`
+        },
+        outcome: 'scheduled'
+      },
+      better_time: {
+        state: 'asking_better_time',
+        node: 'better_time',
+        message: 'Is there a better time that we can call you?',
+        options: ['Yes', 'No'],
+        transitions: { 'Yes': 'schedule_call' },
+        otherwise: { to: 'followup_next_day', label: 'No' }
+      },
+      after_cancel: {
+        state: 'asking_after_cancel',
+        node: 'better_time',
+        message: 'No date and time selected. Would you like to select a date and time for us to call you back?',
+        options: ['Yes', 'No'],
+        transitions: { 'Yes': 'schedule_call' },
+        otherwise: 'followup_next_day'
+      },
+      followup_next_day: {
+        state: 'followup_next_day',
+        node: 'followup_next_day',
+        action: 'wait_24h',
+        cadence,
+        message: copy.followupMessage,
+        // "No" loops back to the next day's follow-up
+        options: ['Yes', 'No'],
+        transitions: {
+          'Yes': 'schedule_call',
+          'Call at a different time': 'schedule_call',
+          'No': { to: 'followup_next_day', label: 'No/No response' },
+          'No/No response': 'followup_next_day',
+          'No response': 'followup_next_day',
+          '24 hours later (No response)': 'followup_next_day',
+          'Do not contact': { to: 'dnc', hidden: true },
+          'Unknown message': { to: 'unknown', hidden: true }
+        }
+      },
+      max_attempts: {
+        state: 'max_attempts_reached',
+        node: 'max_attempts',
+        message: "We haven't heard back from you, so we won't reach out again. Have a nice day!",
+        delay: 0,
+        outcome: 'max_attempts'
+      },
+      unknown: { state: 'unknown', node: 'unknown', message: 'Unknown message received, transferring to messaging agent.', delay: 0, outcome: 'unknown' },
+      dnc: { state: 'ended', node: 'dnc', message: 'Have a nice day!', delay: 0, outcome: 'dnc' }
+    },
+    // Blue rectangles (process), Orange rectangles (SMS), Green ovals (success), Red ovals (DNC/Unknown)
+    diagram: {
+      viewBox: '0 0 1300 1400',
+      fontSize: { oval: 18, rect: 16 },
+      nodes: [
+        { id: 'received', label: copy.receivedLabel, type: 'blue', x: 500, y: 50 },
+        ...consentNodes,
+        { id: 'sms_initial', label: copy.initialLabel, type: 'orange', x: 500, y: 200 },
+        { id: 'outbound_call', label: 'Outbound call attempt is made to lead', type: 'blue', x: 500, y: 350 },
+        { id: 'does_answer', label: 'Does answer', type: 'green', x: 200, y: 500 },
+        { id: 'lead_no_answer', label: "Lead doesn't answer call", type: 'blue', x: 500, y: 500 },
+        { id: 'unknown', label: 'Unknown', type: 'red', x: 150, y: 660 },
+        { id: 'sms_followup', label: copy.callbackLabel, type: 'orange', x: 500, y: 650 },
+        { id: 'redial_lead', label: 'Redial lead', type: 'green', x: 50, y: 875 },
+        { id: 'schedule_call', label: 'Schedule Call', type: 'green', x: 200, y: 950 },
+        { id: 'better_time', label: 'Is there a better time we can call you?', type: 'blue', x: 350, y: 950 },
+        {
+          id: 'followup_next_day',
+          label: ctx => `Followup next day\nDays ${cadence.days.join(', ')} · attempt ${ctx.attempts.followup_next_day ?? 0} of ${getMaxAttempts(cadence)}`,
+          type: 'blue',
+          x: 880,
+          y: 950
+        },
+        { id: 'max_attempts', label: 'Max attempts reached', type: 'red', x: 1120, y: 1130, width: 160 },
+        { id: 'dnc', label: 'DNC', type: 'red', x: 1050, y: 660 }
+      ],
+      routes: [
+        ...consentRoutes,
+        { from: 'sms_followup', to: 'unknown', start: { fx: 0, fy: 0.5 }, end: { fx: 1, fy: 0.5 } },
+        { from: 'sms_followup', to: 'dnc', start: { fx: 1, fy: 0.5 }, end: { fx: 0, fy: 0.5 } },
+        { from: 'better_time', to: 'followup_next_day', start: { fx: 1, fy: 0.2 }, end: { fx: 0, fy: 0.2 } },
+        { from: 'better_time', to: 'schedule_call', shape: 'elbow', drop: 50, start: { fx: 0.5, fy: 1 }, end: { fx: 0.5, fy: 1 } },
+        { from: 'followup_next_day', to: 'schedule_call', shape: 'elbow', drop: 90, start: { fx: 0.5, fy: 1 }, end: { fx: 0.5, fy: 1 }, labelOffsetX: 75 },
+        { from: 'followup_next_day', to: 'followup_next_day', shape: 'loop' },
+        { from: 'followup_next_day', to: 'max_attempts', start: { fx: 0.9, fy: 1 }, end: { fx: 0.5, fy: 0 } }
+      ]
+    }
+  }
+}
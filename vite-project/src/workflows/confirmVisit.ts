@@ -0,0 +1,147 @@
+import { formatScheduledDateTime } from './callback.ts'
+import type { WorkflowContext, WorkflowDefinition } from './schema.ts'
+
+// Sample data - in production, this would come from the appointment system
+const address = '123 Main Street, Anytown, ST 12345'
+
+function getInitialMessage(ctx: WorkflowContext): string {
+  const appointmentDate = new Date(ctx.now)
+  appointmentDate.setDate(appointmentDate.getDate() + 1) // Tomorrow
+  const dateTime = appointmentDate.toLocaleString('en-US', {
+    timeZone: ctx.lead.timeZone,
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true
+  })
+  return `Hey ${ctx.lead.firstName}, you have a consultation scheduled for ${dateTime} at ${address}. A certified technician will be arriving. Will you be available for this appointment?`
+}
+
+/**
+ * Detects if the user is asking to switch to the Confirm Visit workflow
+ * (e.g. "I actually want to confirm a visit", "confirm my appointment")
+ */
+export function isConfirmVisitIntent(userText: string): boolean {
+  const text = userText.toLowerCase().trim()
+  const confirmVisitPatterns = [
+    'confirm a visit',
+    'confirm the visit',
+    'confirm my visit',
+    'confirm visit',
+    'confirm a appointment',
+    'confirm the appointment',
+    'confirm my appointment',
+    'confirm appointment',
+    'confirm my consultation',
+    'confirm the consultation',
+    'confirm consultation',
+    'want to confirm a visit',
+    'want to confirm visit',
+    'actually want to confirm',
+    'actually want to confirm a visit',
+    'actually want to confirm my visit',
+    'i want to confirm',
+    'id like to confirm',
+    'i\'d like to confirm',
+    'appointment confirmation',
+    'confirm my scheduled'
+  ]
+  return confirmVisitPatterns.some(pattern => text.includes(pattern))
+}
+
+const rescheduleQuestion = 'Is there a better time we could reschedule the appointment for?'
+
+export const confirmVisitWorkflow: WorkflowDefinition = {
+  id: 'confirm visit',
+  start: 'cv_customer_visit',
+  steps: {
+    cv_customer_visit: { state: 'confirm_visit_initial', node: 'cv_customer_visit', next: 'cv_initial_sms' },
+    cv_initial_sms: {
+      state: 'confirm_visit_waiting',
+      node: 'cv_initial_sms',
+      message: getInitialMessage,
+      options: ['Yes', 'No', 'Cancel Appointment', 'DNC', 'Unknown message'],
+      delay: 0,
+      transitions: {
+        'Yes': 'cv_confirm_appointment',
+        'No': 'cv_reschedule_appointment',
+        'Cancel Appointment': 'cv_reschedule_question',
+        'DNC': 'cv_cancel_dnc',
+        'Do not contact': 'cv_cancel_dnc',
+        'Unknown message': { to: 'cv_unknown', label: 'Unknown' }
+      }
+    },
+    cv_confirm_appointment: { state: 'confirm_visit_confirmed', node: 'cv_confirm_appointment', message: 'Great! We will see you then.', outcome: 'confirmed' },
+    cv_reschedule_appointment: { state: 'confirm_visit_reschedule_question', node: 'cv_reschedule_appointment', next: 'cv_reschedule_question' },
+    cv_reschedule_question: {
+      state: 'confirm_visit_reschedule_waiting',
+      node: 'cv_reschedule_question',
+      message: rescheduleQuestion,
+      options: ['Yes', 'No'],
+      transitions: {
+        'Yes': 'cv_reschedule_selecting_time',
+        'No': 'cv_cancel_appointment',
+        'Unknown message': { to: 'cv_unknown', hidden: true }
+      }
+    },
+    cv_reschedule_selecting_time: {
+      state: 'confirm_visit_reschedule_selecting_time',
+      node: 'cv_reschedule_question',
+      action: 'pick_datetime',
+      picked: { to: 'cv_rescheduled', label: 'Yes' },
+      cancelled: 'cv_reschedule_question'
+    },
+    cv_rescheduled: {
+      state: 'confirm_visit_confirmed',
+      node: 'cv_confirm_appointment',
+      delay: 0,
+      message: ctx => {
+        const { formattedDate, formattedTime } = formatScheduledDateTime(ctx.scheduledDateTime, ctx.lead.timeZone)
+        return `Your appointment has been rescheduled for ${formattedDate} at ${formattedTime}. We'll see you then!`
+      },
+      outcome: 'confirmed'
+    },
+    cv_cancel_appointment: {
+      state: 'confirm_visit_cancelled',
+      node: 'cv_cancel_appointment',
+      message: 'Your appointment has been canceled, please reach out if you would like to reschedule.',
+      outcome: 'cancelled'
+    },
+    cv_cancel_dnc: {
+      state: 'confirm_visit_dnc',
+      node: 'cv_cancel_dnc',
+      message: 'Your appointment has been canceled and you will no longer receive notifications from this number.',
+      outcome: 'dnc'
+    },
+    cv_unknown: { state: 'unknown', node: 'cv_unknown', message: 'Unknown message received, transferring to messaging agent.', outcome: 'unknown' }
+  },
+  // Orange rectangles (SMS), Green ovals (success/confirm), Red ovals (cancel/DNC)
+  diagram: {
+    viewBox: '0 0 1300 800',
+    fontSize: { oval: 16, rect: 14 },
+    nodes: [
+      { id: 'cv_customer_visit', label: 'Customer visit within 24 hours', type: 'blue', x: 400, y: -130, width: 500 },
+      { id: 'cv_initial_sms', label: 'Hey {fName}, you have a consultation scheduled for {date time} at {address}. A certified technician will be arriving. Will you be available for this appointment?', type: 'orange', x: 400, y: 50, width: 500 },
+      { id: 'cv_confirm_appointment', label: 'Confirm Appointment', type: 'green', x: 710, y: 250, width: 150 },
+      { id: 'cv_reschedule_appointment', label: 'Reschedule Appointment', type: 'green', x: 425, y: 250, width: 150 },
+      { id: 'cv_reschedule_question', label: rescheduleQuestion, type: 'blue', x: 500, y: 600 },
+      { id: 'cv_cancel_appointment', label: 'Cancel Appointment', type: 'red', x: 900, y: 610, width: 150 },
+      { id: 'cv_cancel_dnc', label: 'Cancel Appointment\nAdd to DNC List', type: 'red', x: 1056, y: 54, width: 160 },
+      { id: 'cv_unknown', label: 'Unknown', type: 'red', x: 127, y: 73 }
+    ],
+    routes: [
+      { from: 'cv_customer_visit', to: 'cv_initial_sms', start: { fx: 0.5, fy: 1 }, end: { fx: 0.5, fy: 0 } },
+      // Yes/No leave the bottom of the SMS at 4/5 and 1/5 of its width
+      { from: 'cv_initial_sms', to: 'cv_confirm_appointment', start: { fx: 0.8, fy: 1, dx: -5 }, end: { fx: 0.5, fy: 0, dx: 7 } },
+      { from: 'cv_initial_sms', to: 'cv_reschedule_appointment', start: { fx: 0.2, fy: 1 }, end: { fx: 0.5, fy: 0, dx: -3 } },
+      { from: 'cv_initial_sms', to: 'cv_reschedule_question', start: { fx: 0.5, fy: 1 }, end: { fx: 0.5, fy: 0 } },
+      // DNC and Unknown leave the sides horizontally
+      { from: 'cv_initial_sms', to: 'cv_cancel_dnc', start: { fx: 1, fy: 0.5, dy: 10 }, end: { fx: 0, fy: 0.5, dy: 16 } },
+      { from: 'cv_initial_sms', to: 'cv_unknown', start: { fx: 0, fy: 0.5, dy: 10 }, end: { fx: 1, fy: 0.5, dy: -3 } },
+      { from: 'cv_reschedule_question', to: 'cv_confirm_appointment', start: { fx: 0.5, fy: 1 }, end: { fx: 0.5, fy: 1, dy: 10 } }
+    ]
+  }
+}
@@ -0,0 +1,215 @@
+import { getWorkflowConnections, renderTemplate } from './schema.ts'
+import type { Anchor, DiagramNode, DiagramRoute, WorkflowConnection, WorkflowContext, WorkflowDefinition } from './schema.ts'
+import type { LintIssue } from '../scriptLinter.ts'
+
+const baseColors: Record<string, { fill: string, stroke: string, text: string }> = {
+  'blue': { fill: '#4A90E2', stroke: '#357ABD', text: 'white' },
+  'orange': { fill: '#F5A623', stroke: '#D68910', text: 'white' },
+  'green': { fill: '#7ED321', stroke: '#5BA617', text: 'white' },
+  'red': { fill: '#D0021B', stroke: '#A00115', text: 'white' }
+}
+
+function isOval(node: DiagramNode): boolean {
+  return node.type === 'green' || node.type === 'red'
+}
+
+function nodeWidth(node: DiagramNode): number {
+  return node.width ?? (isOval(node) ? 120 : 300)
+}
+
+// Connection geometry uses the nominal box height, not the text-fitted one
+function nodeNominalHeight(node: DiagramNode): number {
+  return isOval(node) ? 60 : 80
+}
+
+function anchorPoint(node: DiagramNode, anchor: Anchor): { x: number, y: number } {
+  return {
+    x: node.x + nodeWidth(node) * anchor.fx + (anchor.dx ?? 0),
+    y: node.y + nodeNominalHeight(node) * anchor.fy + (anchor.dy ?? 0)
+  }
+}
+
+// Helper function to wrap text
+function wrapText(text: string, maxWidth: number, fontSize: number): string[] {
+  const words = text.split(' ')
+  const lines: string[] = []
+  let currentLine = ''
+
+  words.forEach(word => {
+    const testLine = currentLine ? `${currentLine} ${word}` : word
+    // Approximate width: each character is about 0.6 * fontSize
+    const testWidth = testLine.length * fontSize * 0.6
+
+    if (testWidth > maxWidth && currentLine) {
+      lines.push(currentLine)
+      currentLine = word
+    } else {
+      currentLine = testLine
+    }
+  })
+
+  if (currentLine) {
+    lines.push(currentLine)
+  }
+
+  return lines.length > 0 ? lines : [text]
+}
+
+function renderLabel(label: string, x: number, y: number): string {
+  if (!label) return ''
+  const labelWidth = label.length * 7 + 16 // Approximate width based on text length
+  return `
+    <rect x="${x - labelWidth / 2}" y="${y - 12}" width="${labelWidth}" height="20" fill="white" opacity="0.95" rx="4" stroke="#ddd" stroke-width="1"/>
+    <text x="${x}" y="${y + 2}" class="connection-label" fill="#333" font-size="12" font-weight="500" text-anchor="middle" dominant-baseline="middle">${label}</text>
+  `
+}
+
+function renderConnection(conn: WorkflowConnection, from: DiagramNode, to: DiagramNode, route: DiagramRoute | undefined): string {
+  const labelOffsetX = route?.labelOffsetX ?? 0
+
+  // Self-loop: smooth clockwise arc from the right side middle to the bottom middle
+  if (route?.shape === 'loop') {
+    const fromWidth = nodeWidth(from)
+    const fromHeight = nodeNominalHeight(from)
+    const startX = from.x + fromWidth
+    const startY = from.y + (fromHeight / 2)
+    const endX = from.x + (fromWidth / 2)
+    const endY = from.y + fromHeight
+    const radius = 80 // Radius of the circular motion
+    const control1X = from.x + fromWidth + radius * 0.5
+    const control1Y = from.y + fromHeight / 2 + radius * 0.3
+    const control2X = from.x + fromWidth / 2 + radius * 0.3
+    const control2Y = from.y + fromHeight + radius * 0.5
+
+    // Label sits at the curve's midpoint: B(t) = (1-t)³P₀ + 3(1-t)²tP₁ + 3(1-t)t²P₂ + t³P₃
+    const t = 0.5
+    const mt = 1 - t
+    const labelX = mt * mt * mt * startX + 3 * mt * mt * t * control1X + 3 * mt * t * t * control2X + t * t * t * endX
+    const labelY = mt * mt * mt * startY + 3 * mt * mt * t * control1Y + 3 * mt * t * t * control2Y + t * t * t * endY + 15
+
+    return `
+      <path d="M ${startX} ${startY}
+               C ${control1X} ${control1Y}, ${control2X} ${control2Y}, ${endX} ${endY}"
+            class="dataflow-connection" stroke="#666" stroke-width="2" fill="none" marker-end="url(#arrowhead)"/>
+      ${renderLabel(conn.label, labelX + labelOffsetX, labelY)}
+    `
+  }
+
+  // Default anchors: where the center-to-center line leaves each box
+  const angle = Math.atan2(to.y - from.y, to.x - from.x)
+  const start = route?.start ? anchorPoint(from, route.start) : {
+    x: from.x + (nodeWidth(from) / 2) + Math.cos(angle) * (nodeWidth(from) / 2),
+    y: from.y + (nodeNominalHeight(from) / 2) + Math.sin(angle) * (nodeNominalHeight(from) / 2)
+  }
+  const end = route?.end ? anchorPoint(to, route.end) : {
+    x: to.x + (nodeWidth(to) / 2) - Math.cos(angle) * (nodeWidth(to) / 2),
+    y: to.y + (nodeNominalHeight(to) / 2) - Math.sin(angle) * (nodeNominalHeight(to) / 2)
+  }
+
+  // Elbow: down from the start, across, then straight to the end; label on the horizontal segment
+  if (route?.shape === 'elbow') {
+    const bendY = start.y + (route.drop ?? 50)
+    return `
+      <path d="M ${start.x} ${start.y} L ${start.x} ${bendY} L ${end.x} ${bendY} L ${end.x} ${end.y}"
+            class="dataflow-connection" stroke="#666" stroke-width="2" fill="none" marker-end="url(#arrowhead)"/>
+      ${renderLabel(conn.label, (start.x + end.x) / 2 + labelOffsetX, bendY)}
+    `
+  }
+
+  return `
+    <line x1="${start.x}" y1="${start.y}" x2="${end.x}" y2="${end.y}"
+          class="dataflow-connection" stroke="#666" stroke-width="2" marker-end="url(#arrowhead)"/>
+    ${renderLabel(conn.label, (start.x + end.x) / 2 + labelOffsetX, (start.y + end.y) / 2)}
+  `
+}
+
+// Script linter findings in the node's top-right corner; hovering lists them
+function renderIssueBadge(node: DiagramNode, issues: LintIssue[]): string {
+  if (!issues.length) return ''
+  const hasError = issues.some(issue => issue.severity === 'error')
+  const x = node.x + nodeWidth(node) - (isOval(node) ? 12 : 4)
+  const y = node.y + 4
+  const title = issues.map(issue => issue.message).join('\n').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+  return `
+    <g class="lint-badge ${hasError ? 'error' : 'warning'}">
+      <title>${title}</title>
+      <circle cx="${x}" cy="${y}" r="11" fill="${hasError ? '#FF3B30' : '#F5A623'}" stroke="white" stroke-width="2"/>
+      <text x="${x}" y="${y + 1}" fill="white" font-size="14" font-weight="700"
+            text-anchor="middle" dominant-baseline="middle">!</text>
+    </g>
+  `
+}
+
+function renderNode(node: DiagramNode, label: string, isActive: boolean, fontSizes: { oval: number, rect: number }, issues: LintIssue[]): string {
+  const colors = baseColors[node.type] || baseColors.blue
+  const oval = isOval(node)
+  const width = nodeWidth(node)
+  const fontSize = oval ? fontSizes.oval : fontSizes.rect
+
+  // Rectangles always wrap; ovals only wrap when given a custom width. "\n" forces a line break.
+  const textLines = label.split('\n').flatMap(line => {
+    if (!oval || node.width) return wrapText(line, width - 20, fontSize)
+    return [line]
+  })
+  const lineHeight = fontSize + 4
+  const textHeight = textLines.length * lineHeight
+  const fittedHeight = Math.max(nodeNominalHeight(node), textHeight + 20)
+  // Ovals with a custom width keep a proportional height so they don't look squashed
+  const height = oval && node.width ? Math.max(node.width * 0.5, textHeight + 20) : fittedHeight
+  const textStartY = node.y + (height / 2) - (textHeight / 2) + fontSize - 6
+
+  return `
+    <g class="state-group ${isActive ? 'active' : ''}" data-state-id="${node.id}" style="cursor: pointer;">
+      ${oval ? `
+        <ellipse cx="${node.x + width / 2}" cy="${node.y + height / 2}" rx="${width / 2}" ry="${height / 2}"
+                class="state-box" fill="${isActive ? colors.fill : (node.type === 'green' ? '#E8F5E9' : '#FFEBEE')}"
+                stroke="${isActive ? colors.stroke : '#ccc'}" stroke-width="${isActive ? '3' : '2'}"/>
+      ` : `
+        <rect x="${node.x}" y="${node.y}" width="${width}" height="${height}"
+              rx="10" class="state-box" fill="${isActive ? colors.fill : (node.type === 'blue' ? '#E3F2FD' : '#FFF3E0')}"
+              stroke="${isActive ? colors.stroke : '#ccc'}" stroke-width="${isActive ? '3' : '2'}"/>
+      `}
+      ${textLines.map((line, index) => `
+        <text x="${node.x + width / 2}" y="${textStartY + (index * lineHeight)}"
+              class="state-label" fill="${isActive ? colors.text : (node.type === 'blue' ? '#1976D2' : node.type === 'orange' ? '#E65100' : '#333')}"
+              font-size="${fontSize}" font-weight="${isActive ? '600' : '500'}"
+              text-anchor="middle" dominant-baseline="middle">${line}</text>
+      `).join('')}
+      ${renderIssueBadge(node, issues)}
+    </g>
+  `
+}
+
+/**
+ * Renders a workflow's dataflow diagram as SVG markup. Connections come from
+ * the workflow's step links; `activeNodeId` is highlighted and nodes with
+ * script linter issues get a warning badge.
+ */
+export function renderWorkflowDiagram(workflow: WorkflowDefinition, ctx: WorkflowContext, activeNodeId: string, issues = new Map<string, LintIssue[]>()): string {
+  const { diagram } = workflow
+  const nodeMap = new Map(diagram.nodes.map(n => [n.id, n]))
+  const connections = getWorkflowConnections(workflow)
+
+  return `
+    <svg class="dataflow-svg" viewBox="${diagram.viewBox}" xmlns="http://www.w3.org/2000/svg">
+      <!-- Draw connections -->
+      ${connections.map(conn => {
+        const from = nodeMap.get(conn.from)
+        const to = nodeMap.get(conn.to)
+        if (!from || !to) return ''
+        const route = diagram.routes?.find(r => r.from === conn.from && r.to === conn.to)
+        return renderConnection(conn, from, to, route)
+      }).join('')}
+
+      <!-- Draw states -->
+      ${diagram.nodes.map(node => renderNode(node, renderTemplate(node.label, ctx), node.id === activeNodeId, diagram.fontSize, issues.get(node.id) ?? [])).join('')}
+
+      <!-- Arrow marker definition -->
+      <defs>
+        <marker id="arrowhead" markerWidth="12" markerHeight="12" refX="11" refY="4" orient="auto">
+          <polygon points="0 0, 12 4, 0 8" fill="#666" />
+        </marker>
+      </defs>
+    </svg>
+  `
+}
@@ -0,0 +1,24 @@
+import { confirmVisitWorkflow } from './confirmVisit.ts'
+import { offerWorkflow } from './offer.ts'
+import { productQuestionWorkflow } from './productQuestion.ts'
+import { satisfactionCheckInWorkflow } from './satisfactionCheckIn.ts'
+import { scheduleConsultationWorkflow } from './scheduleConsultation.ts'
+import type { WorkflowDefinition } from './schema.ts'
+import { webformWorkflow } from './webform.ts'
+
+export * from './schema.ts'
+export { renderWorkflowDiagram } from './diagram.ts'
+
+// Workflow definitions keyed by the workflow button's data-workflow value
+const workflows: Record<string, WorkflowDefinition> = {
+  [webformWorkflow.id]: webformWorkflow,
+  [confirmVisitWorkflow.id]: confirmVisitWorkflow,
+  [productQuestionWorkflow.id]: productQuestionWorkflow,
+  [offerWorkflow.id]: offerWorkflow,
+  [scheduleConsultationWorkflow.id]: scheduleConsultationWorkflow,
+  [satisfactionCheckInWorkflow.id]: satisfactionCheckInWorkflow
+}
+
+export function getWorkflow(id: string): WorkflowDefinition | undefined {
+  return workflows[id]
+}
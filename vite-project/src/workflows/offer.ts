@@ -0,0 +1,137 @@
+import { getZonedParts } from '../timeZones.ts'
+import type { WorkflowContext, WorkflowDefinition } from './schema.ts'
+
+// Offers stay valid for a week after they are sent
+const OFFER_VALID_DAYS = 7
+// Answer key offer_sms records its send time under, so later texts quote the same expiry
+const OFFER_SENT_AT = 'offer_sent_at'
+
+function getOfferExpiry(ctx: WorkflowContext): Date {
+  const expiry = new Date(ctx.answers[OFFER_SENT_AT] ?? ctx.now)
+  expiry.setDate(expiry.getDate() + OFFER_VALID_DAYS)
+  return expiry
+}
+
+function formatOfferExpiry(ctx: WorkflowContext): string {
+  return getOfferExpiry(ctx).toLocaleDateString('en-US', {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    timeZone: ctx.lead.timeZone
+  })
+}
+
+// Redemption codes are derived from the lead's phone number and the expiry date,
+// so the same lead always gets the same code for a given offer
+function getRedemptionCode(ctx: WorkflowContext): string {
+  const phoneDigits = ctx.lead.phone.replace(/\D/g, '').slice(-4)
+  const expiry = getZonedParts(getOfferExpiry(ctx), ctx.lead.timeZone)
+  const month = String(expiry.month).padStart(2, '0')
+  const day = String(expiry.day).padStart(2, '0')
+  return `ADT20-${phoneDigits}${month}${day}`
+}
+
+function getOfferMessage(ctx: WorkflowContext): string {
+  return `Hi ${ctx.lead.firstName}, as a valued ADT customer you can get 20% off a smart doorbell camera with professional installation. Offer expires ${formatOfferExpiry(ctx)}. Reply YES to claim it, NO to pass, or text us any question.`
+}
+
+const offerOptions = ['Accept offer', 'Decline offer', 'Ask a question', 'Do not contact']
+
+export const offerWorkflow: WorkflowDefinition = {
+  id: 'offer',
+  start: 'offer_campaign',
+  steps: {
+    offer_campaign: { state: 'offer_initial', node: 'offer_campaign', next: 'offer_opt_in' },
+    // Marketing texts may only go to leads who opted in
+    offer_opt_in: {
+      state: 'offer_opt_in_check',
+      node: 'offer_opt_in',
+      condition: {
+        test: ctx => ctx.lead.marketingOptIn,
+        ifTrue: { to: 'offer_sms', label: 'Opted in' },
+        ifFalse: { to: 'offer_not_opted_in', label: 'Not opted in' }
+      }
+    },
+    offer_not_opted_in: { state: 'offer_not_opted_in', node: 'offer_not_opted_in', outcome: 'suppressed' },
+    offer_sms: {
+      state: 'offer_waiting',
+      node: 'offer_sms',
+      message: getOfferMessage,
+      recordSentAt: OFFER_SENT_AT,
+      options: offerOptions,
+      delay: 0,
+      transitions: {
+        'Accept offer': 'offer_accepted',
+        'Yes': 'offer_accepted',
+        'Decline offer': 'offer_declined',
+        'No': 'offer_declined',
+        'Ask a question': 'offer_question',
+        // Anything else is treated as a question for a specialist
+        'Unknown message': 'offer_question',
+        'Call at a different time': 'offer_question',
+        'Do not contact': { to: 'offer_dnc', label: 'DNC' }
+      }
+    },
+    offer_question: {
+      state: 'offer_question',
+      node: 'offer_question',
+      message: ctx => `Thanks for your question! A product specialist will text you back shortly. Your offer is reserved until ${formatOfferExpiry(ctx)}. Would you like to claim it now?`,
+      options: offerOptions,
+      transitions: {
+        'Accept offer': 'offer_accepted',
+        'Yes': 'offer_accepted',
+        'Decline offer': 'offer_declined',
+        'No': 'offer_declined',
+        'Ask a question': { to: 'offer_question', hidden: true },
+        'Unknown message': { to: 'offer_question', hidden: true },
+        'Call at a different time': { to: 'offer_question', hidden: true },
+        'Do not contact': { to: 'offer_dnc', label: 'DNC' }
+      }
+    },
+    offer_accepted: {
+      state: 'offer_accepted',
+      node: 'offer_accepted',
+      message: ctx => `Great choice! Your redemption code is ${getRedemptionCode(ctx)}. Show it to your technician or enter it at checkout by ${formatOfferExpiry(ctx)}.`,
+      outcome: 'redeemed'
+    },
+    offer_declined: {
+      state: 'offer_declined',
+      node: 'offer_declined',
+      message: "No problem, we won't send you anything more about this offer. Have a nice day!",
+      outcome: 'declined'
+    },
+    offer_dnc: {
+      state: 'offer_dnc',
+      node: 'offer_dnc',
+      message: 'You have been unsubscribed and will no longer receive offers from this number.',
+      outcome: 'dnc'
+    }
+  },
+  // Blue rectangles (process), Orange rectangles (SMS), Green ovals (redeemed), Red ovals (declined/DNC/suppressed)
+  diagram: {
+    viewBox: '0 0 1300 800',
+    fontSize: { oval: 16, rect: 14 },
+    nodes: [
+      { id: 'offer_campaign', label: 'Offer campaign sends to lead', type: 'blue', x: 500, y: 50 },
+      { id: 'offer_opt_in', label: 'Has the lead opted in to marketing texts?', type: 'blue', x: 500, y: 190 },
+      { id: 'offer_not_opted_in', label: 'Not opted in\nNo SMS sent', type: 'red', x: 950, y: 190, width: 170 },
+      { id: 'offer_sms', label: 'Hi {fName}, as a valued ADT customer you can get 20% off a smart doorbell camera with professional installation. Offer expires {expiry date}. Reply YES to claim it, NO to pass, or text us any question.', type: 'orange', x: 400, y: 340, width: 500 },
+      { id: 'offer_dnc', label: 'DNC', type: 'red', x: 1080, y: 360 },
+      { id: 'offer_question', label: 'Specialist follows up on the question and the offer is repeated', type: 'blue', x: 850, y: 560 },
+      { id: 'offer_accepted', label: 'Send redemption code', type: 'green', x: 170, y: 580, width: 170 },
+      { id: 'offer_declined', label: 'Offer declined', type: 'red', x: 560, y: 600, width: 150 }
+    ],
+    routes: [
+      { from: 'offer_campaign', to: 'offer_opt_in', start: { fx: 0.5, fy: 1 }, end: { fx: 0.5, fy: 0 } },
+      { from: 'offer_opt_in', to: 'offer_sms', start: { fx: 0.5, fy: 1 }, end: { fx: 0.5, fy: 0 } },
+      { from: 'offer_opt_in', to: 'offer_not_opted_in', start: { fx: 1, fy: 0.5 }, end: { fx: 0, fy: 0.5, dy: 12 } },
+      { from: 'offer_sms', to: 'offer_dnc', start: { fx: 1, fy: 0.5 }, end: { fx: 0, fy: 0.5 } },
+      // Accept/Decline/Question leave the bottom of the SMS at 1/5, 1/2 and 4/5 of its width
+      { from: 'offer_sms', to: 'offer_accepted', start: { fx: 0.2, fy: 1 }, end: { fx: 0.5, fy: 0 } },
+      { from: 'offer_sms', to: 'offer_declined', start: { fx: 0.5, fy: 1 }, end: { fx: 0.5, fy: 0 } },
+      { from: 'offer_sms', to: 'offer_question', start: { fx: 0.8, fy: 1 }, end: { fx: 0.5, fy: 0 } },
+      { from: 'offer_question', to: 'offer_declined', start: { fx: 0, fy: 0.5 }, end: { fx: 1, fy: 0.5, dy: 8 } },
+      { from: 'offer_question', to: 'offer_accepted', shape: 'elbow', drop: 100, start: { fx: 0.5, fy: 1 }, end: { fx: 0.5, fy: 1, dy: 25 } }
+    ]
+  }
+}
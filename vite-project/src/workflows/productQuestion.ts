@@ -0,0 +1,13 @@
+import { createCallbackWorkflow } from './callback.ts'
+
+export const productQuestionWorkflow = createCallbackWorkflow({
+  id: 'product question',
+  receivedLabel: 'Product question received',
+  initialMessage: () => 'We received your product question! We are calling now to help.',
+  initialLabel: () => "SMS is sent to customer 'We received your product question! We are calling now to help.'",
+  callbackMessage: 'Hello, we received your product question. Would you like us to call you back to help?',
+  callbackLabel: "SMS is sent to lead 'Hello, we received your product question. Would you like us to call you back to help?'",
+  scheduleLabel: 'Call at a different time',
+  followupMessage: 'Hello, we called yesterday about your product question. Would you like to schedule a time for us to call you?',
+  followUpDays: [1, 3]
+})
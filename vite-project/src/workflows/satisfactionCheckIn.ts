@@ -0,0 +1,124 @@
+import type { StepLink, WorkflowDefinition, WorkflowStep } from './schema.ts'
+
+const ratingOptions = ['1', '2', '3', '4', '5']
+
+// Ratings of 3 and below count as low scores
+const ratingTransitions: Record<string, StepLink> = {
+  '1': { to: 'csat_feedback', label: '1, 2 or 3' },
+  '2': 'csat_feedback',
+  '3': 'csat_feedback',
+  '4': { to: 'csat_thank_you', label: '4 or 5' },
+  '5': 'csat_thank_you',
+  'Do not contact': { to: 'csat_dnc', label: 'DNC' }
+}
+
+// Anything that isn't a rating asks again
+const ratingRetry: WorkflowStep = {
+  state: 'csat_rating_waiting',
+  node: 'csat_rating',
+  message: "Sorry, I didn't catch that. Please reply with a number from 1 to 5.",
+  options: ratingOptions,
+  record: 'rating',
+  transitions: ratingTransitions,
+  otherwise: { to: 'csat_rating_retry', hidden: true }
+}
+
+export const satisfactionCheckInWorkflow: WorkflowDefinition = {
+  id: 'customer satisfaction check-in',
+  start: 'csat_install_complete',
+  steps: {
+    csat_install_complete: { state: 'csat_initial', node: 'csat_install_complete', next: 'csat_rating' },
+    csat_rating: {
+      state: 'csat_rating_waiting',
+      node: 'csat_rating',
+      message: ctx => `Hi ${ctx.lead.firstName}, thanks for choosing ADT! On a scale of 1 to 5, how satisfied are you with your installation? (5 = very satisfied)`,
+      options: ratingOptions,
+      delay: 0,
+      record: 'rating',
+      transitions: ratingTransitions,
+      otherwise: { to: 'csat_rating_retry', hidden: true }
+    },
+    csat_rating_retry: ratingRetry,
+    csat_thank_you: {
+      state: 'csat_completed',
+      node: 'csat_thank_you',
+      message: ctx => `Thank you, ${ctx.lead.firstName}! We're glad you're happy with your new system. Reply anytime if you need help.`,
+      outcome: 'completed'
+    },
+    csat_feedback: {
+      state: 'csat_feedback_waiting',
+      node: 'csat_feedback',
+      message: "We're sorry to hear that. What could we have done better?",
+      input: 'free_text',
+      record: 'feedback',
+      otherwise: { to: 'csat_callback_offer', label: 'Feedback received' }
+    },
+    csat_callback_offer: {
+      state: 'csat_callback_offer',
+      node: 'csat_callback_offer',
+      message: 'Thank you for the feedback. Would you like a call from our customer care team to make it right?',
+      options: ['Yes', 'No'],
+      record: 'callback',
+      transitions: { 'Yes': 'csat_callback' },
+      otherwise: { to: 'csat_closed', label: 'No' }
+    },
+    csat_callback: {
+      state: 'csat_calling',
+      node: 'csat_callback',
+      action: 'call',
+      answered: { to: 'csat_call_answered', label: 'Answers' },
+      declined: { to: 'csat_call_missed', label: 'No answer' }
+    },
+    csat_call_answered: { state: 'csat_call_accepted', node: 'csat_call_answered', action: 'call_screen', delay: 0, outcome: 'answered' },
+    csat_call_missed: {
+      state: 'csat_completed',
+      node: 'csat_closed',
+      message: 'Sorry we missed you! A customer care specialist will try you again soon.',
+      outcome: 'completed'
+    },
+    csat_closed: {
+      state: 'csat_completed',
+      node: 'csat_closed',
+      message: "Understood. We've shared your feedback with our customer care team. Thank you for helping us improve!",
+      outcome: 'completed'
+    },
+    csat_dnc: {
+      state: 'csat_dnc',
+      node: 'csat_dnc',
+      message: 'You will no longer receive messages from this number. Have a nice day!',
+      outcome: 'dnc'
+    }
+  },
+  answers: [
+    { key: 'rating', label: 'Rating (1-5)' },
+    { key: 'feedback', label: 'Feedback' },
+    { key: 'callback', label: 'Callback requested' }
+  ],
+  // Blue rectangles (process), Orange rectangles (SMS), Green ovals (completed), Red ovals (low score closed/DNC)
+  diagram: {
+    viewBox: '0 0 1300 850',
+    fontSize: { oval: 16, rect: 14 },
+    nodes: [
+      { id: 'csat_install_complete', label: 'Installation completed', type: 'blue', x: 500, y: 50 },
+      { id: 'csat_rating', label: 'Hi {fName}, thanks for choosing ADT! On a scale of 1 to 5, how satisfied are you with your installation? (5 = very satisfied)', type: 'orange', x: 400, y: 190, width: 500 },
+      { id: 'csat_dnc', label: 'DNC', type: 'red', x: 1050, y: 200 },
+      { id: 'csat_thank_you', label: 'Thank you message', type: 'green', x: 170, y: 390, width: 180 },
+      { id: 'csat_feedback', label: "We're sorry to hear that. What could we have done better?", type: 'orange', x: 650, y: 390 },
+      { id: 'csat_callback_offer', label: 'Thank you for the feedback. Would you like a call from our customer care team to make it right?', type: 'orange', x: 650, y: 540 },
+      { id: 'csat_closed', label: 'Feedback shared with customer care', type: 'red', x: 1080, y: 550, width: 170 },
+      { id: 'csat_callback', label: 'Customer care calls the customer', type: 'blue', x: 650, y: 700 },
+      { id: 'csat_call_answered', label: 'Call answered', type: 'green', x: 380, y: 700, width: 150 }
+    ],
+    routes: [
+      { from: 'csat_install_complete', to: 'csat_rating', start: { fx: 0.5, fy: 1 }, end: { fx: 0.5, fy: 0 } },
+      { from: 'csat_rating', to: 'csat_dnc', start: { fx: 1, fy: 0.5 }, end: { fx: 0, fy: 0.5 } },
+      { from: 'csat_rating', to: 'csat_thank_you', start: { fx: 0.2, fy: 1 }, end: { fx: 0.5, fy: 0 } },
+      { from: 'csat_rating', to: 'csat_feedback', start: { fx: 0.8, fy: 1 }, end: { fx: 0.5, fy: 0 } },
+      { from: 'csat_feedback', to: 'csat_callback_offer', start: { fx: 0.5, fy: 1 }, end: { fx: 0.5, fy: 0 } },
+      { from: 'csat_callback_offer', to: 'csat_callback', start: { fx: 0.5, fy: 1 }, end: { fx: 0.5, fy: 0 } },
+      { from: 'csat_callback_offer', to: 'csat_closed', start: { fx: 1, fy: 0.5 }, end: { fx: 0, fy: 0.5, dy: 12 } },
+      { from: 'csat_callback', to: 'csat_call_answered', start: { fx: 0, fy: 0.5 }, end: { fx: 1, fy: 0.5, dy: 8 } },
+      { from: 'csat_callback', to: 'csat_closed', start: { fx: 1, fy: 0.5 }, end: { fx: 0.5, fy: 1, dy: 25 } }
+    ]
+  }
+}
@@ -0,0 +1,125 @@
+import { fromWallClock, toWallClock } from '../timeZones.ts'
+import { formatScheduledDateTime } from './callback.ts'
+import type { WorkflowContext, WorkflowDefinition, WorkflowStep } from './schema.ts'
+
+// Sample data - in production, this would come from the technician calendar
+const address = '123 Main Street, Anytown, ST 12345'
+const SLOT_HOURS = [10, 14, 11] // Hours of the offered slots, all within 9:00 AM - 5:00 PM
+
+function nextBusinessDay(from: Date): Date {
+  const day = new Date(from)
+  do {
+    day.setDate(day.getDate() + 1)
+  } while (day.getDay() === 0 || day.getDay() === 6)
+  return day
+}
+
+// Three open slots over the next two business days in the customer's time zone (stable for the whole day they are offered)
+function getConsultationSlots(now: Date, timeZone: string): Date[] {
+  const firstDay = nextBusinessDay(toWallClock(now, timeZone))
+  const secondDay = nextBusinessDay(firstDay)
+  return [firstDay, firstDay, secondDay].map((day, index) => {
+    const slot = new Date(day)
+    slot.setHours(SLOT_HOURS[index], 0, 0, 0)
+    return fromWallClock(slot, timeZone)
+  })
+}
+
+function formatSlot(slot: Date, timeZone: string): string {
+  const { formattedTime } = formatScheduledDateTime(slot, timeZone)
+  const day = slot.toLocaleDateString('en-US', { timeZone, weekday: 'long', month: 'long', day: 'numeric' })
+  return `${day} at ${formattedTime}`
+}
+
+function getSlotsMessage(ctx: WorkflowContext): string {
+  const { timeZone } = ctx.lead
+  const slots = getConsultationSlots(ctx.now, timeZone).map((slot, index) => `${index + 1}) ${formatSlot(slot, timeZone)}`).join(', ')
+  return `Hi ${ctx.lead.firstName}, let's book your free security consultation. Our next open times are: ${slots}. Reply 1, 2 or 3, or tell us if none of these work.`
+}
+
+function getBookedMessage(date: Date, timeZone: string): string {
+  const { formattedDate, formattedTime } = formatScheduledDateTime(date, timeZone)
+  return `You're booked! A certified technician will meet you on ${formattedDate} at ${formattedTime} at ${address}. We'll text you the day before to confirm.`
+}
+
+// One booking step per offered slot; they share the "booked" node on the diagram
+function bookSlotStep(index: number): WorkflowStep {
+  return {
+    state: 'schedule_consultation_booked',
+    node: 'sc_booked',
+    message: ctx => getBookedMessage(getConsultationSlots(ctx.now, ctx.lead.timeZone)[index], ctx.lead.timeZone),
+    outcome: 'scheduled'
+  }
+}
+
+export const scheduleConsultationWorkflow: WorkflowDefinition = {
+  id: 'schedule consultation',
+  start: 'sc_request',
+  steps: {
+    sc_request: { state: 'schedule_consultation_initial', node: 'sc_request', next: 'sc_offer_slots' },
+    sc_offer_slots: {
+      state: 'schedule_consultation_offering',
+      node: 'sc_offer_slots',
+      message: getSlotsMessage,
+      options: ['1', '2', '3', 'None of these', 'Do not contact', 'Unknown message'],
+      delay: 0,
+      transitions: {
+        '1': { to: 'sc_book_slot_1', label: '1, 2 or 3' },
+        '2': 'sc_book_slot_2',
+        '3': 'sc_book_slot_3',
+        'None of these': 'sc_pick_time',
+        'No': 'sc_pick_time',
+        'Call at a different time': 'sc_pick_time',
+        'Do not contact': { to: 'sc_dnc', label: 'DNC' },
+        'Unknown message': { to: 'sc_unknown', label: 'Unknown' }
+      }
+    },
+    sc_book_slot_1: bookSlotStep(0),
+    sc_book_slot_2: bookSlotStep(1),
+    sc_book_slot_3: bookSlotStep(2),
+    sc_pick_time: {
+      state: 'schedule_consultation_selecting_time',
+      node: 'sc_pick_time',
+      message: 'No problem! Please pick a day and time between 9:00 AM and 5:00 PM that works for you.',
+      action: 'pick_datetime',
+      picked: { to: 'sc_book_picked_time', label: 'Time picked' },
+      // Closing the date picker offers the slots again
+      cancelled: { to: 'sc_offer_slots', hidden: true }
+    },
+    sc_book_picked_time: {
+      state: 'schedule_consultation_booked',
+      node: 'sc_booked',
+      delay: 0,
+      message: ctx => getBookedMessage(ctx.scheduledDateTime ?? ctx.now, ctx.lead.timeZone),
+      outcome: 'scheduled'
+    },
+    sc_dnc: {
+      state: 'schedule_consultation_dnc',
+      node: 'sc_dnc',
+      message: 'You will no longer receive messages from this number. Have a nice day!',
+      outcome: 'dnc'
+    },
+    sc_unknown: { state: 'unknown', node: 'sc_unknown', message: 'Unknown message received, transferring to messaging agent.', outcome: 'unknown' }
+  },
+  // Blue rectangles (process), Orange rectangles (SMS), Green ovals (booked), Red ovals (DNC/Unknown)
+  diagram: {
+    viewBox: '0 0 1300 800',
+    fontSize: { oval: 16, rect: 14 },
+    nodes: [
+      { id: 'sc_request', label: 'Lead requests a consultation', type: 'blue', x: 500, y: 50 },
+      { id: 'sc_offer_slots', label: "Hi {fName}, let's book your free security consultation. Our next open times are: 1) {slot 1}, 2) {slot 2}, 3) {slot 3}. Reply 1, 2 or 3, or tell us if none of these work.", type: 'orange', x: 400, y: 200, width: 500 },
+      { id: 'sc_unknown', label: 'Unknown', type: 'red', x: 130, y: 215 },
+      { id: 'sc_dnc', label: 'DNC', type: 'red', x: 1050, y: 215 },
+      { id: 'sc_booked', label: 'Consultation booked\n(Confirm Visit runs the day before)', type: 'green', x: 280, y: 470, width: 220 },
+      { id: 'sc_pick_time', label: 'Customer picks a date and time', type: 'blue', x: 750, y: 480 }
+    ],
+    routes: [
+      { from: 'sc_request', to: 'sc_offer_slots', start: { fx: 0.5, fy: 1 }, end: { fx: 0.5, fy: 0 } },
+      { from: 'sc_offer_slots', to: 'sc_unknown', start: { fx: 0, fy: 0.5 }, end: { fx: 1, fy: 0.5 } },
+      { from: 'sc_offer_slots', to: 'sc_dnc', start: { fx: 1, fy: 0.5 }, end: { fx: 0, fy: 0.5 } },
+      { from: 'sc_offer_slots', to: 'sc_booked', start: { fx: 0.3, fy: 1, dy: 20 }, end: { fx: 0.5, fy: 0 } },
+      { from: 'sc_offer_slots', to: 'sc_pick_time', start: { fx: 0.8, fy: 1, dy: 20 }, end: { fx: 0.5, fy: 0 } },
+      { from: 'sc_pick_time', to: 'sc_booked', start: { fx: 0, fy: 0.5 }, end: { fx: 1, fy: 0.5, dy: 25 } }
+    ]
+  }
+}
@@ -0,0 +1,219 @@
+import type { Lead } from '../leads.ts'
+import type { ConversationState } from '../types.ts'
+
+/**
+ * Declarative workflow definitions.
+ *
+ * A workflow is a set of steps (what the bot says, which replies it accepts and
+ * where each reply leads) plus the diagram layout. The phone simulation walks
+ * the steps and the dataflow diagram draws its connections from the same step
+ * links, so the chat behavior and the diagram cannot drift apart.
+ */
+
+// Values available to message and label templates
+export type WorkflowContext = {
+  version: string
+  scheduledDateTime: Date | null
+  lead: Lead
+  // Replies recorded by steps with `record`, keyed by answer key
+  answers: Record<string, string>
+  // Follow-up attempts made so far, keyed by the follow-up step
+  attempts: Record<string, number>
+  // The conversation's (simulated) time
+  now: Date
+}
+
+export type Template = string | ((ctx: WorkflowContext) => string)
+
+// A link to another step. Links double as the diagram's connections.
+export type StepLink = string | {
+  to: string
+  // Connection label on the diagram (defaults to the reply that follows the link)
+  label?: string
+  // Keep this link off the diagram (used for UI-only paths such as closing a modal)
+  hidden?: boolean
+  // Delay in ms before following an automatic `next` link (default 500)
+  after?: number
+}
+
+// Terminal outcomes a conversation can end in
+export type WorkflowOutcome = 'answered' | 'scheduled' | 'confirmed' | 'cancelled' | 'redeemed' | 'declined' | 'suppressed' | 'completed' | 'dnc' | 'unknown' | 'max_attempts'
+
+// When a follow-up step (action 'wait_24h') is sent again and when it gives up
+export type FollowUpCadence = {
+  // Day of each attempt counted from the first contact, e.g. [1, 3, 7]; later attempts keep the last spacing
+  days: number[]
+  // Attempts before giving up (default: one per day in `days`)
+  maxAttempts?: number
+  // Step the conversation goes to instead of another attempt
+  exhausted: StepLink
+}
+
+export type WorkflowStep = {
+  // Conversation state while this step is active
+  state: ConversationState
+  // Diagram node highlighted while this step is active
+  node: string
+  // Bot message sent on entry (an empty template sends nothing)
+  message?: Template
+  // Reply options offered with the message
+  options?: string[]
+  // Delay in ms between entering the step and sending its message (default 500)
+  delay?: number
+  // Allowed replies (ResponseCategory or option text) and the step each one leads to
+  transitions?: Record<string, StepLink>
+  // Step to go to for any reply not listed in `transitions`
+  otherwise?: StepLink
+  // 'free_text' takes the reply verbatim (always shows the text box, never categorizes)
+  input?: 'free_text'
+  // Stores the reply under this answer key
+  record?: string
+  // Stores when the step's message went out (ISO 8601) under this answer key, for later messages that refer back to it
+  recordSentAt?: string
+  // Step to continue with automatically once this one has been entered
+  next?: StepLink
+  // Like `next`, but picks one of two steps based on the context (e.g. the lead's opt-in)
+  condition?: { test: (ctx: WorkflowContext) => boolean, ifTrue: StepLink, ifFalse: StepLink }
+  // Side effect performed on entry besides messaging
+  action?: 'call' | 'call_screen' | 'pick_datetime' | 'wait_24h'
+  // Spacing and limit of a 'wait_24h' step's attempts (without it every attempt waits 24 hours, forever)
+  cadence?: FollowUpCadence
+  // Outcomes of the 'call' action
+  answered?: StepLink
+  declined?: StepLink
+  // Outcomes of the 'pick_datetime' action
+  picked?: StepLink
+  cancelled?: StepLink
+  // Set on steps that end the conversation
+  outcome?: WorkflowOutcome
+}
+
+export type NodeType = 'blue' | 'orange' | 'green' | 'red'
+
+export type DiagramNode = {
+  id: string
+  label: Template
+  type: NodeType
+  x: number
+  y: number
+  width?: number
+}
+
+// Point on a node's box as fractions of its width/height plus a pixel offset
+export type Anchor = { fx: number, fy: number, dx?: number, dy?: number }
+
+// Custom routing for a connection; connections without a route are drawn center to center
+export type DiagramRoute = {
+  from: string
+  to: string
+  start?: Anchor
+  end?: Anchor
+  // 'elbow' goes down `drop` px from the start, across, then straight to the end
+  shape?: 'line' | 'elbow' | 'loop'
+  drop?: number
+  labelOffsetX?: number
+}
+
+export type WorkflowDefinition = {
+  id: string
+  start: string
+  steps: Record<string, WorkflowStep>
+  diagram: {
+    viewBox: string
+    fontSize: { oval: number, rect: number }
+    nodes: DiagramNode[]
+    routes?: DiagramRoute[]
+  }
+  // Answers collected by `record` steps, summarized in the dataflow panel
+  answers?: { key: string, label: string }[]
+  // Texts and calls only start once the lead's consent passes checkConsent (shown in the consent panel)
+  requiresConsent?: boolean
+}
+
+export type WorkflowConnection = { from: string, to: string, label: string }
+
+export function linkTarget(link: StepLink): string {
+  return typeof link === 'string' ? link : link.to
+}
+
+export function getMaxAttempts(cadence: FollowUpCadence): number {
+  return cadence.maxAttempts ?? cadence.days.length
+}
+
+// Days between attempt `attempt - 1` and `attempt` (1-based); the first attempt waits until its day
+export function getFollowUpWaitDays(cadence: FollowUpCadence, attempt: number): number {
+  const { days } = cadence
+  if (days.length === 0) return 1
+  if (attempt <= days.length) {
+    return days[attempt - 1] - (attempt > 1 ? days[attempt - 2] : 0)
+  }
+  // Past the end of the cadence the last spacing repeats
+  return days.length > 1 ? days[days.length - 1] - days[days.length - 2] : days[0]
+}
+
+export function renderTemplate(template: Template | undefined, ctx: WorkflowContext): string {
+  if (!template) return ''
+  return typeof template === 'string' ? template : template(ctx)
+}
+
+// Every outgoing link of a step, with the reply (if any) that follows it
+export function getStepLinks(step: WorkflowStep): { reply?: string, link: StepLink }[] {
+  const links: { reply?: string, link: StepLink }[] = []
+  Object.entries(step.transitions ?? {}).forEach(([reply, link]) => links.push({ reply, link }))
+  const automatic = [step.otherwise, step.next, step.condition?.ifTrue, step.condition?.ifFalse, step.answered, step.declined, step.picked, step.cancelled, step.cadence?.exhausted]
+  automatic.forEach(link => {
+    if (link) links.push({ link })
+  })
+  return links
+}
+
+/**
+ * Derives the diagram connections from the step links. Links between two steps
+ * drawn on the same node are skipped unless the step links to itself (a loop).
+ */
+export function getWorkflowConnections(workflow: WorkflowDefinition): WorkflowConnection[] {
+  const connections: WorkflowConnection[] = []
+  Object.entries(workflow.steps).forEach(([stepId, step]) => {
+    getStepLinks(step).forEach(({ reply, link }) => {
+      if (typeof link !== 'string' && link.hidden) return
+      const targetId = linkTarget(link)
+      const target = workflow.steps[targetId]
+      if (!target) return
+      if (target.node === step.node && targetId !== stepId) return
+      const label = (typeof link !== 'string' && link.label !== undefined) ? link.label : (reply ?? '')
+      const existing = connections.find(c => c.from === step.node && c.to === target.node)
+      if (!existing) {
+        connections.push({ from: step.node, to: target.node, label })
+      } else if (!existing.label && label) {
+        existing.label = label
+      }
+    })
+  })
+  return connections
+}
+
+export type PathSegment = { stepId: string, reply?: string }
+
+/**
+ * Shortest path from the start step to the first step drawn on `nodeId`.
+ * Each segment carries the user reply that led into it (if any). Date picks
+ * are not followed since they need a chosen time.
+ */
+export function findPathToNode(workflow: WorkflowDefinition, nodeId: string): PathSegment[] | null {
+  const queue: PathSegment[][] = [[{ stepId: workflow.start }]]
+  const visited = new Set<string>([workflow.start])
+  while (queue.length > 0) {
+    const path = queue.shift()!
+    const { stepId } = path[path.length - 1]
+    const step = workflow.steps[stepId]
+    if (step.node === nodeId) return path
+    getStepLinks(step).forEach(({ reply, link }) => {
+      if (link === step.picked) return
+      const targetId = linkTarget(link)
+      if (visited.has(targetId) || !workflow.steps[targetId]) return
+      visited.add(targetId)
+      queue.push([...path, { stepId: targetId, reply }])
+    })
+  }
+  return null
+}
@@ -0,0 +1,17 @@
+import { createCallbackWorkflow } from './callback.ts'
+
+// Version B omits the "We received your interest form!" message
+export const webformWorkflow = createCallbackWorkflow({
+  id: 'webform',
+  receivedLabel: 'Webform received',
+  initialMessage: ctx => ctx.version === 'A' ? 'We received your interest form! We are calling now.' : '',
+  initialLabel: ctx => ctx.version === 'B'
+    ? 'No SMS is sent to customer'
+    : "SMS is sent to customer 'We received your interest form! We are calling now.'",
+  callbackMessage: 'Hello, we just called to reach out about our product! Would you like us to call you back?',
+  callbackLabel: "SMS is sent to lead 'Hello Lead, do you want to be called?'",
+  scheduleLabel: 'Can you call at ???',
+  followupMessage: 'Hello, we called yesterday to reach out about our product! Would you like to schedule a time for us to call you?',
+  followUpDays: [1, 3, 7],
+  requiresConsent: true
+})
@@ -1,22 +1,40 @@
-import { defineConfig } from 'vite'
+import { defineConfig, loadEnv } from 'vite'
 
-export default defineConfig({
-  envDir: '.', // Load .env from project root so VITE_* vars are embedded in build for S3
-  server: {
-    port: 3000,
-  },
-  build: {
-    outDir: 'dist',
-    assetsDir: 'assets',
-    emptyOutDir: true,
-    rollupOptions: {
-      output: {
-        manualChunks: undefined,
-        assetFileNames: 'assets/[name]-[hash][extname]',
-        chunkFileNames: 'assets/[name]-[hash].js',
-        entryFileNames: 'assets/[name]-[hash].js'
-      }
+// LLM keys the browser only uses for direct calls in dev; a production build would embed them
+const BROWSER_SECRET_VARS = ['VITE_OPENAI_API_KEY', 'VITE_LLM_API_KEY', 'VITE_AZURE_OPENAI_API_KEY']
+const PLACEHOLDER_KEYS = ['', 'YOUR_API_KEY', 'your-api-key-here']
+
+export default defineConfig(({ command, mode }) => {
+  if (command === 'build') {
+    const env = loadEnv(mode, '.', 'VITE_')
+    const secrets = BROWSER_SECRET_VARS.filter(name => !PLACEHOLDER_KEYS.includes(env[name] ?? ''))
+    if (secrets.length) {
+      throw new Error(
+        `${secrets.join(', ')} would be embedded in the ${mode} build. ` +
+        'Move the key to the classifier proxy (npm run proxy, OPENAI_API_KEY) and set VITE_CLASSIFIER_PROXY_URL, ' +
+        'or keep browser keys in .env.development.local for local dev only.'
+      )
     }
-  },
-  base: './', // Relative paths so dist works when served from S3 (or any subpath)
+  }
+
+  return {
+    envDir: '.', // Load .env from project root so VITE_* vars are embedded in build for S3
+    server: {
+      port: 3000,
+    },
+    build: {
+      outDir: 'dist',
+      assetsDir: 'assets',
+      emptyOutDir: true,
+      rollupOptions: {
+        output: {
+          manualChunks: undefined,
+          assetFileNames: 'assets/[name]-[hash][extname]',
+          chunkFileNames: 'assets/[name]-[hash].js',
+          entryFileNames: 'assets/[name]-[hash].js'
+        }
+      }
+    },
+    base: './', // Relative paths so dist works when served from S3 (or any subpath)
+  }
 })